@@ -0,0 +1,62 @@
+// CSV au sens RFC 4180 : champs entre guillemets s'ils contiennent le
+// séparateur, un guillemet ou un retour à la ligne
+
+const BOM = "\uFEFF";
+
+/**
+ * Découpe un CSV en lignes de cellules. Le séparateur (`,` ou `;`, ce
+ * dernier étant celui d'Excel en français) est déduit de la ligne d'en-tête.
+ */
+export const parseCsv = (input: string): string[][] => {
+  const text = input.startsWith(BOM) ? input.slice(1) : input;
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter =
+    headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const escapeCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Le BOM permet à Excel de reconnaître l'UTF-8 (accents)
+export const stringifyCsv = (rows: string[][]) =>
+  BOM + rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
@@ -0,0 +1,392 @@
+import { toAlbumFormValues } from "~/components/admin/AlbumForm";
+import { toGroupFormValues } from "~/components/admin/GroupForm";
+import { albumKey, slugify } from "~/catalog/keys";
+import type { CatalogIssueSeverity } from "~/catalog/schema";
+import type { Album, AlbumInput, Group, GroupInput } from "~/catalog/types";
+import type { CatalogRepository } from "~/.server/catalog";
+import { parseCsv, stringifyCsv } from "./csv";
+import {
+  ALBUM_FIELDS,
+  GROUP_FIELDS,
+  validateAlbumForm,
+  validateGroupForm,
+} from "./validation";
+
+// Une ligne par album ; les colonnes reprennent les champs des formulaires
+// d'administration, préfixés par `group_` ou `album_`
+const groupColumn = (field: string) => `group_${field}`;
+const albumColumn = (field: string) => `album_${field}`;
+
+export const CSV_COLUMNS = [
+  ...GROUP_FIELDS.map(groupColumn),
+  ...ALBUM_FIELDS.map(albumColumn),
+];
+
+type FormValues = Partial<Record<string, string>>;
+
+const toCells = (values: FormValues, fields: readonly string[]) =>
+  fields.map((field) => values[field] ?? "");
+
+export const catalogToCsv = (groups: Group[]) =>
+  stringifyCsv([
+    CSV_COLUMNS,
+    ...groups.flatMap(({ albums, ...group }) => {
+      const groupCells = toCells(toGroupFormValues(group), GROUP_FIELDS);
+      return albums.map((album) => [
+        ...groupCells,
+        ...toCells(toAlbumFormValues(album), ALBUM_FIELDS),
+      ]);
+    }),
+  ]);
+
+// Même forme que `app/data/groups.json`, qu'il peut remplacer tel quel
+export const catalogToJson = (groups: Group[]) =>
+  JSON.stringify(
+    groups.map(({ albums, ...group }) => ({
+      ...group,
+      albums: albums.map(({ key, groupId, groupName, ...album }) => album),
+    })),
+    null,
+    2
+  ) + "\n";
+
+export interface ImportIssue {
+  severity: CatalogIssueSeverity;
+  // Numéro de ligne du tableur (l'en-tête est la ligne 1)
+  row?: number;
+  column?: string;
+  message: string;
+}
+
+export type ImportStatus = "added" | "changed" | "unchanged";
+
+interface AlbumImport {
+  key: string;
+  input: AlbumInput;
+  status: ImportStatus;
+}
+
+interface GroupImport {
+  input: GroupInput;
+  status: ImportStatus;
+  albums: AlbumImport[];
+}
+
+export interface ImportChange {
+  type: "group" | "album";
+  status: "added" | "changed" | "removed";
+  key: string;
+  label: string;
+  // Colonnes modifiées, pour `changed`
+  columns: string[];
+}
+
+export interface ImportPlan {
+  groups: GroupImport[];
+  removedGroups: Group[];
+  removedAlbums: Album[];
+  changes: ImportChange[];
+  issues: ImportIssue[];
+  valid: boolean;
+}
+
+const toFormData = (values: FormValues) => {
+  const formData = new FormData();
+  Object.entries(values).forEach(([name, value]) =>
+    formData.set(name, value ?? "")
+  );
+  return formData;
+};
+
+const pickColumns = (
+  record: Record<string, string>,
+  fields: readonly string[],
+  column: (field: string) => string
+): Record<string, string> =>
+  Object.fromEntries(
+    fields.map((field) => [field, (record[column(field)] ?? "").trim()])
+  );
+
+// Comparaison sur les valeurs de formulaire : les listes y sont normalisées
+const changedColumns = (
+  next: FormValues,
+  current: FormValues,
+  fields: readonly string[],
+  column: (field: string) => string
+) =>
+  fields
+    .filter((field) => (next[field] ?? "") !== (current[field] ?? ""))
+    .map(column);
+
+const statusOf = (existing: unknown, columns: string[]): ImportStatus =>
+  !existing ? "added" : columns.length > 0 ? "changed" : "unchanged";
+
+interface GroupRows {
+  row: number;
+  values: Record<string, string>;
+  input?: GroupInput;
+  slugs: Set<string>;
+  albums: AlbumInput[];
+  // Lignes d'album, valides ou non
+  albumRows: number;
+}
+
+/**
+ * Prépare l'import d'un CSV sans rien écrire : erreurs par ligne, et
+ * différences (ajouts, modifications, suppressions) avec le catalogue actuel.
+ * Le CSV remplace tout le catalogue : ce qui n'y figure pas est supprimé.
+ */
+export const planCsvImport = (text: string, current: Group[]): ImportPlan => {
+  const issues: ImportIssue[] = [];
+  const plan = (): ImportPlan => ({
+    groups: [],
+    removedGroups: [],
+    removedAlbums: [],
+    changes: [],
+    issues,
+    valid: false,
+  });
+
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((name) => name.trim());
+  if (rows.length === 0) {
+    issues.push({
+      severity: "error",
+      message: "Le fichier ne contient aucune ligne d'album.",
+    });
+    return plan();
+  }
+
+  const missing = CSV_COLUMNS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    issues.push({
+      severity: "error",
+      row: 1,
+      message: `Colonnes manquantes : ${missing.join(", ")}.`,
+    });
+    return plan();
+  }
+  columns
+    .filter((name) => name && !CSV_COLUMNS.includes(name))
+    .forEach((name) =>
+      issues.push({
+        severity: "warning",
+        row: 1,
+        column: name,
+        message: "Colonne inconnue, ignorée.",
+      })
+    );
+
+  const groupRows = new Map<string, GroupRows>();
+  const seenAlbumKeys = new Set<string>();
+  const reportErrors = (
+    row: number,
+    errors: Record<string, string>,
+    column: (field: string) => string
+  ) =>
+    Object.entries(errors).forEach(([field, message]) =>
+      issues.push({ severity: "error", row, column: column(field), message })
+    );
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((cell) => !cell.trim())) return;
+
+    const record = Object.fromEntries(
+      columns.map((name, column) => [name, cells[column] ?? ""])
+    );
+    const groupValues = pickColumns(record, GROUP_FIELDS, groupColumn);
+    groupValues.id = groupValues.id || slugify(groupValues.name);
+
+    let group = groupRows.get(groupValues.id);
+    if (!group) {
+      // Le groupe est validé sur sa première ligne, les suivantes doivent concorder
+      const result = validateGroupForm(toFormData(groupValues), {
+        takenIds: new Set(),
+      });
+      if (!result.ok) reportErrors(row, result.errors, groupColumn);
+      if (!groupValues.id) return;
+
+      group = {
+        row,
+        values: groupValues,
+        input: result.ok ? result.values : undefined,
+        slugs: new Set(),
+        albums: [],
+        albumRows: 0,
+      };
+      groupRows.set(groupValues.id, group);
+    } else {
+      const first = group;
+      GROUP_FIELDS.filter(
+        (field) => groupValues[field] !== first.values[field]
+      ).forEach((field) =>
+        issues.push({
+          severity: "error",
+          row,
+          column: groupColumn(field),
+          message: `Diffère de la ligne ${first.row} pour le groupe « ${groupValues.id} ».`,
+        })
+      );
+    }
+
+    const albumValues = pickColumns(record, ALBUM_FIELDS, albumColumn);
+    // Colonnes d'album vides : la ligne ne porte que le groupe
+    if (Object.values(albumValues).every((value) => !value)) return;
+    group.albumRows += 1;
+    const result = validateAlbumForm(toFormData(albumValues), {
+      takenSlugs: group.slugs,
+    });
+    const slug = result.values.slug;
+    if (slug) {
+      group.slugs.add(slug);
+      seenAlbumKeys.add(albumKey(groupValues.id, slug));
+    }
+    if (!result.ok) {
+      reportErrors(row, result.errors, albumColumn);
+      return;
+    }
+    group.albums.push(result.values);
+  });
+
+  // Un groupe a toujours au moins un album
+  groupRows.forEach((group, id) => {
+    if (group.albumRows === 0) {
+      issues.push({
+        severity: "error",
+        row: group.row,
+        message: `Le groupe « ${id} » n'a aucun album : ajoutez au moins une ligne d'album.`,
+      });
+    }
+  });
+
+  const currentGroups = new Map(current.map((group) => [group.id, group]));
+  const groups: GroupImport[] = [];
+  const changes: ImportChange[] = [];
+
+  groupRows.forEach(({ input, albums }) => {
+    if (!input) return;
+    const existing = currentGroups.get(input.id);
+    const groupColumns = existing
+      ? changedColumns(
+          toGroupFormValues(input),
+          toGroupFormValues(existing),
+          GROUP_FIELDS,
+          groupColumn
+        )
+      : [];
+    const status = statusOf(existing, groupColumns);
+    if (status !== "unchanged") {
+      changes.push({
+        type: "group",
+        status,
+        key: input.id,
+        label: input.name,
+        columns: groupColumns,
+      });
+    }
+
+    groups.push({
+      input,
+      status,
+      albums: albums.map((album) => {
+        const key = albumKey(input.id, album.slug);
+        const existingAlbum = existing?.albums.find(
+          (candidate) => candidate.key === key
+        );
+        const albumColumns = existingAlbum
+          ? changedColumns(
+              toAlbumFormValues(album),
+              toAlbumFormValues(existingAlbum),
+              ALBUM_FIELDS,
+              albumColumn
+            )
+          : [];
+        const albumStatus = statusOf(existingAlbum, albumColumns);
+        if (albumStatus !== "unchanged") {
+          changes.push({
+            type: "album",
+            status: albumStatus,
+            key,
+            label: `${album.title} (${input.name})`,
+            columns: albumColumns,
+          });
+        }
+        return { key, input: album, status: albumStatus };
+      }),
+    });
+  });
+
+  // Les lignes en erreur comptent comme présentes : rien n'est supprimé à cause d'une faute de saisie
+  const removedGroups = current.filter((group) => !groupRows.has(group.id));
+  const removedAlbums = current
+    .filter((group) => groupRows.has(group.id))
+    .flatMap((group) =>
+      group.albums.filter((album) => !seenAlbumKeys.has(album.key))
+    );
+
+  removedGroups.forEach((group) =>
+    changes.push({
+      type: "group",
+      status: "removed",
+      key: group.id,
+      label: group.name,
+      columns: [],
+    })
+  );
+  removedAlbums.forEach((album) =>
+    changes.push({
+      type: "album",
+      status: "removed",
+      key: album.key,
+      label: `${album.title} (${album.groupName})`,
+      columns: [],
+    })
+  );
+
+  return {
+    groups,
+    removedGroups,
+    removedAlbums,
+    changes,
+    issues,
+    valid: !issues.some((issue) => issue.severity === "error"),
+  };
+};
+
+export const countChanges = (changes: ImportChange[]) => ({
+  added: changes.filter((change) => change.status === "added").length,
+  changed: changes.filter((change) => change.status === "changed").length,
+  removed: changes.filter((change) => change.status === "removed").length,
+});
+
+/**
+ * Applique un import validé, dans une seule transaction : une écriture en
+ * échec annule tout l'import. Les albums sont créés avant les suppressions
+ * pour qu'un groupe conservé ne se retrouve jamais sans album.
+ */
+export const applyImportPlan = (
+  repository: CatalogRepository,
+  plan: ImportPlan
+) =>
+  repository.transaction(async () => {
+    for (const group of plan.groups) {
+      const { id, ...groupInput } = group.input;
+      if (group.status === "added") await repository.createGroup(group.input);
+      if (group.status === "changed")
+        await repository.updateGroup(id, groupInput);
+
+      for (const album of group.albums) {
+        const { slug, ...albumInput } = album.input;
+        if (album.status === "added")
+          await repository.createAlbum(id, album.input);
+        if (album.status === "changed")
+          await repository.updateAlbum(album.key, albumInput);
+      }
+    }
+
+    for (const album of plan.removedAlbums)
+      await repository.deleteAlbum(album.key);
+    for (const group of plan.removedGroups)
+      await repository.deleteGroup(group.id);
+  });
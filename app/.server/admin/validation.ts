@@ -0,0 +1,335 @@
+import fs from "node:fs";
+import path from "node:path";
+import { slugify } from "~/catalog/keys";
+import { TRANSLATION_FIELD_NAMES, fieldsToTranslations } from "~/catalog/localize";
+import {
+  parseInfluencesText,
+  parseLinksText,
+  parseMembersText,
+  parseTracklistText,
+} from "~/catalog/metadata";
+import { RELEASE_DATE_PATTERN, SLUG_PATTERN } from "~/catalog/schema";
+import { ALBUM_FORMATS } from "~/catalog/types";
+import type {
+  AlbumFormat,
+  AlbumInput,
+  CarouselItemInput,
+  GroupInput,
+} from "~/catalog/types";
+
+export type FieldErrors = Record<string, string>;
+
+export type FormValidation<T> =
+  | { ok: true; values: T }
+  | { ok: false; values: Record<string, string>; errors: FieldErrors };
+
+const readFields = (formData: FormData, names: readonly string[]) =>
+  Object.fromEntries(
+    names.map((name) => {
+      const value = formData.get(name);
+      return [name, typeof value === "string" ? value.trim() : ""];
+    })
+  ) as Record<string, string>;
+
+const requireFields = (
+  values: Record<string, string>,
+  names: readonly string[],
+  errors: FieldErrors
+) => {
+  names.forEach((name) => {
+    if (!values[name]) errors[name] = "Ce champ est obligatoire.";
+  });
+};
+
+// Les fichiers de `public/` sont copiés dans `build/client` au build
+const ASSET_ROOTS = ["public", "build/client"];
+
+type PublicAsset = "found" | "missing" | "malformed" | "outside";
+
+// Chemin décodé et résolu sous chaque racine : un `%` isolé ou des `../`
+// sortant de `public/` sont refusés avant tout accès disque
+export const findPublicAsset = (src: string): PublicAsset => {
+  let decoded: string;
+  try {
+    decoded = decodeURI(src);
+  } catch {
+    return "malformed";
+  }
+  const files = ASSET_ROOTS.map((root) => {
+    const base = path.resolve(process.cwd(), root);
+    const file = path.resolve(base, `.${decoded}`);
+    return file === base || file.startsWith(`${base}${path.sep}`) ? file : null;
+  });
+  if (files.some((file) => file === null)) return "outside";
+  return files.some(
+    (file) => file && fs.statSync(file, { throwIfNoEntry: false })?.isFile()
+  )
+    ? "found"
+    : "missing";
+};
+
+const checkAssetPath = (
+  values: Record<string, string>,
+  name: string,
+  errors: FieldErrors
+) => {
+  const src = values[name];
+  if (!src || errors[name]) return;
+  if (!src.startsWith("/")) {
+    errors[name] = "Le chemin doit commencer par « / » (fichier sous public/).";
+    return;
+  }
+  const asset = findPublicAsset(src);
+  if (asset === "malformed") {
+    errors[name] = "Chemin mal encodé (un « % » doit être suivi de deux chiffres hexadécimaux).";
+  } else if (asset === "outside") {
+    errors[name] = "Le chemin doit rester sous public/.";
+  } else if (asset === "missing") {
+    errors[name] = `Aucun fichier public${src}.`;
+  }
+};
+
+const checkSlug = (
+  values: Record<string, string>,
+  name: string,
+  taken: Set<string>,
+  errors: FieldErrors
+) => {
+  const slug = values[name];
+  if (!slug) return;
+  if (!SLUG_PATTERN.test(slug)) {
+    errors[name] = "Lettres minuscules, chiffres et tirets uniquement.";
+  } else if (taken.has(slug)) {
+    errors[name] = `« ${slug} » est déjà utilisé.`;
+  }
+};
+
+// Champs texte « une entrée par ligne » : valeur parsée, ou erreur sur le champ
+const parseListField = <T>(
+  values: Record<string, string>,
+  name: string,
+  parse: (text: string) => { ok: true; value: T[] } | { ok: false; error: string },
+  errors: FieldErrors
+) => {
+  const result = parse(values[name]);
+  if (!result.ok) {
+    errors[name] = result.error;
+    return undefined;
+  }
+  return result.value.length > 0 ? result.value : undefined;
+};
+
+const withTranslations = (values: Record<string, string>) => {
+  const translations = fieldsToTranslations(values);
+  return translations ? { translations } : {};
+};
+
+export const GROUP_FIELDS = [
+  "id",
+  "name",
+  "genre",
+  "origin",
+  "description",
+  "short_description",
+  "ambiance",
+  "members",
+  "links",
+  "influences",
+  ...TRANSLATION_FIELD_NAMES,
+];
+
+/**
+ * Valide le formulaire d'un groupe. À la création, l'identifiant est déduit
+ * du nom s'il est laissé vide ; en édition il n'est pas modifiable.
+ */
+export const validateGroupForm = (
+  formData: FormData,
+  { takenIds }: { takenIds?: Set<string> } = {}
+): FormValidation<GroupInput> => {
+  const values = readFields(formData, GROUP_FIELDS);
+  const errors: FieldErrors = {};
+
+  if (takenIds) {
+    values.id = values.id || slugify(values.name);
+    checkSlug(values, "id", takenIds, errors);
+  }
+  requireFields(
+    values,
+    ["name", "genre", "origin", "description", "short_description"],
+    errors
+  );
+  if (takenIds && !values.id && !errors.name) {
+    errors.id = "Ce champ est obligatoire.";
+  }
+  const members = parseListField(values, "members", parseMembersText, errors);
+  const links = parseListField(values, "links", parseLinksText, errors);
+  const influences = parseListField(values, "influences", parseInfluencesText, errors);
+
+  if (Object.keys(errors).length > 0) return { ok: false, values, errors };
+
+  return {
+    ok: true,
+    values: {
+      id: values.id,
+      name: values.name,
+      genre: values.genre,
+      origin: values.origin,
+      description: values.description,
+      short_description: values.short_description,
+      ...(values.ambiance ? { ambiance: values.ambiance } : {}),
+      ...(members ? { members } : {}),
+      ...(links ? { links } : {}),
+      ...(influences ? { influences } : {}),
+      ...withTranslations(values),
+    },
+  };
+};
+
+export const ALBUM_FIELDS = [
+  "slug",
+  "title",
+  "src",
+  "alt",
+  "description",
+  "short_description",
+  "releaseDate",
+  "label",
+  "format",
+  "tracklist",
+  "links",
+  ...TRANSLATION_FIELD_NAMES,
+];
+
+export const validateAlbumForm = (
+  formData: FormData,
+  { takenSlugs }: { takenSlugs?: Set<string> } = {}
+): FormValidation<AlbumInput> => {
+  const values = readFields(formData, ALBUM_FIELDS);
+  const errors: FieldErrors = {};
+
+  if (takenSlugs) {
+    values.slug = values.slug || slugify(values.title);
+    checkSlug(values, "slug", takenSlugs, errors);
+  }
+  requireFields(
+    values,
+    ["title", "src", "alt", "description", "short_description"],
+    errors
+  );
+  checkAssetPath(values, "src", errors);
+  if (values.releaseDate && !RELEASE_DATE_PATTERN.test(values.releaseDate)) {
+    errors.releaseDate = "Format attendu : AAAA, AAAA-MM ou AAAA-MM-JJ.";
+  }
+  if (values.format && !(ALBUM_FORMATS as readonly string[]).includes(values.format)) {
+    errors.format = `Choisir parmi ${ALBUM_FORMATS.join(", ")}.`;
+  }
+  const tracklist = parseListField(values, "tracklist", parseTracklistText, errors);
+  const links = parseListField(values, "links", parseLinksText, errors);
+
+  if (Object.keys(errors).length > 0) return { ok: false, values, errors };
+
+  return {
+    ok: true,
+    values: {
+      slug: values.slug,
+      title: values.title,
+      src: values.src,
+      alt: values.alt,
+      description: values.description,
+      short_description: values.short_description,
+      ...(values.releaseDate ? { releaseDate: values.releaseDate } : {}),
+      ...(values.label ? { label: values.label } : {}),
+      ...(values.format ? { format: values.format as AlbumFormat } : {}),
+      ...(tracklist ? { tracklist } : {}),
+      ...(links ? { links } : {}),
+      ...withTranslations(values),
+    },
+  };
+};
+
+// Champs `<prefix><champ>` relus sous leur nom court
+const withoutPrefix = (formData: FormData, prefix: string) => {
+  const stripped = new FormData();
+  formData.forEach((value, name) => {
+    if (name.startsWith(prefix)) stripped.set(name.slice(prefix.length), value);
+  });
+  return stripped;
+};
+
+const withPrefix = (record: Record<string, string>, prefix: string) =>
+  Object.fromEntries(
+    Object.entries(record).map(([name, value]) => [`${prefix}${name}`, value])
+  );
+
+/**
+ * Valide la création d'un groupe avec son premier album, dont les champs
+ * sont préfixés par `albumPrefix` : comme `app/catalog/schema.ts`, un groupe
+ * a toujours au moins un album.
+ */
+export const validateNewGroupForm = (
+  formData: FormData,
+  { takenIds, albumPrefix }: { takenIds: Set<string>; albumPrefix: string }
+): FormValidation<{ group: GroupInput; album: AlbumInput }> => {
+  const group = validateGroupForm(formData, { takenIds });
+  const album = validateAlbumForm(withoutPrefix(formData, albumPrefix), {
+    takenSlugs: new Set(),
+  });
+  if (group.ok && album.ok) {
+    return { ok: true, values: { group: group.values, album: album.values } };
+  }
+
+  return {
+    ok: false,
+    // Saisie renvoyée telle quelle, y compris la partie valide
+    values: readFields(formData, [
+      ...GROUP_FIELDS,
+      ...ALBUM_FIELDS.map((field) => `${albumPrefix}${field}`),
+    ]),
+    errors: {
+      ...(group.ok ? {} : group.errors),
+      ...(album.ok ? {} : withPrefix(album.errors, albumPrefix)),
+    },
+  };
+};
+
+const CAROUSEL_FIELDS = [
+  "title",
+  "description",
+  "image",
+  "link",
+  "buttonText",
+] as const;
+
+export const validateCarouselForm = (
+  formData: FormData
+): FormValidation<CarouselItemInput> => {
+  const values = readFields(formData, CAROUSEL_FIELDS);
+  const errors: FieldErrors = {};
+
+  requireFields(values, CAROUSEL_FIELDS, errors);
+  checkAssetPath(values, "image", errors);
+
+  if (values.link && !errors.link) {
+    const isInternal = values.link.startsWith("/");
+    const isExternal = /^https?:\/\/[^\s]+$/.test(values.link);
+    if (!isInternal && !isExternal) {
+      errors.link = "Lien interne (« /… ») ou URL http(s) attendu.";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, values, errors };
+
+  return {
+    ok: true,
+    values: {
+      title: values.title,
+      description: values.description,
+      image: values.image,
+      link: values.link,
+      buttonText: values.buttonText,
+    },
+  };
+};
+
+export const READ_ONLY_MESSAGE =
+  "Le catalogue est en lecture seule (CATALOG_DRIVER=json). Passez en CATALOG_DRIVER=sqlite pour l'éditer.";
@@ -0,0 +1,33 @@
+export const GROUP_FIELDS = [
+  "id",
+  "name",
+  "genre",
+  "origin",
+  "description",
+  "short_description",
+  "ambiance",
+  "members",
+  "links",
+  "influences",
+  "translations",
+  "albums",
+] as const;
+
+export const ALBUM_FIELDS = [
+  "key",
+  "id",
+  "slug",
+  "title",
+  "src",
+  "alt",
+  "description",
+  "short_description",
+  "releaseDate",
+  "label",
+  "format",
+  "tracklist",
+  "links",
+  "translations",
+  "groupId",
+  "groupName",
+] as const;
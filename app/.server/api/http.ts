@@ -0,0 +1,60 @@
+import { createHash } from "node:crypto";
+
+export interface ApiErrorBody {
+  error: {
+    status: number;
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+const API_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+export const apiError = (
+  status: number,
+  code: string,
+  message: string,
+  details?: Record<string, unknown>
+): Response => {
+  const body: ApiErrorBody = {
+    error: { status, code, message, ...(details ? { details } : {}) },
+  };
+  return new Response(JSON.stringify(body), { status, headers: API_HEADERS });
+};
+
+export const methodNotAllowed = () =>
+  apiError(405, "method_not_allowed", "This endpoint only supports GET.");
+
+const matchesEtag = (header: string | null, etag: string) => {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header
+    .split(",")
+    .map((candidate) => candidate.trim().replace(/^W\//, ""))
+    .includes(etag);
+};
+
+/**
+ * Réponse JSON avec un ETag fort calculé sur le corps. Renvoie un 304
+ * quand le client a déjà la même version (`If-None-Match`).
+ */
+export const apiJson = (request: Request, body: unknown): Response => {
+  const payload = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(payload).digest("base64url")}"`;
+  const headers = {
+    ...API_HEADERS,
+    ETag: etag,
+    "Cache-Control": "public, max-age=60",
+  };
+
+  if (matchesEtag(request.headers.get("If-None-Match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(payload, { status: 200, headers });
+};
@@ -0,0 +1,320 @@
+import { ALBUM_FORMATS, LINK_TYPES } from "~/catalog/types";
+import { TRANSLATED_LOCALES } from "~/i18n/locales";
+import { DEFAULT_PER_PAGE, MAX_PER_PAGE } from "./query";
+import { ALBUM_FIELDS, GROUP_FIELDS } from "./fields";
+
+const string = { type: "string" };
+const integer = { type: "integer" };
+
+const linksSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["type", "url"],
+    properties: {
+      type: { type: "string", enum: LINK_TYPES },
+      url: { ...string, format: "uri" },
+      label: string,
+    },
+  },
+};
+
+const translationsSchema = {
+  type: "object",
+  description: "Translated texts keyed by locale. Base fields are in French.",
+  additionalProperties: false,
+  properties: Object.fromEntries(
+    TRANSLATED_LOCALES.map((locale) => [
+      locale,
+      {
+        type: "object",
+        properties: { description: string, short_description: string },
+      },
+    ])
+  ),
+};
+
+const albumSchema = {
+  type: "object",
+  required: [
+    "key",
+    "id",
+    "slug",
+    "title",
+    "src",
+    "alt",
+    "description",
+    "short_description",
+    "groupId",
+    "groupName",
+  ],
+  properties: {
+    key: { ...string, description: "Global album key, `groupId/slug`.", example: "arch-enemy/blood-dynasty" },
+    id: { ...integer, description: "Legacy numeric id." },
+    slug: { ...string, description: "Unique within the group." },
+    title: string,
+    src: { ...string, description: "Cover path, relative to the site root." },
+    alt: string,
+    description: string,
+    short_description: string,
+    releaseDate: { ...string, description: "`YYYY`, `YYYY-MM` or `YYYY-MM-DD`.", example: "2025-03-28" },
+    label: string,
+    format: { type: "string", enum: ALBUM_FORMATS },
+    tracklist: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["number", "title"],
+        properties: {
+          number: { ...integer, minimum: 1 },
+          title: string,
+          duration: { ...string, description: "`m:ss`.", example: "4:05" },
+        },
+      },
+    },
+    links: linksSchema,
+    translations: translationsSchema,
+    groupId: string,
+    groupName: string,
+  },
+};
+
+const groupSchema = {
+  type: "object",
+  required: [
+    "id",
+    "name",
+    "genre",
+    "origin",
+    "description",
+    "short_description",
+    "albums",
+  ],
+  properties: {
+    id: { ...string, description: "URL slug.", example: "arch-enemy" },
+    name: string,
+    genre: { ...string, example: "Melodic Death Metal" },
+    origin: { ...string, example: "Sweden" },
+    description: string,
+    short_description: string,
+    ambiance: string,
+    members: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "roles"],
+        properties: {
+          name: string,
+          roles: { type: "array", items: string },
+        },
+      },
+    },
+    links: linksSchema,
+    influences: { type: "array", items: string },
+    translations: translationsSchema,
+    albums: { type: "array", items: { $ref: "#/components/schemas/Album" } },
+  },
+};
+
+const listOf = (ref: string) => ({
+  type: "object",
+  required: ["data", "meta", "links"],
+  properties: {
+    data: { type: "array", items: { $ref: ref } },
+    meta: { $ref: "#/components/schemas/PageMeta" },
+    links: { $ref: "#/components/schemas/PageLinks" },
+  },
+});
+
+const jsonResponse = (description: string, schema: object) => ({
+  description,
+  headers: { ETag: { $ref: "#/components/headers/ETag" } },
+  content: { "application/json": { schema } },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+});
+
+const fieldsParameter = (fields: readonly string[]) => ({
+  name: "fields",
+  in: "query",
+  description: `Comma-separated sparse fieldset. Allowed: ${fields.join(", ")}.`,
+  schema: string,
+  example: fields.slice(0, 2).join(","),
+});
+
+const listParameters = [
+  { $ref: "#/components/parameters/page" },
+  { $ref: "#/components/parameters/per_page" },
+  { $ref: "#/components/parameters/genre" },
+  { $ref: "#/components/parameters/origin" },
+  { $ref: "#/components/parameters/If-None-Match" },
+];
+
+export const buildOpenApiDocument = (origin: string) => ({
+  openapi: "3.1.0",
+  info: {
+    title: "ECHOS catalog API",
+    version: "1.0.0",
+    description:
+      "Read-only access to the ECHOS artists (groups) and albums. Every response carries an ETag; send it back in If-None-Match to get a 304.",
+  },
+  servers: [{ url: `${origin}/api` }],
+  paths: {
+    "/groups": {
+      get: {
+        operationId: "listGroups",
+        summary: "List groups",
+        parameters: [...listParameters, fieldsParameter(GROUP_FIELDS)],
+        responses: {
+          "200": jsonResponse("A page of groups.", listOf("#/components/schemas/Group")),
+          "304": { description: "Not modified." },
+          "400": errorResponse("Invalid query parameter."),
+        },
+      },
+    },
+    "/groups/{id}": {
+      get: {
+        operationId: "getGroup",
+        summary: "Get a group",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: string },
+          fieldsParameter(GROUP_FIELDS),
+          { $ref: "#/components/parameters/If-None-Match" },
+        ],
+        responses: {
+          "200": jsonResponse("The group.", {
+            type: "object",
+            properties: { data: { $ref: "#/components/schemas/Group" } },
+          }),
+          "304": { description: "Not modified." },
+          "400": errorResponse("Invalid query parameter."),
+          "404": errorResponse("Unknown group."),
+        },
+      },
+    },
+    "/albums": {
+      get: {
+        operationId: "listAlbums",
+        summary: "List albums",
+        description: "`genre` and `origin` filter on the album's group.",
+        parameters: [...listParameters, fieldsParameter(ALBUM_FIELDS)],
+        responses: {
+          "200": jsonResponse("A page of albums.", listOf("#/components/schemas/Album")),
+          "304": { description: "Not modified." },
+          "400": errorResponse("Invalid query parameter."),
+        },
+      },
+    },
+    "/albums/{groupId}/{slug}": {
+      get: {
+        operationId: "getAlbum",
+        summary: "Get an album by key",
+        description: "The key may also be sent URL-encoded: `/albums/arch-enemy%2Fblood-dynasty`.",
+        parameters: [
+          { name: "groupId", in: "path", required: true, schema: string },
+          { name: "slug", in: "path", required: true, schema: string },
+          fieldsParameter(ALBUM_FIELDS),
+          { $ref: "#/components/parameters/If-None-Match" },
+        ],
+        responses: {
+          "200": jsonResponse("The album.", {
+            type: "object",
+            properties: { data: { $ref: "#/components/schemas/Album" } },
+          }),
+          "304": { description: "Not modified." },
+          "400": errorResponse("Invalid query parameter."),
+          "404": errorResponse("Unknown album."),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Group: groupSchema,
+      Album: albumSchema,
+      PageMeta: {
+        type: "object",
+        required: ["page", "per_page", "total", "total_pages"],
+        properties: {
+          page: integer,
+          per_page: integer,
+          total: integer,
+          total_pages: integer,
+        },
+      },
+      PageLinks: {
+        type: "object",
+        required: ["self", "first", "last", "prev", "next"],
+        properties: {
+          self: string,
+          first: string,
+          last: string,
+          prev: { type: ["string", "null"] },
+          next: { type: ["string", "null"] },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["status", "code", "message"],
+            properties: {
+              status: integer,
+              code: { ...string, example: "group_not_found" },
+              message: string,
+              details: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    parameters: {
+      page: {
+        name: "page",
+        in: "query",
+        schema: { ...integer, minimum: 1, default: 1 },
+      },
+      per_page: {
+        name: "per_page",
+        in: "query",
+        schema: {
+          ...integer,
+          minimum: 1,
+          maximum: MAX_PER_PAGE,
+          default: DEFAULT_PER_PAGE,
+        },
+      },
+      genre: {
+        name: "genre",
+        in: "query",
+        description:
+          "Comma-separated genres, matched against each part of the group genre, case and accent insensitive.",
+        schema: string,
+        example: "shoegaze",
+      },
+      origin: {
+        name: "origin",
+        in: "query",
+        description:
+          "Comma-separated origins; `france` also matches `France (Nantes)`.",
+        schema: string,
+        example: "ireland",
+      },
+      "If-None-Match": {
+        name: "If-None-Match",
+        in: "header",
+        schema: string,
+      },
+    },
+    headers: {
+      ETag: { description: "Strong validator for the response body.", schema: string },
+    },
+  },
+});
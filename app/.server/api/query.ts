@@ -0,0 +1,142 @@
+import { slugify } from "~/catalog/keys";
+import type { Group } from "~/catalog/types";
+import { apiError } from "./http";
+
+export const DEFAULT_PER_PAGE = 20;
+export const MAX_PER_PAGE = 100;
+
+export interface Pagination {
+  page: number;
+  perPage: number;
+}
+
+const parsePositiveInt = (
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  max?: number
+) => {
+  const raw = params.get(name);
+  if (raw === null) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || (max !== undefined && value > max)) {
+    throw apiError(
+      400,
+      "invalid_parameter",
+      max !== undefined
+        ? `"${name}" must be an integer between 1 and ${max}.`
+        : `"${name}" must be a positive integer.`,
+      { parameter: name, value: raw }
+    );
+  }
+  return value;
+};
+
+export const parsePagination = (params: URLSearchParams): Pagination => ({
+  page: parsePositiveInt(params, "page", 1),
+  perPage: parsePositiveInt(params, "per_page", DEFAULT_PER_PAGE, MAX_PER_PAGE),
+});
+
+export const paginate = <T>(
+  url: URL,
+  items: T[],
+  { page, perPage }: Pagination
+) => {
+  const total = items.length;
+  const totalPages = Math.max(1, Math.ceil(total / perPage));
+
+  const pageUrl = (target: number) => {
+    const next = new URL(url);
+    next.searchParams.set("page", String(target));
+    next.searchParams.set("per_page", String(perPage));
+    return `${next.pathname}${next.search}`;
+  };
+
+  return {
+    data: items.slice((page - 1) * perPage, page * perPage),
+    meta: { page, per_page: perPage, total, total_pages: totalPages },
+    links: {
+      self: pageUrl(page),
+      first: pageUrl(1),
+      last: pageUrl(totalPages),
+      prev: page > 1 ? pageUrl(Math.min(page - 1, totalPages)) : null,
+      next: page < totalPages ? pageUrl(page + 1) : null,
+    },
+  };
+};
+
+/**
+ * Sparse fieldsets : `?fields=id,name` ne renvoie que ces champs.
+ */
+export const parseFields = <K extends string>(
+  params: URLSearchParams,
+  allowed: readonly K[]
+): K[] | null => {
+  const raw = params.get("fields");
+  if (raw === null) return null;
+
+  const fields = raw
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+  const unknown = fields.filter((field) => !allowed.includes(field as K));
+
+  if (fields.length === 0 || unknown.length > 0) {
+    throw apiError(
+      400,
+      "invalid_fields",
+      `Unknown or empty fieldset. Allowed fields: ${allowed.join(", ")}.`,
+      { unknown }
+    );
+  }
+  return fields as K[];
+};
+
+export const pickFields = <T extends object, K extends string>(
+  item: T,
+  fields: K[] | null
+): Partial<T> => {
+  if (!fields) return item;
+  return Object.fromEntries(
+    fields
+      .filter((field) => field in item)
+      .map((field) => [field, item[field as unknown as keyof T]])
+  ) as Partial<T>;
+};
+
+const parseList = (params: URLSearchParams, name: string) =>
+  params
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => slugify(value))
+    .filter(Boolean);
+
+/**
+ * Filtres communs `genre` et `origin` (valeurs multiples séparées par des
+ * virgules, insensibles à la casse et aux accents).
+ * - genre : "shoegaze" correspond à "Shoegaze / Noise Rock / Post-punk"
+ * - origin : "france" correspond à "France (Nantes)"
+ */
+export const createGroupFilter = (params: URLSearchParams) => {
+  const genres = parseList(params, "genre");
+  const origins = parseList(params, "origin");
+
+  return (group: Group) => {
+    if (genres.length > 0) {
+      const groupGenres = group.genre.split("/").map((genre) => slugify(genre));
+      if (!genres.some((genre) => groupGenres.includes(genre))) return false;
+    }
+    if (origins.length > 0) {
+      const origin = slugify(group.origin);
+      if (
+        !origins.some(
+          (candidate) => origin === candidate || origin.startsWith(`${candidate}-`)
+        )
+      ) {
+        return false;
+      }
+    }
+    return true;
+  };
+};
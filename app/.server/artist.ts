@@ -0,0 +1,53 @@
+import {
+  festivalsForGroup,
+  formatFestivalDates,
+  isUpcoming,
+  splitAgenda,
+} from "~/catalog/festivals";
+import { localizeGroup } from "~/catalog/localize";
+import { recommendGroups } from "~/catalog/recommendations";
+import type { Locale } from "~/i18n/locales";
+import type { FestivalAppearance } from "~/routes/artist/partials/FestivalAppearances";
+import type { SimilarArtist } from "~/routes/artist/partials/SimilarArtists";
+import { getCatalogRepository } from "./catalog";
+
+/**
+ * Données communes aux pages artiste et album : le groupe traduit (ou
+ * `null`), ses recommandations « Dans la même veine » et les festivals
+ * où il est « À l'affiche », les prochains d'abord.
+ */
+export const loadArtist = async (id: string, locale: Locale) => {
+  const repository = getCatalogRepository();
+  const [group, groups] = await Promise.all([
+    repository.getGroup(id),
+    repository.listGroups(),
+  ]);
+  const similar: SimilarArtist[] = group
+    ? recommendGroups(group, groups).map(({ group: candidate, reason }) => {
+        const [cover] = candidate.albums;
+        return {
+          id: candidate.id,
+          name: candidate.name,
+          genre: candidate.genre,
+          origin: candidate.origin,
+          ...(cover ? { cover: { src: cover.src, alt: cover.alt } } : {}),
+          reason,
+        };
+      })
+    : [];
+
+  const { upcoming, past } = splitAgenda(
+    group ? festivalsForGroup(group.id) : []
+  );
+  const festivals: FestivalAppearance[] = [...upcoming, ...past].map(
+    (festival) => ({
+      slug: festival.slug,
+      name: festival.name,
+      city: festival.city,
+      dates: formatFestivalDates(festival, locale),
+      upcoming: isUpcoming(festival),
+    })
+  );
+
+  return { group: group && localizeGroup(group, locale), similar, festivals };
+};
@@ -0,0 +1,44 @@
+import path from "node:path";
+import { createJsonCatalogRepository } from "./json-repository";
+import type { CatalogRepository } from "./repository";
+import {
+  createSqliteCatalogRepository,
+  openCatalogDatabase,
+} from "./sqlite-repository";
+
+export type { CatalogRepository } from "./repository";
+export { CatalogNotFoundError, ReadOnlyCatalogError } from "./repository";
+
+let repository: CatalogRepository | undefined;
+
+/**
+ * Dépôt du catalogue choisi via `CATALOG_DRIVER` :
+ * - `sqlite` (défaut) : base locale `CATALOG_SQLITE_PATH` (défaut
+ *   `data/catalog.sqlite`), initialisée depuis les JSON de `app/data` à la
+ *   première ouverture ; c'est le seul dépôt modifiable depuis `/admin`
+ * - `json` : `app/data/*.json` embarqués dans le build serveur, en lecture seule
+ */
+export const getCatalogRepository = (): CatalogRepository => {
+  if (repository) return repository;
+
+  const driver = process.env.CATALOG_DRIVER ?? "sqlite";
+
+  switch (driver) {
+    case "json":
+      repository = createJsonCatalogRepository();
+      break;
+    case "sqlite":
+      repository = createSqliteCatalogRepository(
+        openCatalogDatabase(
+          path.resolve(process.env.CATALOG_SQLITE_PATH ?? "data/catalog.sqlite")
+        )
+      );
+      break;
+    default:
+      throw new Error(
+        `Unknown CATALOG_DRIVER "${driver}", expected "json" or "sqlite".`
+      );
+  }
+
+  return repository;
+};
@@ -0,0 +1,70 @@
+import groupsData from "~/data/groups.json";
+import carouselData from "~/data/carousel-items.json";
+import { parseCatalog } from "~/catalog/schema";
+import type { CarouselItem, Group } from "~/catalog/types";
+import { ReadOnlyCatalogError, withGroupInfo } from "./repository";
+import type { CatalogRepository } from "./repository";
+
+export const toCarouselItems = (input: typeof carouselData): CarouselItem[] =>
+  input.map(({ id, title, description, image, link, buttonText }) => ({
+    id,
+    title,
+    description,
+    image,
+    link,
+    buttonText,
+  }));
+
+const readOnly = async (): Promise<never> => {
+  throw new ReadOnlyCatalogError();
+};
+
+export const createJsonCatalogRepository = (
+  input: unknown = groupsData
+): CatalogRepository => {
+  const groups = parseCatalog(input).map(withGroupInfo);
+  const groupsById = new Map<string, Group>(
+    groups.map((group) => [group.id, group])
+  );
+  const albums = groups.flatMap((group) => group.albums);
+  const albumsByKey = new Map(albums.map((album) => [album.key, album]));
+  const carouselItems = toCarouselItems(carouselData);
+
+  return {
+    writable: false,
+    async listGroups() {
+      return groups;
+    },
+    async getGroup(id) {
+      return groupsById.get(id) ?? null;
+    },
+    async listAlbums() {
+      return albums;
+    },
+    async getAlbum(key) {
+      return albumsByKey.get(key) ?? null;
+    },
+    async listCarouselItems() {
+      return carouselItems;
+    },
+    async getCarouselItem(id) {
+      return carouselItems.find((item) => item.id === id) ?? null;
+    },
+    async isGroupRemoved() {
+      return false;
+    },
+    async listUpdates() {
+      return {};
+    },
+    createGroup: readOnly,
+    updateGroup: readOnly,
+    deleteGroup: readOnly,
+    createAlbum: readOnly,
+    updateAlbum: readOnly,
+    deleteAlbum: readOnly,
+    createCarouselItem: readOnly,
+    updateCarouselItem: readOnly,
+    deleteCarouselItem: readOnly,
+    transaction: readOnly,
+  };
+};
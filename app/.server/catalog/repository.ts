@@ -0,0 +1,66 @@
+import type {
+  Album,
+  AlbumInput,
+  CarouselItem,
+  CarouselItemInput,
+  Group,
+  GroupInput,
+} from "~/catalog/types";
+
+/**
+ * Accès au catalogue, utilisé uniquement depuis les loaders et actions.
+ * Les albums renvoyés portent toujours `groupId` et `groupName`.
+ */
+export interface CatalogRepository {
+  // Faux quand le dépôt ne sait pas écrire (catalogue JSON embarqué)
+  readonly writable: boolean;
+
+  listGroups(): Promise<Group[]>;
+  getGroup(id: string): Promise<Group | null>;
+  listAlbums(): Promise<Album[]>;
+  getAlbum(key: string): Promise<Album | null>;
+  listCarouselItems(): Promise<CarouselItem[]>;
+  getCarouselItem(id: number): Promise<CarouselItem | null>;
+  // Vrai pour un groupe supprimé depuis l'administration (réponse 410)
+  isGroupRemoved(id: string): Promise<boolean>;
+  // Dates ISO de dernière modification par id de groupe et clé d'album ;
+  // vide quand le dépôt ne les connaît pas (catalogue JSON embarqué)
+  listUpdates(): Promise<Record<string, string>>;
+
+  createGroup(input: GroupInput): Promise<Group>;
+  updateGroup(id: string, input: Omit<GroupInput, "id">): Promise<Group>;
+  deleteGroup(id: string): Promise<void>;
+  createAlbum(groupId: string, input: AlbumInput): Promise<Album>;
+  updateAlbum(key: string, input: Omit<AlbumInput, "slug">): Promise<Album>;
+  deleteAlbum(key: string): Promise<void>;
+  createCarouselItem(input: CarouselItemInput): Promise<CarouselItem>;
+  updateCarouselItem(id: number, input: CarouselItemInput): Promise<CarouselItem>;
+  deleteCarouselItem(id: number): Promise<void>;
+  // Enchaîne plusieurs écritures d'un bloc : si `fn` échoue, aucune n'est gardée
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+export class ReadOnlyCatalogError extends Error {
+  constructor() {
+    super(
+      'The catalog is read-only with CATALOG_DRIVER=json. Use CATALOG_DRIVER=sqlite to edit it.'
+    );
+    this.name = "ReadOnlyCatalogError";
+  }
+}
+
+export class CatalogNotFoundError extends Error {
+  constructor(what: string) {
+    super(`${what} not found.`);
+    this.name = "CatalogNotFoundError";
+  }
+}
+
+export const withGroupInfo = (group: Group): Group => ({
+  ...group,
+  albums: group.albums.map((album) => ({
+    ...album,
+    groupId: group.id,
+    groupName: group.name,
+  })),
+});
@@ -0,0 +1,598 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import groupsData from "~/data/groups.json";
+import carouselData from "~/data/carousel-items.json";
+import { albumKey, parseAlbumKey } from "~/catalog/keys";
+import { parseCatalog } from "~/catalog/schema";
+import type {
+  Album,
+  CarouselItem,
+  ExternalLink,
+  Group,
+  Member,
+  Track,
+  Translations,
+} from "~/catalog/types";
+import { toCarouselItems } from "./json-repository";
+import { CatalogNotFoundError } from "./repository";
+import type { CatalogRepository } from "./repository";
+
+type SqliteDatabase = Database.Database;
+
+interface GroupRow {
+  id: string;
+  name: string;
+  genre: string;
+  origin: string;
+  description: string;
+  short_description: string;
+  ambiance: string | null;
+  members: string | null;
+  links: string | null;
+  influences: string | null;
+  translations: string | null;
+  updated_at: string | null;
+}
+
+interface AlbumRow {
+  id: number;
+  group_id: string;
+  group_name: string;
+  slug: string;
+  title: string;
+  src: string;
+  alt: string;
+  description: string;
+  short_description: string;
+  release_date: string | null;
+  label: string | null;
+  format: string | null;
+  tracklist: string | null;
+  links: string | null;
+  translations: string | null;
+  updated_at: string | null;
+}
+
+interface CarouselItemRow {
+  id: number;
+  title: string;
+  description: string;
+  image: string;
+  link: string;
+  button_text: string;
+}
+
+// Listes (titres, membres, liens, influences) et traductions stockées en JSON dans une colonne texte
+const toJson = (value: object | undefined) => (value ? JSON.stringify(value) : null);
+
+const fromJson = <T>(value: string | null): T | undefined =>
+  value === null ? undefined : (JSON.parse(value) as T);
+
+const groupMetadataParams = (
+  group: Pick<Group, "members" | "links" | "influences" | "translations">
+) => ({
+  members: toJson(group.members),
+  links: toJson(group.links),
+  influences: toJson(group.influences),
+  translations: toJson(group.translations),
+});
+
+const albumMetadataParams = (
+  album: Pick<
+    Album,
+    "releaseDate" | "label" | "format" | "tracklist" | "links" | "translations"
+  >
+) => ({
+  release_date: album.releaseDate ?? null,
+  label: album.label ?? null,
+  format: album.format ?? null,
+  tracklist: toJson(album.tracklist),
+  links: toJson(album.links),
+  translations: toJson(album.translations),
+});
+
+/**
+ * Remplace tout le contenu du catalogue (groupes et albums) par celui fourni.
+ */
+export const importCatalogIntoSqlite = (db: SqliteDatabase, groups: Group[]) => {
+  const insertGroup = db.prepare(
+    `INSERT INTO groups (id, position, name, genre, origin, description, short_description, ambiance, members, links, influences, translations, updated_at)
+     VALUES (@id, @position, @name, @genre, @origin, @description, @short_description, @ambiance, @members, @links, @influences, @translations, @updated_at)`
+  );
+  const insertAlbum = db.prepare(
+    `INSERT INTO albums (id, group_id, position, slug, title, src, alt, description, short_description,
+       release_date, label, format, tracklist, links, translations, updated_at)
+     VALUES (@id, @group_id, @position, @slug, @title, @src, @alt, @description, @short_description,
+       @release_date, @label, @format, @tracklist, @links, @translations, @updated_at)`
+  );
+  const updated_at = new Date().toISOString();
+
+  db.transaction(() => {
+    db.exec("DELETE FROM albums; DELETE FROM groups;");
+    groups.forEach((group, groupIndex) => {
+      insertGroup.run({
+        id: group.id,
+        position: groupIndex,
+        name: group.name,
+        genre: group.genre,
+        origin: group.origin,
+        description: group.description,
+        short_description: group.short_description,
+        ambiance: group.ambiance ?? null,
+        ...groupMetadataParams(group),
+        updated_at,
+      });
+      group.albums.forEach((album, albumIndex) => {
+        insertAlbum.run({
+          id: album.id,
+          group_id: group.id,
+          position: albumIndex,
+          slug: album.slug,
+          title: album.title,
+          src: album.src,
+          alt: album.alt,
+          description: album.description,
+          short_description: album.short_description,
+          ...albumMetadataParams(album),
+          updated_at,
+        });
+      });
+    });
+  })();
+};
+
+// Chaque entrée fait passer `user_version` au numéro suivant. Une base neuve
+// reçoit ensuite le catalogue livré, avec le schéma final.
+const MIGRATIONS: ((db: SqliteDatabase) => void)[] = [
+  (db) => {
+    db.exec(`
+      CREATE TABLE groups (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        genre TEXT NOT NULL,
+        origin TEXT NOT NULL,
+        description TEXT NOT NULL,
+        short_description TEXT NOT NULL,
+        ambiance TEXT
+      );
+      CREATE TABLE albums (
+        id INTEGER PRIMARY KEY,
+        group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        slug TEXT NOT NULL,
+        title TEXT NOT NULL,
+        src TEXT NOT NULL,
+        alt TEXT NOT NULL,
+        description TEXT NOT NULL,
+        short_description TEXT NOT NULL,
+        UNIQUE (group_id, slug)
+      );
+      CREATE INDEX albums_group_position ON albums (group_id, position);
+    `);
+  },
+  (db) => {
+    db.exec(`
+      CREATE TABLE carousel_items (
+        id INTEGER PRIMARY KEY,
+        position INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        image TEXT NOT NULL,
+        link TEXT NOT NULL,
+        button_text TEXT NOT NULL
+      );
+    `);
+    const insert = db.prepare(
+      `INSERT INTO carousel_items (id, position, title, description, image, link, button_text)
+       VALUES (@id, @position, @title, @description, @image, @link, @buttonText)`
+    );
+    toCarouselItems(carouselData).forEach((item, position) =>
+      insert.run({ ...item, position })
+    );
+  },
+  (db) => {
+    db.exec(`
+      ALTER TABLE groups ADD COLUMN members TEXT;
+      ALTER TABLE groups ADD COLUMN links TEXT;
+      ALTER TABLE albums ADD COLUMN release_date TEXT;
+      ALTER TABLE albums ADD COLUMN label TEXT;
+      ALTER TABLE albums ADD COLUMN format TEXT;
+      ALTER TABLE albums ADD COLUMN tracklist TEXT;
+      ALTER TABLE albums ADD COLUMN links TEXT;
+    `);
+    // Reprend les métadonnées livrées sans toucher aux textes déjà édités
+    const updateGroup = db.prepare(
+      `UPDATE groups SET members = @members, links = @links WHERE id = @id`
+    );
+    const updateAlbum = db.prepare(
+      `UPDATE albums SET release_date = @release_date, label = @label, format = @format,
+         tracklist = @tracklist, links = @links
+       WHERE group_id = @group_id AND slug = @slug`
+    );
+    parseCatalog(groupsData).forEach((group) => {
+      const { members, links } = groupMetadataParams(group);
+      updateGroup.run({ id: group.id, members, links });
+      group.albums.forEach((album) => {
+        const { translations: _translations, ...params } = albumMetadataParams(album);
+        updateAlbum.run({ group_id: group.id, slug: album.slug, ...params });
+      });
+    });
+  },
+  (db) => {
+    db.exec(`
+      ALTER TABLE groups ADD COLUMN translations TEXT;
+      ALTER TABLE albums ADD COLUMN translations TEXT;
+    `);
+    const updateGroup = db.prepare(
+      "UPDATE groups SET translations = @translations WHERE id = @id"
+    );
+    const updateAlbum = db.prepare(
+      `UPDATE albums SET translations = @translations
+       WHERE group_id = @group_id AND slug = @slug`
+    );
+    parseCatalog(groupsData).forEach((group) => {
+      updateGroup.run({ id: group.id, translations: toJson(group.translations) });
+      group.albums.forEach((album) =>
+        updateAlbum.run({
+          group_id: group.id,
+          slug: album.slug,
+          translations: toJson(album.translations),
+        })
+      );
+    });
+  },
+  (db) => {
+    db.exec("ALTER TABLE groups ADD COLUMN influences TEXT;");
+    const updateGroup = db.prepare(
+      "UPDATE groups SET influences = @influences WHERE id = @id"
+    );
+    parseCatalog(groupsData).forEach((group) =>
+      updateGroup.run({ id: group.id, influences: toJson(group.influences) })
+    );
+  },
+  (db) => {
+    // Identifiants des groupes supprimés, pour répondre 410 plutôt que 404
+    db.exec(`
+      CREATE TABLE removed_groups (
+        id TEXT PRIMARY KEY,
+        removed_at TEXT NOT NULL
+      );
+    `);
+  },
+  (db) => {
+    // Date de dernière modification, reprise par le `lastmod` du sitemap
+    db.exec(`
+      ALTER TABLE groups ADD COLUMN updated_at TEXT;
+      ALTER TABLE albums ADD COLUMN updated_at TEXT;
+    `);
+    const now = new Date().toISOString();
+    db.prepare("UPDATE groups SET updated_at = ?").run(now);
+    db.prepare("UPDATE albums SET updated_at = ?").run(now);
+  },
+];
+
+const migrate = (db: SqliteDatabase) => {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((migration, index) => {
+    db.transaction(() => {
+      migration(db);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+  if (version === 0) {
+    importCatalogIntoSqlite(db, parseCatalog(groupsData));
+  }
+};
+
+const toAlbum = (row: AlbumRow): Album => ({
+  id: row.id,
+  slug: row.slug,
+  key: albumKey(row.group_id, row.slug),
+  title: row.title,
+  src: row.src,
+  alt: row.alt,
+  description: row.description,
+  short_description: row.short_description,
+  ...(row.release_date !== null ? { releaseDate: row.release_date } : {}),
+  ...(row.label !== null ? { label: row.label } : {}),
+  ...(row.format !== null ? { format: row.format as Album["format"] } : {}),
+  ...(row.tracklist !== null ? { tracklist: fromJson<Track[]>(row.tracklist) } : {}),
+  ...(row.links !== null ? { links: fromJson<ExternalLink[]>(row.links) } : {}),
+  ...(row.translations !== null
+    ? { translations: fromJson<Translations>(row.translations) }
+    : {}),
+  groupId: row.group_id,
+  groupName: row.group_name,
+});
+
+const toGroup = (row: GroupRow, albums: Album[]): Group => ({
+  id: row.id,
+  name: row.name,
+  genre: row.genre,
+  origin: row.origin,
+  description: row.description,
+  short_description: row.short_description,
+  ...(row.ambiance !== null ? { ambiance: row.ambiance } : {}),
+  ...(row.members !== null ? { members: fromJson<Member[]>(row.members) } : {}),
+  ...(row.links !== null ? { links: fromJson<ExternalLink[]>(row.links) } : {}),
+  ...(row.influences !== null
+    ? { influences: fromJson<string[]>(row.influences) }
+    : {}),
+  ...(row.translations !== null
+    ? { translations: fromJson<Translations>(row.translations) }
+    : {}),
+  albums,
+});
+
+const toCarouselItem = (row: CarouselItemRow): CarouselItem => ({
+  id: row.id,
+  title: row.title,
+  description: row.description,
+  image: row.image,
+  link: row.link,
+  buttonText: row.button_text,
+});
+
+const ALBUM_SELECT = `
+  SELECT albums.*, groups.name AS group_name
+  FROM albums
+  JOIN groups ON groups.id = albums.group_id
+`;
+
+export const openCatalogDatabase = (filename: string): SqliteDatabase => {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+};
+
+export const createSqliteCatalogRepository = (
+  db: SqliteDatabase
+): CatalogRepository => {
+  const selectGroups = db.prepare("SELECT * FROM groups ORDER BY position");
+  const selectGroup = db.prepare("SELECT * FROM groups WHERE id = ?");
+  const selectAlbums = db.prepare(
+    `${ALBUM_SELECT} ORDER BY groups.position, albums.position`
+  );
+  const selectGroupAlbums = db.prepare(
+    `${ALBUM_SELECT} WHERE albums.group_id = ? ORDER BY albums.position`
+  );
+  const selectAlbum = db.prepare(
+    `${ALBUM_SELECT} WHERE albums.group_id = ? AND albums.slug = ?`
+  );
+  const selectCarouselItems = db.prepare(
+    "SELECT * FROM carousel_items ORDER BY position"
+  );
+  const selectCarouselItem = db.prepare(
+    "SELECT * FROM carousel_items WHERE id = ?"
+  );
+  const selectRemovedGroup = db.prepare(
+    "SELECT id FROM removed_groups WHERE id = ?"
+  );
+  const selectUpdates = db.prepare(
+    `SELECT id, updated_at FROM groups
+     UNION ALL
+     SELECT group_id || '/' || slug, updated_at FROM albums`
+  );
+  // Une modification d'album date aussi la page du groupe
+  const touchGroup = (groupId: string) =>
+    db
+      .prepare("UPDATE groups SET updated_at = ? WHERE id = ?")
+      .run(new Date().toISOString(), groupId);
+
+  const listAlbumsByGroup = () => {
+    const byGroup = new Map<string, Album[]>();
+    (selectAlbums.all() as AlbumRow[]).forEach((row) => {
+      byGroup.set(row.group_id, [...(byGroup.get(row.group_id) ?? []), toAlbum(row)]);
+    });
+    return byGroup;
+  };
+
+  const nextPosition = (table: string, where = "", ...params: unknown[]) =>
+    (
+      db
+        .prepare(`SELECT COALESCE(MAX(position), -1) + 1 AS next FROM ${table} ${where}`)
+        .get(...params) as { next: number }
+    ).next;
+
+  const repository: CatalogRepository = {
+    writable: true,
+
+    async listGroups() {
+      const albumsByGroup = listAlbumsByGroup();
+      return (selectGroups.all() as GroupRow[]).map((row) =>
+        toGroup(row, albumsByGroup.get(row.id) ?? [])
+      );
+    },
+    async getGroup(id) {
+      const row = selectGroup.get(id) as GroupRow | undefined;
+      if (!row) return null;
+      return toGroup(
+        row,
+        (selectGroupAlbums.all(id) as AlbumRow[]).map(toAlbum)
+      );
+    },
+    async listAlbums() {
+      return (selectAlbums.all() as AlbumRow[]).map(toAlbum);
+    },
+    async getAlbum(key) {
+      const parsed = parseAlbumKey(key);
+      if (!parsed) return null;
+      const row = selectAlbum.get(parsed.groupId, parsed.albumSlug) as
+        | AlbumRow
+        | undefined;
+      return row ? toAlbum(row) : null;
+    },
+    async listCarouselItems() {
+      return (selectCarouselItems.all() as CarouselItemRow[]).map(toCarouselItem);
+    },
+    async getCarouselItem(id) {
+      const row = selectCarouselItem.get(id) as CarouselItemRow | undefined;
+      return row ? toCarouselItem(row) : null;
+    },
+    async isGroupRemoved(id) {
+      return Boolean(selectRemovedGroup.get(id));
+    },
+    async listUpdates() {
+      return Object.fromEntries(
+        (
+          selectUpdates.all() as { id: string; updated_at: string | null }[]
+        ).flatMap((row) => (row.updated_at ? [[row.id, row.updated_at]] : []))
+      );
+    },
+
+    async createGroup(input) {
+      db.prepare(
+        `INSERT INTO groups (id, position, name, genre, origin, description, short_description, ambiance, members, links, influences, translations, updated_at)
+         VALUES (@id, @position, @name, @genre, @origin, @description, @short_description, @ambiance, @members, @links, @influences, @translations, @updated_at)`
+      ).run({
+        ...input,
+        ambiance: input.ambiance ?? null,
+        ...groupMetadataParams(input),
+        position: nextPosition("groups"),
+        updated_at: new Date().toISOString(),
+      });
+      db.prepare("DELETE FROM removed_groups WHERE id = ?").run(input.id);
+      return (await repository.getGroup(input.id)) as Group;
+    },
+    async updateGroup(id, input) {
+      const { changes } = db
+        .prepare(
+          `UPDATE groups SET name = @name, genre = @genre, origin = @origin,
+             description = @description, short_description = @short_description,
+             ambiance = @ambiance, members = @members, links = @links,
+             influences = @influences, translations = @translations,
+             updated_at = @updated_at
+           WHERE id = @id`
+        )
+        .run({
+          ...input,
+          ambiance: input.ambiance ?? null,
+          ...groupMetadataParams(input),
+          id,
+          updated_at: new Date().toISOString(),
+        });
+      if (changes === 0) throw new CatalogNotFoundError(`Group "${id}"`);
+      return (await repository.getGroup(id)) as Group;
+    },
+    async deleteGroup(id) {
+      const { changes } = db.prepare("DELETE FROM groups WHERE id = ?").run(id);
+      if (changes === 0) throw new CatalogNotFoundError(`Group "${id}"`);
+      db.prepare(
+        "INSERT OR REPLACE INTO removed_groups (id, removed_at) VALUES (?, ?)"
+      ).run(id, new Date().toISOString());
+    },
+
+    async createAlbum(groupId, input) {
+      const { next } = db
+        .prepare("SELECT COALESCE(MAX(id), -1) + 1 AS next FROM albums")
+        .get() as { next: number };
+      if (!selectGroup.get(groupId)) {
+        throw new CatalogNotFoundError(`Group "${groupId}"`);
+      }
+      db.prepare(
+        `INSERT INTO albums (id, group_id, position, slug, title, src, alt, description, short_description,
+           release_date, label, format, tracklist, links, translations, updated_at)
+         VALUES (@id, @group_id, @position, @slug, @title, @src, @alt, @description, @short_description,
+           @release_date, @label, @format, @tracklist, @links, @translations, @updated_at)`
+      ).run({
+        ...input,
+        ...albumMetadataParams(input),
+        id: next,
+        group_id: groupId,
+        position: nextPosition("albums", "WHERE group_id = ?", groupId),
+        updated_at: new Date().toISOString(),
+      });
+      touchGroup(groupId);
+      return (await repository.getAlbum(albumKey(groupId, input.slug))) as Album;
+    },
+    async updateAlbum(key, input) {
+      const parsed = parseAlbumKey(key);
+      const { changes } = parsed
+        ? db
+            .prepare(
+              `UPDATE albums SET title = @title, src = @src, alt = @alt,
+                 description = @description, short_description = @short_description,
+                 release_date = @release_date, label = @label, format = @format,
+                 tracklist = @tracklist, links = @links, translations = @translations,
+                 updated_at = @updated_at
+               WHERE group_id = @groupId AND slug = @albumSlug`
+            )
+            .run({
+              ...input,
+              ...albumMetadataParams(input),
+              ...parsed,
+              updated_at: new Date().toISOString(),
+            })
+        : { changes: 0 };
+      if (!parsed || changes === 0) {
+        throw new CatalogNotFoundError(`Album "${key}"`);
+      }
+      touchGroup(parsed.groupId);
+      return (await repository.getAlbum(key)) as Album;
+    },
+    async deleteAlbum(key) {
+      const parsed = parseAlbumKey(key);
+      const { changes } = parsed
+        ? db
+            .prepare("DELETE FROM albums WHERE group_id = ? AND slug = ?")
+            .run(parsed.groupId, parsed.albumSlug)
+        : { changes: 0 };
+      if (!parsed || changes === 0) {
+        throw new CatalogNotFoundError(`Album "${key}"`);
+      }
+      touchGroup(parsed.groupId);
+    },
+
+    async createCarouselItem(input) {
+      const { lastInsertRowid } = db
+        .prepare(
+          `INSERT INTO carousel_items (position, title, description, image, link, button_text)
+           VALUES (@position, @title, @description, @image, @link, @buttonText)`
+        )
+        .run({ ...input, position: nextPosition("carousel_items") });
+      return (await repository.getCarouselItem(
+        Number(lastInsertRowid)
+      )) as CarouselItem;
+    },
+    async updateCarouselItem(id, input) {
+      const { changes } = db
+        .prepare(
+          `UPDATE carousel_items SET title = @title, description = @description,
+             image = @image, link = @link, button_text = @buttonText
+           WHERE id = @id`
+        )
+        .run({ ...input, id });
+      if (changes === 0) throw new CatalogNotFoundError(`Carousel item ${id}`);
+      return (await repository.getCarouselItem(id)) as CarouselItem;
+    },
+    async deleteCarouselItem(id) {
+      const { changes } = db
+        .prepare("DELETE FROM carousel_items WHERE id = ?")
+        .run(id);
+      if (changes === 0) throw new CatalogNotFoundError(`Carousel item ${id}`);
+    },
+
+    // `db.transaction` refuse les fonctions asynchrones ; les méthodes du
+    // dépôt écrivent de façon synchrone, rien ne s'intercale entre BEGIN et COMMIT
+    async transaction(fn) {
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        const result = await fn();
+        db.exec("COMMIT");
+        return result;
+      } catch (error) {
+        if (db.inTransaction) db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+
+  return repository;
+};
@@ -0,0 +1,20 @@
+import path from "node:path";
+import { createSqliteContactOutbox } from "./outbox";
+import type { ContactOutbox } from "./outbox";
+
+export type { ContactMessage, ContactOutbox, ContactSubject } from "./outbox";
+export { CONTACT_SUBJECTS } from "./outbox";
+export { HONEYPOT_FIELD, validateContactForm } from "./validation";
+
+let outbox: ContactOutbox | undefined;
+
+/**
+ * Boîte d'envoi du formulaire de contact : base SQLite `CONTACT_SQLITE_PATH`
+ * (défaut `data/contact.sqlite`), indépendante de `CATALOG_DRIVER`.
+ */
+export const getContactOutbox = (): ContactOutbox => {
+  outbox ??= createSqliteContactOutbox(
+    path.resolve(process.env.CONTACT_SQLITE_PATH ?? "data/contact.sqlite")
+  );
+  return outbox;
+};
@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+export const CONTACT_SUBJECTS = ["band", "feedback", "press", "other"] as const;
+
+export type ContactSubject = (typeof CONTACT_SUBJECTS)[number];
+
+export interface ContactInput {
+  name: string;
+  email: string;
+  subject: ContactSubject;
+  message: string;
+  // Langue de la page d'où vient le message
+  locale: string;
+}
+
+export interface ContactMessage extends ContactInput {
+  id: number;
+  // Dates ISO 8601
+  createdAt: string;
+  readAt?: string;
+}
+
+/**
+ * Messages du formulaire `/contact`, gardés localement en attendant qu'un
+ * éditeur les lise depuis `/admin/inbox`.
+ */
+export interface ContactOutbox {
+  list(): Promise<ContactMessage[]>;
+  countUnread(): Promise<number>;
+  save(input: ContactInput): Promise<ContactMessage>;
+  markRead(id: number): Promise<void>;
+  remove(id: number): Promise<void>;
+}
+
+interface ContactMessageRow {
+  id: number;
+  created_at: string;
+  read_at: string | null;
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  locale: string;
+}
+
+const toMessage = (row: ContactMessageRow): ContactMessage => ({
+  id: row.id,
+  createdAt: row.created_at,
+  ...(row.read_at !== null ? { readAt: row.read_at } : {}),
+  name: row.name,
+  email: row.email,
+  subject: row.subject as ContactSubject,
+  message: row.message,
+  locale: row.locale,
+});
+
+export const createSqliteContactOutbox = (filename: string): ContactOutbox => {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS contact_messages (
+      id INTEGER PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      read_at TEXT,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      message TEXT NOT NULL,
+      locale TEXT NOT NULL
+    );
+  `);
+
+  const selectAll = db.prepare(
+    "SELECT * FROM contact_messages ORDER BY created_at DESC, id DESC"
+  );
+  const selectOne = db.prepare("SELECT * FROM contact_messages WHERE id = ?");
+  const countUnread = db.prepare(
+    "SELECT COUNT(*) AS count FROM contact_messages WHERE read_at IS NULL"
+  );
+  const insert = db.prepare(
+    `INSERT INTO contact_messages (created_at, name, email, subject, message, locale)
+     VALUES (@createdAt, @name, @email, @subject, @message, @locale)`
+  );
+
+  return {
+    async list() {
+      return (selectAll.all() as ContactMessageRow[]).map(toMessage);
+    },
+    async countUnread() {
+      return (countUnread.get() as { count: number }).count;
+    },
+    async save(input) {
+      const { lastInsertRowid } = insert.run({
+        ...input,
+        createdAt: new Date().toISOString(),
+      });
+      return toMessage(selectOne.get(lastInsertRowid) as ContactMessageRow);
+    },
+    async markRead(id) {
+      db.prepare(
+        "UPDATE contact_messages SET read_at = ? WHERE id = ? AND read_at IS NULL"
+      ).run(new Date().toISOString(), id);
+    },
+    async remove(id) {
+      db.prepare("DELETE FROM contact_messages WHERE id = ?").run(id);
+    },
+  };
+};
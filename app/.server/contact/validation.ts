@@ -0,0 +1,83 @@
+import type { MessageKey } from "~/i18n/translate";
+import { CONTACT_SUBJECTS } from "./outbox";
+import type { ContactInput, ContactSubject } from "./outbox";
+
+export const CONTACT_FIELDS = ["name", "email", "subject", "message"] as const;
+
+// Champ invisible : seul un robot le remplit
+export const HONEYPOT_FIELD = "website";
+
+export type ContactFormValidation = { spam: boolean } & (
+  | { ok: true; values: ContactInput }
+  | {
+      ok: false;
+      values: Record<string, string>;
+      errors: Record<string, MessageKey>;
+    }
+);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const LIMITS = { name: 100, email: 254, message: 5000 };
+
+const MESSAGE_MIN_LENGTH = 10;
+
+/**
+ * Valide le formulaire de contact. Les erreurs sont des clés de traduction,
+ * affichées dans la langue de la page. `spam` est vrai si le pot de miel est
+ * rempli : le message est alors ignoré sans le signaler.
+ */
+export const validateContactForm = (
+  formData: FormData,
+  locale: string
+): ContactFormValidation => {
+  const values = Object.fromEntries(
+    CONTACT_FIELDS.map((name) => {
+      const value = formData.get(name);
+      return [name, typeof value === "string" ? value.trim() : ""];
+    })
+  ) as Record<(typeof CONTACT_FIELDS)[number], string>;
+  const honeypot = formData.get(HONEYPOT_FIELD);
+  const spam = typeof honeypot === "string" && honeypot !== "";
+  const errors: Record<string, MessageKey> = {};
+
+  CONTACT_FIELDS.forEach((name) => {
+    if (!values[name]) errors[name] = "contact.error.required";
+  });
+  if (values.name.length > LIMITS.name) {
+    errors.name = "contact.error.tooLong";
+  }
+  if (
+    values.email &&
+    (values.email.length > LIMITS.email || !EMAIL_PATTERN.test(values.email))
+  ) {
+    errors.email = "contact.error.email";
+  }
+  if (
+    values.subject &&
+    !(CONTACT_SUBJECTS as readonly string[]).includes(values.subject)
+  ) {
+    errors.subject = "contact.error.subject";
+  }
+  if (values.message && values.message.length < MESSAGE_MIN_LENGTH) {
+    errors.message = "contact.error.tooShort";
+  } else if (values.message.length > LIMITS.message) {
+    errors.message = "contact.error.tooLong";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, values, errors, spam };
+  }
+
+  return {
+    ok: true,
+    values: {
+      name: values.name,
+      email: values.email,
+      subject: values.subject as ContactSubject,
+      message: values.message,
+      locale,
+    },
+    spam,
+  };
+};
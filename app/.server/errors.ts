@@ -0,0 +1,79 @@
+import { data } from "react-router";
+import { albumPath } from "~/catalog/keys";
+import { searchCatalog } from "~/catalog/search";
+import type { Album } from "~/catalog/types";
+import { getCatalogRepository } from "./catalog";
+
+export interface ErrorSuggestion {
+  type: "artist" | "album";
+  name: string;
+  // Nom du groupe, pour les albums
+  artist?: string;
+  // Chemin sans préfixe de langue
+  path: string;
+}
+
+// Corps des réponses 404 / 410 lues par la page d'erreur
+export interface ErrorPageData {
+  query: string;
+  suggestions: ErrorSuggestion[];
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Groupes et albums proches du slug demandé : chaque mot du slug est
+ * cherché dans le catalogue, les résultats qui en couvrent le plus d'abord.
+ */
+export const suggestFromSlug = async (slug: string): Promise<ErrorPageData> => {
+  const words = slug
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3);
+  const query = words.join(" ");
+  if (words.length === 0) return { query, suggestions: [] };
+
+  const groups = await getCatalogRepository().listGroups();
+  const hits = new Map<
+    string,
+    { suggestion: ErrorSuggestion; count: number }
+  >();
+  [query, ...words].forEach((word) => {
+    searchCatalog(groups, word).forEach((result) => {
+      const hit = hits.get(result.id);
+      if (hit) {
+        hit.count += 1;
+        return;
+      }
+      const suggestion: ErrorSuggestion =
+        result.type === "artist"
+          ? { type: "artist", name: result.name, path: `/artist/${result.id}` }
+          : {
+              type: "album",
+              name: result.name,
+              artist: (result.data as Album).groupName,
+              path: albumPath(result.data as Album),
+            };
+      hits.set(result.id, { suggestion, count: 1 });
+    });
+  });
+
+  return {
+    query,
+    suggestions: [...hits.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((hit) => hit.suggestion),
+  };
+};
+
+// À lancer depuis un loader : `throw await notFound(params.id)`
+export const notFound = async (slug: string) =>
+  data(await suggestFromSlug(slug), { status: 404 });
+
+export const gone = async (slug: string) =>
+  data(await suggestFromSlug(slug), { status: 410 });
+
+// 410 pour un groupe supprimé depuis l'admin, 404 sinon
+export const missingArtist = async (id: string) =>
+  (await getCatalogRepository().isGroupRemoved(id)) ? gone(id) : notFound(id);
@@ -0,0 +1,9 @@
+import { createCookie } from "react-router";
+
+// Dernière langue consultée : évite de renégocier à chaque visite
+export const localeCookie = createCookie("echos_lang", {
+  path: "/",
+  sameSite: "lax",
+  httpOnly: true,
+  maxAge: 60 * 60 * 24 * 365,
+});
@@ -0,0 +1,105 @@
+import { geoArea, geoCentroid, geoNaturalEarth1, geoPath } from "d3-geo";
+import type { GeoStream } from "d3-geo";
+import type {
+  Feature,
+  FeatureCollection,
+  MultiPolygon,
+  Polygon,
+} from "geojson";
+import { COUNTRIES } from "~/catalog/origins";
+import world from "~/data/world-110m.json";
+
+type Country = Feature<Polygon | MultiPolygon, { name: string }>;
+
+const countries = (
+  world as unknown as FeatureCollection<
+    Polygon | MultiPolygon,
+    { name: string }
+  >
+).features as Country[];
+
+const WIDTH = 960;
+const HEIGHT = 500;
+
+// Antarctique exclu des données, le reste du monde remplit le cadre
+const projection = geoNaturalEarth1().fitSize([WIDTH, HEIGHT], {
+  type: "FeatureCollection",
+  features: countries,
+});
+
+// Saute les points à moins de deux pixels du précédent : à cette échelle, le
+// tracé du fond de carte pèse alors bien moins lourd dans la page
+const dropClosePoints = (stream: GeoStream): GeoStream => {
+  let last: [number, number] | null = null;
+  return {
+    point(x, y) {
+      if (last && Math.abs(x - last[0]) < 2 && Math.abs(y - last[1]) < 2) {
+        return;
+      }
+      last = [x, y];
+      stream.point(x, y);
+    },
+    lineStart() {
+      last = null;
+      stream.lineStart();
+    },
+    lineEnd: () => stream.lineEnd(),
+    polygonStart: () => stream.polygonStart(),
+    polygonEnd: () => stream.polygonEnd(),
+    sphere: () => stream.sphere?.(),
+  };
+};
+
+const path = geoPath({
+  stream: (output) => projection.stream(dropClosePoints(output)),
+}).digits(0);
+
+/**
+ * Point d'ancrage du pays : centre de son plus grand polygone, pour que
+ * la France ne glisse pas vers la Guyane ni les États-Unis vers l'Alaska.
+ */
+const anchor = (country: Country) => {
+  const polygons =
+    country.geometry.type === "Polygon"
+      ? [country.geometry.coordinates]
+      : country.geometry.coordinates;
+  const [mainland] = polygons
+    .map((coordinates): Polygon => ({ type: "Polygon", coordinates }))
+    .sort((a, b) => geoArea(b) - geoArea(a));
+  const [x, y] = projection(geoCentroid(mainland)) ?? [0, 0];
+  return { x: Math.round(x), y: Math.round(y) };
+};
+
+export interface SceneShape {
+  key: string;
+  // Tracé SVG du pays, vide si le pays n'est pas dans les données
+  d: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Carte du monde des scènes, tracée côté serveur avec d3-geo : le fond
+ * (pays sans groupe) en un seul tracé, et un tracé par scène du catalogue.
+ * Les pays absents de `COUNTRIES` n'ont pas de position et sont ignorés.
+ */
+export const sceneMap = (keys: string[]) => {
+  const byGeoId = new Map(countries.map((country) => [country.id, country]));
+  const sceneIds = new Set(keys.map((key) => COUNTRIES[key]?.geoId));
+
+  const scenes = keys.flatMap((key): SceneShape[] => {
+    const country = byGeoId.get(COUNTRIES[key]?.geoId);
+    return country ? [{ key, d: path(country) ?? "", ...anchor(country) }] : [];
+  });
+
+  return {
+    width: WIDTH,
+    height: HEIGHT,
+    sphere: path({ type: "Sphere" }) ?? "",
+    land: countries
+      .filter((country) => !sceneIds.has(String(country.id)))
+      .map((country) => path(country))
+      .join(""),
+    scenes,
+  };
+};
@@ -0,0 +1,80 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createCookieSessionStorage, redirect } from "react-router";
+
+interface AdminSessionData {
+  isAdmin: boolean;
+}
+
+interface AdminSessionFlash {
+  notice: string;
+}
+
+const sessionSecret = process.env.SESSION_SECRET;
+
+// Sans ADMIN_PASSWORD personne ne peut se connecter : le secret par défaut est sans risque
+if (
+  !sessionSecret &&
+  process.env.ADMIN_PASSWORD &&
+  process.env.NODE_ENV === "production"
+) {
+  throw new Error("SESSION_SECRET must be set in production when ADMIN_PASSWORD is.");
+}
+
+const sessionStorage = createCookieSessionStorage<
+  AdminSessionData,
+  AdminSessionFlash
+>({
+  cookie: {
+    name: "__echos_admin",
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    secure: process.env.NODE_ENV === "production",
+    secrets: [sessionSecret ?? "echos-dev-secret"],
+    maxAge: 60 * 60 * 8,
+  },
+});
+
+export const getAdminSession = (request: Request) =>
+  sessionStorage.getSession(request.headers.get("Cookie"));
+
+export const commitAdminSession = sessionStorage.commitSession;
+export const destroyAdminSession = sessionStorage.destroySession;
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Compare le mot de passe saisi à `ADMIN_PASSWORD`. Sans variable définie,
+ * l'administration reste fermée.
+ */
+export const isAdminPassword = (password: string) => {
+  const expected = process.env.ADMIN_PASSWORD;
+  if (!expected) return false;
+  return timingSafeEqual(digest(password), digest(expected));
+};
+
+export const isAdminConfigured = () => Boolean(process.env.ADMIN_PASSWORD);
+
+// Redirige vers la connexion si la session n'est pas authentifiée
+export const requireAdmin = async (request: Request) => {
+  const session = await getAdminSession(request);
+  if (session.get("isAdmin")) return session;
+
+  const { pathname, search } = new URL(request.url);
+  throw redirect(
+    `/admin/login?redirectTo=${encodeURIComponent(pathname + search)}`
+  );
+};
+
+// Redirection après une écriture, avec un message affiché sur la page suivante
+export const redirectWithNotice = async (
+  request: Request,
+  to: string,
+  notice: string
+) => {
+  const session = await getAdminSession(request);
+  session.flash("notice", notice);
+  return redirect(to, {
+    headers: { "Set-Cookie": await commitAdminSession(session) },
+  });
+};
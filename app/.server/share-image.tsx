@@ -0,0 +1,209 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Resvg } from "@resvg/resvg-js";
+import satori from "satori";
+import type { Font } from "satori";
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const RED = "#B5252A";
+
+// En dev les fichiers sont sous `public/`, dans l'image Docker sous `build/client/`
+const PUBLIC_ROOTS = ["public", "build/client"];
+
+const readPublicFile = async (src: string) => {
+  for (const root of PUBLIC_ROOTS) {
+    try {
+      return await fs.readFile(path.resolve(root, `.${decodeURI(src)}`));
+    } catch {
+      // essaie le dossier suivant
+    }
+  }
+  return null;
+};
+
+// Satori ne lit ni le woff2 ni les polices système : les .otf/.ttf livrés suffisent
+const FONTS = [
+  {
+    name: "Tungsten",
+    weight: 400,
+    file: "tungsten-font-family/Tungsten-Book.otf",
+  },
+  {
+    name: "Tungsten",
+    weight: 700,
+    file: "tungsten-font-family/Tungsten-Bold.otf",
+  },
+  {
+    name: "Hit me punk",
+    weight: 400,
+    file: "hit_me_punk/Hit me, punk! 01.ttf",
+  },
+] as const;
+
+let fontsPromise: Promise<Font[]> | null = null;
+
+const loadFonts = () =>
+  (fontsPromise ??= Promise.all(
+    FONTS.map(async ({ name, weight, file }): Promise<Font> => {
+      const data = await readPublicFile(`/assets/fonts/${file}`);
+      if (!data) throw new Error(`Font ${file} not found.`);
+      return { name, weight, data, style: "normal" };
+    })
+  ));
+
+// Formats que Satori sait dessiner : pas de WebP, qui laisserait le panneau vide
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+};
+
+// Pochette en data URI ; `null` si le fichier manque ou n'est pas une image lue par Satori
+const coverDataUri = async (src: string) => {
+  const mime = MIME_TYPES[src.split(".").pop()?.toLowerCase() ?? ""];
+  const data = mime ? await readPublicFile(src) : null;
+  return data ? `data:${mime};base64,${data.toString("base64")}` : null;
+};
+
+export interface ShareCard {
+  // Nom du groupe, en grand
+  title: string;
+  // Titre de l'album, pour les pages album
+  subtitle?: string;
+  // Genre et origine
+  details: string;
+  // Chemin de la pochette sous `public/`
+  cover?: string;
+}
+
+export interface ShareImage {
+  png: Buffer;
+  etag: string;
+}
+
+// Le nom s'adapte à sa longueur pour tenir sur deux lignes au plus
+const titleSize = (title: string) =>
+  title.length <= 10 ? 150 : title.length <= 20 ? 112 : 84;
+
+const renderCard = async (card: ShareCard) => {
+  const cover = card.cover ? await coverDataUri(card.cover) : null;
+
+  const svg = await satori(
+    <div
+      style={{
+        display: "flex",
+        width: WIDTH,
+        height: HEIGHT,
+        background: "#0a0a0a",
+        color: "white",
+        fontFamily: "Tungsten",
+      }}
+    >
+      {cover ? (
+        <img
+          src={cover}
+          width={HEIGHT}
+          height={HEIGHT}
+          style={{ objectFit: "cover" }}
+        />
+      ) : (
+        <div
+          style={{
+            display: "flex",
+            width: HEIGHT,
+            height: HEIGHT,
+            background: RED,
+          }}
+        />
+      )}
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          flex: 1,
+          padding: "48px 56px",
+          borderBottom: `16px solid ${RED}`,
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            fontFamily: "Hit me punk",
+            fontSize: 64,
+            color: RED,
+          }}
+        >
+          ECHOS
+        </div>
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div
+            style={{
+              fontSize: titleSize(card.title),
+              fontWeight: 700,
+              lineHeight: 0.9,
+              textTransform: "uppercase",
+            }}
+          >
+            {card.title}
+          </div>
+          {card.subtitle && (
+            <div style={{ fontSize: 56, marginTop: 16, color: "#e5e5e5" }}>
+              {card.subtitle}
+            </div>
+          )}
+        </div>
+        <div style={{ display: "flex", fontSize: 40, color: "#a3a3a3" }}>
+          {card.details}
+        </div>
+      </div>
+    </div>,
+    { width: WIDTH, height: HEIGHT, fonts: await loadFonts() }
+  );
+
+  return new Resvg(svg, { fitTo: { mode: "width", value: WIDTH } })
+    .render()
+    .asPng();
+};
+
+// Images récentes gardées en mémoire, clé = contenu de la carte
+const MAX_CACHED_IMAGES = 50;
+const cache = new Map<string, Promise<ShareImage>>();
+
+/**
+ * Image de partage 1200×630 (pochette, nom du groupe dans les polices
+ * ECHOS, bandeau rouge), rendue avec Satori et resvg sans accès réseau.
+ * Le rendu est mis en cache tant que le contenu de la carte ne change pas.
+ */
+export const renderShareImage = (card: ShareCard) => {
+  const etag = `"${createHash("sha1")
+    .update(JSON.stringify(card))
+    .digest("base64url")}"`;
+  let image = cache.get(etag);
+  if (!image) {
+    image = renderCard(card).then((png) => ({ png, etag }));
+    image.catch(() => cache.delete(etag));
+    cache.set(etag, image);
+    if (cache.size > MAX_CACHED_IMAGES) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  }
+  return image;
+};
+
+export const shareImageResponse = (
+  request: Request,
+  { png, etag }: ShareImage
+) => {
+  const headers = {
+    "Content-Type": "image/png",
+    "Cache-Control": "public, max-age=86400",
+    ETag: etag,
+  };
+  if (request.headers.get("If-None-Match") === etag) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(png, { headers });
+};
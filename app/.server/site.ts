@@ -0,0 +1,9 @@
+/**
+ * Origine publique du site (`https://echos.example`), pour les URL absolues
+ * du sitemap et des balises de partage. `SITE_URL` prime sur l'URL de la
+ * requête, qui peut être une adresse interne derrière un proxy.
+ */
+export const siteOrigin = (request: Request) =>
+  process.env.SITE_URL
+    ? new URL(process.env.SITE_URL).origin
+    : new URL(request.url).origin;
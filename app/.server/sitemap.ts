@@ -0,0 +1,150 @@
+import { FESTIVALS, festivalPath } from "~/catalog/festivals";
+import { GENRES, genrePath } from "~/catalog/genres";
+import { albumPath } from "~/catalog/keys";
+import { groupScenes, scenePath } from "~/catalog/origins";
+import { DEFAULT_LOCALE, LOCALES, localizePath } from "~/i18n/locales";
+import type { Locale } from "~/i18n/locales";
+import { getCatalogRepository } from "./catalog";
+
+export interface SitemapEntry {
+  // Chemin sans préfixe de langue
+  path: string;
+  lastmod?: string;
+}
+
+// Entrées par fichier ; chacune donne une <url> par langue, bien en deçà
+// des 50 000 URL autorisées par fichier de sitemap
+export const SITEMAP_PAGE_SIZE = 2000;
+
+const latest = (dates: (string | undefined)[]) =>
+  dates.reduce<string | undefined>(
+    (max, date) => (date && (!max || date > max) ? date : max),
+    undefined
+  );
+
+/**
+ * Toutes les pages publiques : accueil et index, puis une entrée par
+ * scène, festival, genre, groupe et album. Les index sont datés de la
+ * dernière modification du catalogue, les pages de groupe et d'album de
+ * la leur quand le dépôt la connaît.
+ */
+export const listSitemapEntries = async (): Promise<SitemapEntry[]> => {
+  const repository = getCatalogRepository();
+  const [groups, updates] = await Promise.all([
+    repository.listGroups(),
+    repository.listUpdates(),
+  ]);
+  const catalogLastmod = latest(Object.values(updates));
+
+  return [
+    { path: "/", lastmod: catalogLastmod },
+    { path: "/artists", lastmod: catalogLastmod },
+    { path: "/scenes", lastmod: catalogLastmod },
+    ...groupScenes(groups, DEFAULT_LOCALE).map((scene) => ({
+      path: scenePath(scene.key),
+      lastmod: latest(scene.groups.map((group) => updates[group.id])),
+    })),
+    { path: "/festivals" },
+    ...FESTIVALS.map((festival) => ({ path: festivalPath(festival.slug) })),
+    ...GENRES.map((genre) => ({ path: genrePath(genre.slug) })),
+    { path: "/notre-crew" },
+    { path: "/contact" },
+    ...groups.flatMap((group) => [
+      { path: `/artist/${group.id}`, lastmod: updates[group.id] },
+      ...group.albums.map((album) => ({
+        path: albumPath(album),
+        lastmod: updates[album.key],
+      })),
+    ]),
+  ];
+};
+
+export const sitemapPageCount = (entries: SitemapEntry[]) =>
+  Math.max(1, Math.ceil(entries.length / SITEMAP_PAGE_SIZE));
+
+export const sitemapPage = (entries: SitemapEntry[], page: number) =>
+  entries.slice((page - 1) * SITEMAP_PAGE_SIZE, page * SITEMAP_PAGE_SIZE);
+
+const escapeXml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+      }[char] as string)
+  );
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+// Une <url> par langue, chacune listant ses variantes (`hreflang`)
+export const renderUrlset = (entries: SitemapEntry[], origin: string) => {
+  const urls = entries.flatMap((entry) => {
+    const href = (locale: Locale) =>
+      escapeXml(origin + localizePath(entry.path, locale));
+    const alternates = [
+      ...LOCALES.map(
+        (locale) =>
+          `    <xhtml:link rel="alternate" hreflang="${locale}" href="${href(
+            locale
+          )}"/>`
+      ),
+      `    <xhtml:link rel="alternate" hreflang="x-default" href="${href(
+        DEFAULT_LOCALE
+      )}"/>`,
+    ];
+    return LOCALES.map((locale) =>
+      [
+        "  <url>",
+        `    <loc>${href(locale)}</loc>`,
+        ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+        ...alternates,
+        "  </url>",
+      ].join("\n")
+    );
+  });
+
+  return [
+    XML_HEADER,
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+};
+
+export const renderSitemapIndex = (entries: SitemapEntry[], origin: string) => {
+  const sitemaps = Array.from(
+    { length: sitemapPageCount(entries) },
+    (_, index) => {
+      const lastmod = latest(
+        sitemapPage(entries, index + 1).map((entry) => entry.lastmod)
+      );
+      return [
+        "  <sitemap>",
+        `    <loc>${escapeXml(`${origin}/sitemaps/${index + 1}.xml`)}</loc>`,
+        ...(lastmod ? [`    <lastmod>${lastmod}</lastmod>`] : []),
+        "  </sitemap>",
+      ].join("\n");
+    }
+  );
+
+  return [
+    XML_HEADER,
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    "</sitemapindex>",
+    "",
+  ].join("\n");
+};
+
+export const xmlResponse = (body: string) =>
+  new Response(body, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
@@ -0,0 +1,102 @@
+import crewData from "../data/crew.json";
+import { DEFAULT_LOCALE, TRANSLATED_LOCALES } from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { albumKey, parseAlbumKey } from "./keys";
+import { isEncodedPath, SLUG_PATTERN } from "./schema";
+import type { CatalogIssue } from "./schema";
+import type { CrewMember, Group } from "./types";
+
+export const CREW = crewData as CrewMember[];
+
+// Rôle et bio traduits quand ils existent, le français sinon
+export const localizeCrewMember = (
+  member: CrewMember,
+  locale: Locale
+): Omit<CrewMember, "translations"> => {
+  const { translations, ...rest } = member;
+  return locale === DEFAULT_LOCALE
+    ? rest
+    : { ...rest, ...translations?.[locale] };
+};
+
+/**
+ * Contrôle de `crew.json` : champs obligatoires, photo présente sous
+ * `public/` et albums favoris qui existent dans le catalogue.
+ */
+export const checkCrew = (
+  input: unknown,
+  groups: Pick<Group, "id" | "albums">[],
+  assetExists?: (src: string) => boolean
+) => {
+  const issues: CatalogIssue[] = [];
+  const error = (path: string, message: string) =>
+    issues.push({ severity: "error", path, message });
+
+  if (!Array.isArray(input)) {
+    error("crew", "The crew must be an array.");
+    return issues;
+  }
+
+  const albumKeys = new Set(
+    groups.flatMap((group) =>
+      group.albums.map((album) => albumKey(group.id, album.slug))
+    )
+  );
+  const ids = new Set<string>();
+
+  (input as CrewMember[]).forEach((member, index) => {
+    const path = `crew[${index}]`;
+    if (typeof member.id !== "string" || !SLUG_PATTERN.test(member.id)) {
+      error(
+        `${path}.id`,
+        `Crew id ${JSON.stringify(member.id)} is not a URL slug.`
+      );
+    } else if (ids.has(member.id)) {
+      error(`${path}.id`, `Duplicate crew id "${member.id}".`);
+    } else {
+      ids.add(member.id);
+    }
+    for (const field of ["name", "role", "photo", "bio"] as const) {
+      if (typeof member[field] !== "string" || !member[field].trim()) {
+        error(`${path}.${field}`, `Missing crew "${field}".`);
+      }
+    }
+    if (typeof member.photo === "string" && member.photo.trim()) {
+      if (!isEncodedPath(member.photo)) {
+        error(
+          `${path}.photo`,
+          `"photo" is not a valid path (malformed "%" escape): "${member.photo}".`
+        );
+      } else if (assetExists && !assetExists(member.photo)) {
+        error(`${path}.photo`, `File public${member.photo} does not exist.`);
+      }
+    }
+    if (!Array.isArray(member.favorites)) {
+      error(`${path}.favorites`, `"favorites" must be an array of album keys.`);
+    } else {
+      member.favorites.forEach((key, favoriteIndex) => {
+        if (typeof key !== "string" || !parseAlbumKey(key)) {
+          error(
+            `${path}.favorites[${favoriteIndex}]`,
+            `${JSON.stringify(key)} is not an album key ("groupId/albumSlug").`
+          );
+        } else if (!albumKeys.has(key)) {
+          error(
+            `${path}.favorites[${favoriteIndex}]`,
+            `Album "${key}" is not in the catalog.`
+          );
+        }
+      });
+    }
+    Object.keys(member.translations ?? {}).forEach((locale) => {
+      if (!(TRANSLATED_LOCALES as string[]).includes(locale)) {
+        error(
+          `${path}.translations.${locale}`,
+          `Unknown translation locale "${locale}".`
+        );
+      }
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,173 @@
+import festivalsData from "../data/festivals.json";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_TAGS,
+  TRANSLATED_LOCALES,
+} from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { isEncodedPath, SLUG_PATTERN, URL_PATTERN } from "./schema";
+import type { CatalogIssue } from "./schema";
+import type { Festival, Group } from "./types";
+
+export const FESTIVALS = festivalsData as Festival[];
+
+const DATE_PATTERN = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+
+export const getFestival = (slug: string) =>
+  FESTIVALS.find((festival) => festival.slug === slug) ?? null;
+
+export const festivalPath = (slug: string) => `/festivals/${slug}`;
+
+// Description traduite quand elle existe, le français sinon
+export const localizeFestival = (
+  festival: Festival,
+  locale: Locale
+): Omit<Festival, "translations"> => {
+  const { translations, ...rest } = festival;
+  return locale === DEFAULT_LOCALE
+    ? rest
+    : { ...rest, ...translations?.[locale] };
+};
+
+// Date du jour au format des festivals, pour comparer les chaînes
+export const today = () => new Date().toISOString().slice(0, 10);
+
+// Un festival reste « à venir » jusqu'à son dernier jour inclus
+export const isUpcoming = (festival: Festival, date = today()) =>
+  festival.endDate >= date;
+
+/**
+ * Agenda : festivals à venir du plus proche au plus lointain, festivals
+ * passés du plus récent au plus ancien.
+ */
+export const splitAgenda = <T extends Festival>(
+  festivals: T[],
+  date = today()
+) => {
+  const byStart = [...festivals].sort((a, b) =>
+    a.startDate.localeCompare(b.startDate)
+  );
+  return {
+    upcoming: byStart.filter((festival) => isUpcoming(festival, date)),
+    past: byStart.filter((festival) => !isUpcoming(festival, date)).reverse(),
+  };
+};
+
+export const festivalsForGroup = (groupId: string) =>
+  FESTIVALS.filter((festival) => festival.lineup.includes(groupId));
+
+// « 21 – 23 août 2026 », en UTC pour rendre la même chose côté serveur et client
+export const formatFestivalDates = (festival: Festival, locale: Locale) =>
+  new Intl.DateTimeFormat(LOCALE_TAGS[locale], {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).formatRange(
+    new Date(`${festival.startDate}T00:00:00Z`),
+    new Date(`${festival.endDate}T00:00:00Z`)
+  );
+
+/**
+ * Contrôle de `festivals.json` : champs obligatoires, dates dans l'ordre,
+ * image présente sous `public/` et groupes à l'affiche présents au catalogue.
+ */
+export const checkFestivals = (
+  input: unknown,
+  groups: Pick<Group, "id">[],
+  assetExists?: (src: string) => boolean
+) => {
+  const issues: CatalogIssue[] = [];
+  const error = (path: string, message: string) =>
+    issues.push({ severity: "error", path, message });
+
+  if (!Array.isArray(input)) {
+    error("festivals", "The festivals must be an array.");
+    return issues;
+  }
+
+  const groupIds = new Set(groups.map((group) => group.id));
+  const slugs = new Set<string>();
+
+  (input as Festival[]).forEach((festival, index) => {
+    const path = `festivals[${index}]`;
+    if (
+      typeof festival.slug !== "string" ||
+      !SLUG_PATTERN.test(festival.slug)
+    ) {
+      error(
+        `${path}.slug`,
+        `Festival slug ${JSON.stringify(festival.slug)} is not a URL slug.`
+      );
+    } else if (slugs.has(festival.slug)) {
+      error(`${path}.slug`, `Duplicate festival slug "${festival.slug}".`);
+    } else {
+      slugs.add(festival.slug);
+    }
+    for (const field of [
+      "name",
+      "venue",
+      "city",
+      "country",
+      "image",
+      "description",
+    ] as const) {
+      if (typeof festival[field] !== "string" || !festival[field].trim()) {
+        error(`${path}.${field}`, `Missing festival "${field}".`);
+      }
+    }
+    for (const field of ["startDate", "endDate"] as const) {
+      if (
+        typeof festival[field] !== "string" ||
+        !DATE_PATTERN.test(festival[field])
+      ) {
+        error(`${path}.${field}`, `"${field}" must be a YYYY-MM-DD date.`);
+      }
+    }
+    if (
+      DATE_PATTERN.test(festival.startDate) &&
+      DATE_PATTERN.test(festival.endDate) &&
+      festival.endDate < festival.startDate
+    ) {
+      error(`${path}.endDate`, `"endDate" is before "startDate".`);
+    }
+    if (
+      typeof festival.ticketUrl !== "string" ||
+      !URL_PATTERN.test(festival.ticketUrl)
+    ) {
+      error(`${path}.ticketUrl`, `"ticketUrl" must be an http(s) URL.`);
+    }
+    if (typeof festival.image === "string" && festival.image.trim()) {
+      if (!isEncodedPath(festival.image)) {
+        error(
+          `${path}.image`,
+          `"image" is not a valid path (malformed "%" escape): "${festival.image}".`
+        );
+      } else if (assetExists && !assetExists(festival.image)) {
+        error(`${path}.image`, `File public${festival.image} does not exist.`);
+      }
+    }
+    if (!Array.isArray(festival.lineup)) {
+      error(`${path}.lineup`, `"lineup" must be an array of group ids.`);
+    } else {
+      festival.lineup.forEach((groupId, lineupIndex) => {
+        if (!groupIds.has(groupId)) {
+          error(
+            `${path}.lineup[${lineupIndex}]`,
+            `Group ${JSON.stringify(groupId)} is not in the catalog.`
+          );
+        }
+      });
+    }
+    Object.keys(festival.translations ?? {}).forEach((locale) => {
+      if (!(TRANSLATED_LOCALES as string[]).includes(locale)) {
+        error(
+          `${path}.translations.${locale}`,
+          `Unknown translation locale "${locale}".`
+        );
+      }
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,204 @@
+// Début et fin (exclue) d'un passage reconnu, en indices du texte d'origine
+export type MatchRange = [start: number, end: number];
+
+export interface TextMatch {
+  score: number; // Entre 0 et 1, 1 pour le texte exact
+  ranges: MatchRange[];
+}
+
+export interface Token {
+  text: string; // Forme repliée : minuscules, sans accents
+  // Position dans le texte d'origine de chaque caractère replié
+  chars: MatchRange[];
+}
+
+// Ligatures que la décomposition Unicode ne sépare pas
+const LIGATURES: Record<string, string> = { œ: "oe", æ: "ae", ß: "ss" };
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Points par façon de reconnaître un mot de la requête
+const SCORES = {
+  exact: 1,
+  prefix: 0.85,
+  typo: 0.7,
+  infix: 0.6,
+  typoPrefix: 0.55,
+};
+
+const foldChar = (char: string) => {
+  const lower = char.toLowerCase();
+  return (
+    LIGATURES[lower] ?? lower.normalize("NFD").replace(COMBINING_MARKS, "")
+  );
+};
+
+/** "Frànçois & The Atlas Mountains" → "francois & the atlas mountains" */
+export const foldText = (text: string) => Array.from(text, foldChar).join("");
+
+// Mots repliés du texte, avec la position d'origine de chaque caractère
+const tokenize = (text: string) => {
+  const tokens: Token[] = [];
+  let current: Token | null = null;
+  let offset = 0;
+  for (const char of text) {
+    const range: MatchRange = [offset, offset + char.length];
+    offset += char.length;
+    for (const folded of foldChar(char)) {
+      if (!WORD_CHAR.test(folded)) {
+        current = null;
+      } else if (current) {
+        current.text += folded;
+        current.chars.push(range);
+      } else {
+        current = { text: folded, chars: [range] };
+        tokens.push(current);
+      }
+    }
+  }
+  return tokens;
+};
+
+// Texte découpé une fois pour toutes, pour un index de recherche
+export interface PreparedText {
+  text: string;
+  tokens: Token[];
+}
+
+export const prepareText = (text: string): PreparedText => ({
+  text,
+  tokens: tokenize(text),
+});
+
+export const queryTokens = (query: string) =>
+  tokenize(query).map((token) => token.text);
+
+// Fautes de frappe tolérées selon la longueur du mot tapé : aucune sur un
+// mot court, qui retrouverait sinon trop de mots sans rapport
+const maxEdits = (length: number) => (length <= 4 ? 0 : length <= 7 ? 1 : 2);
+
+/**
+ * Distance d'édition (insertion, suppression, substitution, inversion de
+ * deux lettres voisines), ou `Infinity` dès qu'elle dépasse `max`.
+ */
+export const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        row[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return Infinity;
+    previous2 = previous;
+    previous = row;
+  }
+
+  const distance = previous[b.length];
+  return distance > max ? Infinity : distance;
+};
+
+// Meilleure façon dont un mot de la requête retrouve un mot du texte
+const matchToken = (query: string, token: string, typos: boolean) => {
+  if (token === query) return { score: SCORES.exact, length: token.length };
+  if (token.startsWith(query)) {
+    return { score: SCORES.prefix, length: query.length };
+  }
+
+  const edits = typos ? maxEdits(query.length) : 0;
+  if (edits > 0) {
+    const distance = editDistance(query, token, edits);
+    if (distance !== Infinity) {
+      return { score: SCORES.typo - 0.1 * distance, length: token.length };
+    }
+  }
+
+  // Au milieu d'un mot, seulement à partir de trois lettres
+  const index = query.length >= 3 ? token.indexOf(query) : -1;
+  if (index > 0) {
+    return { score: SCORES.infix, length: query.length, offset: index };
+  }
+
+  // Mot en cours de frappe : on compare au début du mot, à longueur égale
+  if (edits > 0 && token.length > query.length) {
+    const distance = editDistance(query, token.slice(0, query.length), edits);
+    if (distance !== Infinity) {
+      return {
+        score: SCORES.typoPrefix - 0.1 * distance,
+        length: query.length,
+      };
+    }
+  }
+
+  return null;
+};
+
+// Plage d'origine des caractères repliés `offset` à `offset + length`
+const tokenRange = (token: Token, offset: number, length: number) => {
+  const end = Math.min(offset + length, token.chars.length) - 1;
+  return [token.chars[offset][0], token.chars[end][1]] as MatchRange;
+};
+
+const mergeRanges = (ranges: MatchRange[]) =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+      else merged.push([...range]);
+      return merged;
+    }, []);
+
+/**
+ * Cherche chaque mot de la requête dans le texte, sans tenir compte de la
+ * casse ni des accents, en tolérant préfixes et fautes de frappe (sauf avec
+ * `typos: false`). Tous les mots doivent être trouvés ; `null` sinon.
+ */
+export const matchText = (
+  query: string | string[],
+  text: string | PreparedText | undefined,
+  { typos = true }: { typos?: boolean } = {}
+): TextMatch | null => {
+  const words = typeof query === "string" ? queryTokens(query) : query;
+  if (!text || words.length === 0) return null;
+
+  const { tokens } = typeof text === "string" ? prepareText(text) : text;
+  const ranges: MatchRange[] = [];
+  let total = 0;
+  for (const word of words) {
+    let best: { score: number; range: MatchRange } | null = null;
+    for (const token of tokens) {
+      const match = matchToken(word, token.text, typos);
+      if (match && (!best || match.score > best.score)) {
+        best = {
+          score: match.score,
+          range: tokenRange(token, match.offset ?? 0, match.length),
+        };
+      }
+    }
+    if (!best) return null;
+    total += best.score;
+    ranges.push(best.range);
+  }
+
+  // Le texte entier tapé tel quel l'emporte sur une simple correspondance
+  const whole = tokens.map((token) => token.text).join(" ") === words.join(" ");
+  return {
+    score: (total / words.length) * (whole ? 1 : 0.9),
+    ranges: mergeRanges(ranges),
+  };
+};
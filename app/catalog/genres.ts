@@ -0,0 +1,191 @@
+import genresData from "../data/genres.json";
+import { DEFAULT_LOCALE, TRANSLATED_LOCALES } from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { slugify } from "./keys";
+import { SLUG_PATTERN } from "./schema";
+import type { CatalogIssue } from "./schema";
+import type { Genre, Group } from "./types";
+
+export const GENRES = genresData as Genre[];
+
+const genresBySlug = new Map(GENRES.map((genre) => [genre.slug, genre]));
+
+// Nom, alias et slug d'un genre, comparés sous forme de slug
+const genreLabels = (genre: Genre) => [
+  genre.slug,
+  genre.name,
+  ...(genre.aliases ?? []),
+];
+
+const genresByLabel = new Map(
+  GENRES.flatMap((genre) =>
+    genreLabels(genre).map((label) => [slugify(label), genre])
+  )
+);
+
+export const getGenre = (slug: string) => genresBySlug.get(slug) ?? null;
+
+// Genre désigné par son nom, un alias ou son slug, casse et accents ignorés
+export const findGenre = (label: string) =>
+  genresByLabel.get(slugify(label)) ?? null;
+
+export const genrePath = (slug: string) => `/genre/${slug}`;
+
+export const genreName = (genre: Genre, locale: Locale = DEFAULT_LOCALE) =>
+  locale === DEFAULT_LOCALE
+    ? genre.name
+    : genre.translations?.[locale]?.name ?? genre.name;
+
+// Du genre racine jusqu'au genre lui-même, pour le fil d'Ariane
+export const genreAncestors = (slug: string) => {
+  const chain: Genre[] = [];
+  for (
+    let genre = genresBySlug.get(slug);
+    genre;
+    genre = genre.parent ? genresBySlug.get(genre.parent) : undefined
+  ) {
+    chain.unshift(genre);
+  }
+  return chain;
+};
+
+export const childGenres = (slug: string) =>
+  GENRES.filter((genre) => genre.parent === slug);
+
+// Le genre et tous ses sous-genres, à toute profondeur
+export const genreFamily = (slug: string) => {
+  const family = new Set([slug]);
+  for (const current of family) {
+    childGenres(current).forEach((child) => family.add(child.slug));
+  }
+  return family;
+};
+
+/**
+ * Découpe le champ libre `genre` ("Shoegaze / Noise Rock") et rattache
+ * chaque partie à la taxonomie quand c'est possible.
+ */
+export const splitGenre = (genre: string) =>
+  genre
+    .split("/")
+    .map((label) => label.trim())
+    .filter(Boolean)
+    .map((label) => ({ label, genre: genresByLabel.get(slugify(label)) }));
+
+export const groupGenreSlugs = (group: Pick<Group, "genre">) => [
+  ...new Set(
+    splitGenre(group.genre).flatMap((part) =>
+      part.genre ? [part.genre.slug] : []
+    )
+  ),
+];
+
+// Vrai si le groupe relève du genre ou d'un de ses sous-genres
+export const isInGenre = (group: Pick<Group, "genre">, slug: string) => {
+  const family = genreFamily(slug);
+  return groupGenreSlugs(group).some((genreSlug) => family.has(genreSlug));
+};
+
+/**
+ * Contrôle de la taxonomie (slugs, parents, cycles, alias en double) et
+ * avertissement pour chaque genre de groupe qui n'y est pas rattaché.
+ */
+export const checkGenres = (
+  input: unknown,
+  groups: Pick<Group, "id" | "genre">[]
+) => {
+  const issues: CatalogIssue[] = [];
+  const error = (path: string, message: string) =>
+    issues.push({ severity: "error", path, message });
+
+  if (!Array.isArray(input)) {
+    error("genres", "The genre taxonomy must be an array.");
+    return issues;
+  }
+
+  const genres = input as Genre[];
+  const slugs = new Set<string>();
+  const labels = new Map<string, string>();
+
+  genres.forEach((genre, index) => {
+    const path = `genres[${index}]`;
+    if (typeof genre.slug !== "string" || !SLUG_PATTERN.test(genre.slug)) {
+      error(
+        `${path}.slug`,
+        `Genre slug ${JSON.stringify(genre.slug)} is not a URL slug.`
+      );
+    } else if (slugs.has(genre.slug)) {
+      error(`${path}.slug`, `Duplicate genre slug "${genre.slug}".`);
+    } else {
+      slugs.add(genre.slug);
+    }
+    if (typeof genre.name !== "string" || !genre.name.trim()) {
+      error(`${path}.name`, `Missing genre "name".`);
+      return;
+    }
+    if (genre.aliases !== undefined && !Array.isArray(genre.aliases)) {
+      error(`${path}.aliases`, `"aliases" must be an array of strings.`);
+      return;
+    }
+    Object.keys(genre.translations ?? {}).forEach((locale) => {
+      if (!(TRANSLATED_LOCALES as string[]).includes(locale)) {
+        error(
+          `${path}.translations.${locale}`,
+          `Unknown translation locale "${locale}".`
+        );
+      }
+    });
+    genreLabels(genre).forEach((label) => {
+      const key = slugify(String(label));
+      const owner = labels.get(key);
+      if (owner && owner !== genre.slug) {
+        error(
+          `${path}.aliases`,
+          `"${label}" already designates genre "${owner}".`
+        );
+      }
+      labels.set(key, genre.slug);
+    });
+  });
+
+  genres.forEach((genre, index) => {
+    if (genre.parent === undefined) return;
+    if (!slugs.has(genre.parent)) {
+      error(
+        `genres[${index}].parent`,
+        `Unknown parent genre "${genre.parent}".`
+      );
+      return;
+    }
+    // Remonte les parents : un genre ne peut pas être son propre ancêtre
+    const seen = new Set([genre.slug]);
+    for (let parent: string | undefined = genre.parent; parent; ) {
+      if (seen.has(parent)) {
+        error(
+          `genres[${index}].parent`,
+          `Genre "${genre.slug}" is part of a parent cycle.`
+        );
+        return;
+      }
+      seen.add(parent);
+      parent = genres.find((candidate) => candidate.slug === parent)?.parent;
+    }
+  });
+
+  groups.forEach((group) => {
+    group.genre
+      .split("/")
+      .map((label) => label.trim())
+      .filter((label) => label && !labels.has(slugify(label)))
+      .forEach((label) =>
+        issues.push({
+          severity: "warning",
+          path: "genre",
+          message: `Genre "${label}" is not in app/data/genres.json; add it or one of its aliases.`,
+          groupId: group.id,
+        })
+      );
+  });
+
+  return issues;
+};
@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+import { checkCrew } from "./crew";
+import { checkFestivals } from "./festivals";
+import { checkGenres } from "./genres";
+import { formatCatalogReport, validateCatalog } from "./schema";
+import type { CatalogValidationResult } from "./schema";
+
+const CATALOG_FILE = "app/data/groups.json";
+const GENRES_FILE = "app/data/genres.json";
+const CREW_FILE = "app/data/crew.json";
+const FESTIVALS_FILE = "app/data/festivals.json";
+
+/**
+ * Contrôle d'intégrité côté Node : lit `groups.json` et vérifie en plus
+ * que chaque `src` pointe vers un fichier existant sous `public/`, puis
+ * contrôle la taxonomie `genres.json` au regard des genres des groupes,
+ * les albums favoris de `crew.json` et l'affiche de `festivals.json`.
+ */
+export const checkCatalog = (root: string): CatalogValidationResult => {
+  const catalogPath = path.join(root, CATALOG_FILE);
+  let input: unknown;
+
+  try {
+    input = JSON.parse(fs.readFileSync(catalogPath, "utf8"));
+  } catch (error) {
+    return {
+      groups: [],
+      issues: [
+        {
+          severity: "error",
+          path: CATALOG_FILE,
+          message: `Cannot read catalog: ${(error as Error).message}`,
+        },
+      ],
+      valid: false,
+    };
+  }
+
+  // Un chemin mal encodé est signalé par les contrôles, pas levé ici
+  const assetExists = (src: string) => {
+    try {
+      return fs.existsSync(path.join(root, "public", decodeURI(src)));
+    } catch {
+      return false;
+    }
+  };
+  const result = validateCatalog(input, { assetExists });
+
+  // Fichier annexe illisible : erreur dans le rapport, `null` en retour
+  const readDataFile = (file: string, label: string): unknown => {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(root, file), "utf8"));
+    } catch (error) {
+      result.issues.push({
+        severity: "error",
+        path: file,
+        message: `Cannot read ${label}: ${(error as Error).message}`,
+      });
+      return null;
+    }
+  };
+
+  const genres = readDataFile(GENRES_FILE, "genres");
+  const crew = readDataFile(CREW_FILE, "crew");
+  const festivals = readDataFile(FESTIVALS_FILE, "festivals");
+  const extraIssues = [
+    ...(genres === null ? [] : checkGenres(genres, result.groups)),
+    ...(crew === null ? [] : checkCrew(crew, result.groups, assetExists)),
+    ...(festivals === null
+      ? []
+      : checkFestivals(festivals, result.groups, assetExists)),
+  ];
+
+  return {
+    ...result,
+    issues: [...result.issues, ...extraIssues],
+    valid:
+      result.valid &&
+      genres !== null &&
+      crew !== null &&
+      festivals !== null &&
+      !extraIssues.some((issue) => issue.severity === "error"),
+  };
+};
+
+/**
+ * Plugin Vite : affiche le rapport au démarrage du serveur de dev et
+ * fait échouer `vite build` tant que le catalogue contient des erreurs.
+ */
+export const catalogIntegrity = (): Plugin => {
+  let root = process.cwd();
+  let isBuild = false;
+
+  return {
+    name: "echos:catalog-integrity",
+    configResolved(config) {
+      root = config.root;
+      isBuild = config.command === "build";
+    },
+    buildStart() {
+      const result = checkCatalog(root);
+      if (result.issues.length === 0) return;
+
+      const report = formatCatalogReport(result.issues);
+      if (!result.valid && isBuild) {
+        this.error(`${CATALOG_FILE} is invalid:\n${report}`);
+      }
+      this.warn(`${CATALOG_FILE}:\n${report}`);
+    },
+  };
+};
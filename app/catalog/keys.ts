@@ -0,0 +1,47 @@
+import type { Album } from "./types";
+
+/**
+ * Transforme un libellé en slug d'URL : "Frànçois & The Atlas Mountains"
+ * devient "francois-and-the-atlas-mountains".
+ */
+export const slugify = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Identifiant global d'un album : `groupId/albumSlug`
+export const albumKey = (groupId: string, albumSlug: string): string =>
+  `${groupId}/${albumSlug}`;
+
+export const parseAlbumKey = (
+  key: string
+): { groupId: string; albumSlug: string } | null => {
+  const [groupId, albumSlug, ...rest] = key.split("/");
+  if (!groupId || !albumSlug || rest.length > 0) return null;
+  return { groupId, albumSlug };
+};
+
+// Variante utilisable comme id d'élément DOM / sélecteur CSS (pas de "/")
+export const albumDomId = (key: string): string => key.replace("/", "--");
+
+/**
+ * Retrouve un album à partir de son slug, ou de l'ancien identifiant
+ * numérique (`?album=3`) pour que les liens existants continuent de marcher.
+ */
+export const findAlbumByRef = <T extends Pick<Album, "id" | "slug">>(
+  albums: T[],
+  ref: string
+): T | undefined =>
+  albums.find((album) => album.slug === ref) ??
+  (/^\d+$/.test(ref)
+    ? albums.find((album) => album.id === Number(ref))
+    : undefined);
+
+// URL canonique d'un album ; `/artist/:id?album=` redirige ici
+export const albumPath = (album: Pick<Album, "groupId" | "slug">): string =>
+  `/artist/${album.groupId}/album/${album.slug}`;
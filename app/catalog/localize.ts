@@ -0,0 +1,65 @@
+import { DEFAULT_LOCALE, TRANSLATED_LOCALES } from "../i18n/locales";
+import type { Locale, TranslatedLocale } from "../i18n/locales";
+import type { Album, Group, TextTranslation, Translations } from "./types";
+
+export const TRANSLATED_FIELDS = ["description", "short_description"] as const;
+
+type TranslatedField = (typeof TRANSLATED_FIELDS)[number];
+
+const translatedTexts = (
+  translations: Translations | undefined,
+  locale: Locale
+): TextTranslation =>
+  locale === DEFAULT_LOCALE ? {} : translations?.[locale] ?? {};
+
+/**
+ * Remplace les descriptions par leur traduction quand elle existe (sinon le
+ * français reste affiché) et retire les traductions du résultat.
+ */
+export const localizeAlbum = <T extends Album>(album: T, locale: Locale): T => {
+  const { translations, ...rest } = album;
+  return { ...rest, ...translatedTexts(translations, locale) } as T;
+};
+
+export const localizeGroup = (group: Group, locale: Locale): Group => {
+  const { translations, ...rest } = group;
+  return {
+    ...rest,
+    ...translatedTexts(translations, locale),
+    albums: group.albums.map((album) => localizeAlbum(album, locale)),
+  };
+};
+
+// Champs à plat des formulaires d'administration : `description_en`, …
+
+export type TranslationFieldName = `${TranslatedField}_${TranslatedLocale}`;
+
+export const TRANSLATION_FIELD_NAMES = TRANSLATED_LOCALES.flatMap((locale) =>
+  TRANSLATED_FIELDS.map((field) => `${field}_${locale}` as TranslationFieldName)
+);
+
+export const translationsToFields = (translations: Translations = {}) =>
+  Object.fromEntries(
+    TRANSLATED_LOCALES.flatMap((locale) =>
+      TRANSLATED_FIELDS.map((field) => [
+        `${field}_${locale}`,
+        translations[locale]?.[field] ?? "",
+      ])
+    )
+  ) as Record<TranslationFieldName, string>;
+
+// Les champs vides sont ignorés : le texte français sert alors de repli
+export const fieldsToTranslations = (
+  values: Partial<Record<TranslationFieldName, string>>
+): Translations | undefined => {
+  const translations: Translations = {};
+  TRANSLATED_LOCALES.forEach((locale) => {
+    const texts: TextTranslation = {};
+    TRANSLATED_FIELDS.forEach((field) => {
+      const text = values[`${field}_${locale}`]?.trim();
+      if (text) texts[field] = text;
+    });
+    if (Object.keys(texts).length > 0) translations[locale] = texts;
+  });
+  return Object.keys(translations).length > 0 ? translations : undefined;
+};
@@ -0,0 +1,163 @@
+import { DEFAULT_LOCALE, LOCALE_TAGS } from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { translate } from "../i18n/translate";
+import { DURATION_PATTERN, URL_PATTERN } from "./schema";
+import { LINK_TYPES } from "./types";
+import type { Album, ExternalLink, ExternalLinkType, Member, Track } from "./types";
+
+// Noms de marque, identiques dans toutes les langues
+const BRAND_LABELS: Partial<Record<ExternalLinkType, string>> = {
+  bandcamp: "Bandcamp",
+  spotify: "Spotify",
+  youtube: "YouTube",
+  instagram: "Instagram",
+};
+
+export const linkLabel = (link: ExternalLink, locale: Locale = DEFAULT_LOCALE) =>
+  link.label ??
+  BRAND_LABELS[link.type] ??
+  translate(locale, link.type === "official" ? "links.official" : "links.other");
+
+export const releaseYear = (album: Pick<Album, "releaseDate">) =>
+  album.releaseDate ? Number(album.releaseDate.slice(0, 4)) : undefined;
+
+/**
+ * Date de sortie lisible : « 2025 », « mars 2025 » ou « 14 mars 2025 »
+ * selon la précision saisie.
+ */
+export const formatReleaseDate = (
+  releaseDate: string,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const [year, month, day] = releaseDate.split("-").map(Number);
+  if (!month) return String(year);
+
+  const date = new Date(Date.UTC(year, month - 1, day ?? 1));
+  return new Intl.DateTimeFormat(LOCALE_TAGS[locale], {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "long",
+    ...(day ? { day: "numeric" } : {}),
+  }).format(date);
+};
+
+const toSeconds = (duration: string) => {
+  const [minutes, seconds] = duration.split(":").map(Number);
+  return minutes * 60 + seconds;
+};
+
+// Durée totale `m:ss`, seulement si tous les titres ont une durée
+export const totalDuration = (tracks: Track[]) => {
+  if (tracks.length === 0 || tracks.some((track) => !track.duration)) {
+    return undefined;
+  }
+  const total = tracks.reduce((sum, track) => sum + toSeconds(track.duration!), 0);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+// Du plus récent au plus ancien ; les albums sans date gardent leur ordre, à la fin
+export const sortDiscography = <T extends Pick<Album, "releaseDate">>(albums: T[]) =>
+  albums
+    .map((album, index) => ({ album, index }))
+    .sort((a, b) => {
+      const aDate = a.album.releaseDate;
+      const bDate = b.album.releaseDate;
+      if (aDate && bDate && aDate !== bDate) return bDate.localeCompare(aDate);
+      if (aDate && !bDate) return -1;
+      if (!aDate && bDate) return 1;
+      return a.index - b.index;
+    })
+    .map(({ album }) => album);
+
+// Saisie en texte libre dans l'administration, une entrée par ligne
+
+type TextParse<T> = { ok: true; value: T[] } | { ok: false; error: string };
+
+const lines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// « Titre | 4:05 », numérotés dans l'ordre des lignes
+export const formatTracklistText = (tracks: Track[] = []) =>
+  tracks
+    .map((track) => (track.duration ? `${track.title} | ${track.duration}` : track.title))
+    .join("\n");
+
+export const parseTracklistText = (text: string): TextParse<Track> => {
+  const tracks: Track[] = [];
+  for (const [index, line] of lines(text).entries()) {
+    const [title, duration] = line.split("|").map((part) => part.trim());
+    if (!title) {
+      return { ok: false, error: `Ligne ${index + 1} : titre manquant.` };
+    }
+    if (duration && !DURATION_PATTERN.test(duration)) {
+      return { ok: false, error: `Ligne ${index + 1} : durée « ${duration} » invalide (ex. 4:05).` };
+    }
+    tracks.push({ number: index + 1, title, ...(duration ? { duration } : {}) });
+  }
+  return { ok: true, value: tracks };
+};
+
+// « Nom : chant, guitare »
+export const formatMembersText = (members: Member[] = []) =>
+  members.map((member) => `${member.name} : ${member.roles.join(", ")}`).join("\n");
+
+export const parseMembersText = (text: string): TextParse<Member> => {
+  const members: Member[] = [];
+  for (const [index, line] of lines(text).entries()) {
+    const separator = line.indexOf(":");
+    const name = (separator === -1 ? line : line.slice(0, separator)).trim();
+    const roles =
+      separator === -1
+        ? []
+        : line
+            .slice(separator + 1)
+            .split(",")
+            .map((role) => role.trim())
+            .filter(Boolean);
+    if (!name || roles.length === 0) {
+      return { ok: false, error: `Ligne ${index + 1} : format attendu « Nom : rôle, rôle ».` };
+    }
+    members.push({ name, roles });
+  }
+  return { ok: true, value: members };
+};
+
+// « bandcamp https://… » suivi d'un libellé facultatif
+export const formatLinksText = (links: ExternalLink[] = []) =>
+  links
+    .map((link) => [link.type, link.url, link.label].filter(Boolean).join(" "))
+    .join("\n");
+
+export const parseLinksText = (text: string): TextParse<ExternalLink> => {
+  const links: ExternalLink[] = [];
+  for (const [index, line] of lines(text).entries()) {
+    const [type, url, ...label] = line.split(/\s+/);
+    if (!(LINK_TYPES as readonly string[]).includes(type)) {
+      return {
+        ok: false,
+        error: `Ligne ${index + 1} : type « ${type} » inconnu (${LINK_TYPES.join(", ")}).`,
+      };
+    }
+    if (!url || !URL_PATTERN.test(url)) {
+      return { ok: false, error: `Ligne ${index + 1} : URL http(s) attendue.` };
+    }
+    links.push({
+      type: type as ExternalLinkType,
+      url,
+      ...(label.length > 0 ? { label: label.join(" ") } : {}),
+    });
+  }
+  return { ok: true, value: links };
+};
+
+// Un artiste par ligne, doublons retirés
+export const formatInfluencesText = (influences: string[] = []) =>
+  influences.join("\n");
+
+export const parseInfluencesText = (text: string): TextParse<string> => ({
+  ok: true,
+  value: [...new Set(lines(text))],
+});
@@ -0,0 +1,123 @@
+import { LOCALES, LOCALE_TAGS } from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { slugify } from "./keys";
+import type { Group } from "./types";
+
+/**
+ * Pays du catalogue : clé d'URL → code ISO 3166-1 alpha-2, pour les libellés
+ * traduits, et numérique, identifiant du pays dans `app/data/world-110m.json`.
+ */
+export const COUNTRIES: Record<string, { code: string; geoId: string }> = {
+  belgium: { code: "BE", geoId: "056" },
+  canada: { code: "CA", geoId: "124" },
+  france: { code: "FR", geoId: "250" },
+  germany: { code: "DE", geoId: "276" },
+  ireland: { code: "IE", geoId: "372" },
+  sweden: { code: "SE", geoId: "752" },
+  "united-kingdom": { code: "GB", geoId: "826" },
+  "united-states": { code: "US", geoId: "840" },
+};
+
+// Noms de pays saisis en français ramenés à la clé anglaise du catalogue
+const COUNTRY_ALIASES: Record<string, string> = {
+  allemagne: "germany",
+  belgique: "belgium",
+  "etats-unis": "united-states",
+  irlande: "ireland",
+  "royaume-uni": "united-kingdom",
+  suede: "sweden",
+};
+
+// Adjectifs de nationalité, pour la recherche ("irish", "suédois")
+const DEMONYMS: Record<string, string[]> = {
+  belgium: ["belge", "belgian"],
+  canada: ["canadien", "canadienne", "canadian"],
+  france: ["français", "française", "french"],
+  germany: ["allemand", "allemande", "german"],
+  ireland: ["irlandais", "irlandaise", "irish"],
+  sweden: ["suédois", "suédoise", "swedish"],
+  "united-kingdom": [
+    "britannique",
+    "anglais",
+    "anglaise",
+    "british",
+    "english",
+  ],
+  "united-states": ["américain", "américaine", "american"],
+};
+
+const UNKNOWN_ORIGINS = new Set(["", "unknown", "inconnue", "inconnu"]);
+
+/**
+ * Clé de pays d'une origine libre : "France (Nantes)" et "France" donnent
+ * "france", "Irlande" et "Ireland" donnent "ireland". `null` si inconnue.
+ */
+export const originKey = (origin: string) => {
+  const key = slugify(origin.replace(/\(.*\)/, ""));
+  if (UNKNOWN_ORIGINS.has(key)) return null;
+  return COUNTRY_ALIASES[key] ?? key;
+};
+
+/**
+ * Nom du pays dans la langue de la page ; une clé hors de `COUNTRIES`
+ * est affichée telle quelle, tirets remplacés et majuscule initiale.
+ */
+export const countryName = (key: string, locale: Locale) => {
+  const code = COUNTRIES[key]?.code;
+  const name =
+    code &&
+    new Intl.DisplayNames([LOCALE_TAGS[locale]], { type: "region" }).of(code);
+  return name || key.charAt(0).toUpperCase() + key.slice(1).replace(/-/g, " ");
+};
+
+// Noms du pays dans chaque langue et adjectifs de nationalité
+export const countryLabels = (key: string) => [
+  ...new Set([
+    ...LOCALES.map((locale) => countryName(key, locale)),
+    ...(DEMONYMS[key] ?? []),
+  ]),
+];
+
+/**
+ * Clé de pays d'un libellé saisi : nom du pays en français ou en anglais,
+ * clé d'URL ou adjectif ("irish" donne "ireland"). `null` si inconnu.
+ */
+export const countryKeyFromLabel = (label: string) => {
+  const key = originKey(label);
+  if (key && COUNTRIES[key]) return key;
+  const slug = slugify(label);
+  return (
+    Object.keys(COUNTRIES).find((country) =>
+      countryLabels(country).some((candidate) => slugify(candidate) === slug)
+    ) ?? null
+  );
+};
+
+export const scenePath = (key: string) => `/scenes/${key}`;
+
+/**
+ * Groupes rangés par scène (pays d'origine), les plus fournies d'abord ;
+ * les groupes d'origine inconnue sont laissés de côté.
+ */
+export const groupScenes = <T extends Pick<Group, "origin">>(
+  groups: T[],
+  locale: Locale
+) => {
+  const scenes = new Map<string, T[]>();
+  groups.forEach((group) => {
+    const key = originKey(group.origin);
+    if (key) scenes.set(key, [...(scenes.get(key) ?? []), group]);
+  });
+  const collator = new Intl.Collator(LOCALE_TAGS[locale]);
+
+  return [...scenes]
+    .map(([key, members]) => ({
+      key,
+      name: countryName(key, locale),
+      groups: members,
+    }))
+    .sort(
+      (a, b) =>
+        b.groups.length - a.groups.length || collator.compare(a.name, b.name)
+    );
+};
@@ -0,0 +1,93 @@
+import { genreAncestors, groupGenreSlugs } from "./genres";
+import { slugify } from "./keys";
+import { originKey } from "./origins";
+import type { Group } from "./types";
+
+export const RECOMMENDATION_REASONS = ["scene", "genre", "influence"] as const;
+
+export type RecommendationReason = (typeof RECOMMENDATION_REASONS)[number];
+
+export interface Recommendation<T extends Group = Group> {
+  group: T;
+  reason: RecommendationReason;
+  score: number;
+}
+
+// Points par critère ; un genre commun pèse plus qu'une simple famille
+const WEIGHTS = {
+  sharedGenre: 3,
+  sharedFamily: 1,
+  sameScene: 2,
+  sharedInfluence: 2,
+  citedInfluence: 3,
+};
+
+const rootGenres = (slugs: string[]) =>
+  new Set(slugs.map((slug) => genreAncestors(slug)[0]?.slug));
+
+const influenceKeys = (group: Group) =>
+  new Set((group.influences ?? []).map(slugify));
+
+const scorePair = (group: Group, candidate: Group) => {
+  const genres = groupGenreSlugs(group);
+  const candidateGenres = groupGenreSlugs(candidate);
+  const sharedGenres = candidateGenres.filter((slug) => genres.includes(slug));
+  const roots = rootGenres(genres);
+  const sharesFamily = [...rootGenres(candidateGenres)].some((root) =>
+    roots.has(root)
+  );
+
+  const origin = originKey(group.origin);
+  const sameScene = origin !== null && origin === originKey(candidate.origin);
+
+  const influences = influenceKeys(group);
+  const candidateInfluences = influenceKeys(candidate);
+  const sharedInfluences = [...candidateInfluences].filter((key) =>
+    influences.has(key)
+  ).length;
+  // L'un des deux groupes cite l'autre comme influence
+  const cited =
+    influences.has(slugify(candidate.name)) ||
+    candidateInfluences.has(slugify(group.name));
+
+  const points: Record<RecommendationReason, number> = {
+    scene: sameScene ? WEIGHTS.sameScene : 0,
+    genre:
+      sharedGenres.length > 0
+        ? sharedGenres.length * WEIGHTS.sharedGenre
+        : sharesFamily
+        ? WEIGHTS.sharedFamily
+        : 0,
+    influence:
+      sharedInfluences * WEIGHTS.sharedInfluence +
+      (cited ? WEIGHTS.citedInfluence : 0),
+  };
+  const score = points.scene + points.genre + points.influence;
+  // Critère le plus fort ; à égalité, l'ordre de RECOMMENDATION_REASONS
+  const reason = RECOMMENDATION_REASONS.reduce((best, current) =>
+    points[current] > points[best] ? current : best
+  );
+
+  return { score, reason };
+};
+
+/**
+ * Groupes proches de `group` : genres de la taxonomie, même scène (pays
+ * d'origine) et influences déclarées. L'ordre est stable : score décroissant,
+ * puis identifiant.
+ */
+export const recommendGroups = <T extends Group>(
+  group: Group,
+  groups: T[],
+  limit = 4
+): Recommendation<T>[] =>
+  groups
+    .filter((candidate) => candidate.id !== group.id)
+    .map((candidate) => ({ group: candidate, ...scorePair(group, candidate) }))
+    .filter((recommendation) => recommendation.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.group.id < b.group.id ? -1 : a.group.id > b.group.id ? 1 : 0)
+    )
+    .slice(0, limit);
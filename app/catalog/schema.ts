@@ -0,0 +1,713 @@
+import { albumKey } from "./keys";
+import { TRANSLATED_LOCALES } from "../i18n/locales";
+import { TRANSLATED_FIELDS } from "./localize";
+import { ALBUM_FORMATS, LINK_TYPES } from "./types";
+import type {
+  Album,
+  ExternalLink,
+  Group,
+  Member,
+  Track,
+  Translations,
+} from "./types";
+
+export type CatalogIssueSeverity = "error" | "warning";
+
+export interface CatalogIssue {
+  severity: CatalogIssueSeverity;
+  // Chemin lisible vers le champ fautif, ex. `groups[3].albums[1].src`
+  path: string;
+  message: string;
+  groupId?: string;
+}
+
+export interface CatalogValidationOptions {
+  // Vérifie qu'un `src` existe bien sous `public/` (côté Node uniquement)
+  assetExists?: (src: string) => boolean;
+}
+
+export interface CatalogValidationResult {
+  groups: Group[];
+  issues: CatalogIssue[];
+  valid: boolean;
+}
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const RELEASE_DATE_PATTERN = /^\d{4}(?:-(?:0[1-9]|1[0-2])(?:-(?:0[1-9]|[12]\d|3[01]))?)?$/;
+
+export const DURATION_PATTERN = /^\d{1,3}:[0-5]\d$/;
+
+export const URL_PATTERN = /^https?:\/\/[^\s]+$/;
+
+const GROUP_FIELDS = [
+  "id",
+  "name",
+  "genre",
+  "origin",
+  "description",
+  "short_description",
+  "albums",
+  "ambiance",
+  "members",
+  "links",
+  "influences",
+  "translations",
+] as const;
+
+const ALBUM_FIELDS = [
+  "id",
+  "slug",
+  "title",
+  "src",
+  "alt",
+  "description",
+  "short_description",
+  "releaseDate",
+  "label",
+  "format",
+  "tracklist",
+  "links",
+  "translations",
+] as const;
+
+export class CatalogValidationError extends Error {
+  issues: CatalogIssue[];
+
+  constructor(issues: CatalogIssue[]) {
+    super(`Invalid catalog:\n${formatCatalogReport(issues)}`);
+    this.name = "CatalogValidationError";
+    this.issues = issues;
+  }
+}
+
+// Chemin d'URL décodable : un `%` isolé fait échouer `decodeURI`
+export const isEncodedPath = (src: string) => {
+  try {
+    decodeURI(src);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+export const validateCatalog = (
+  input: unknown,
+  options: CatalogValidationOptions = {}
+): CatalogValidationResult => {
+  const issues: CatalogIssue[] = [];
+  const groups: Group[] = [];
+
+  const report = (
+    severity: CatalogIssueSeverity,
+    path: string,
+    message: string,
+    groupId?: string
+  ) => {
+    issues.push({ severity, path, message, groupId });
+  };
+
+  if (!Array.isArray(input)) {
+    report("error", "groups", "The catalog must be an array of groups.");
+    return { groups, issues, valid: false };
+  }
+
+  // Champs de métadonnées facultatifs : `undefined` si absents, `null` si invalides
+  const checkLinks = (
+    value: unknown,
+    path: string,
+    groupId: string
+  ): ExternalLink[] | undefined | null => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      report("error", path, `"links" must be an array.`, groupId);
+      return null;
+    }
+    let valid = true;
+    const links = value.map((link, index) => {
+      const linkPath = `${path}[${index}]`;
+      if (!isRecord(link)) {
+        report("error", linkPath, "A link must be an object.", groupId);
+        valid = false;
+        return null;
+      }
+      if (!(LINK_TYPES as readonly unknown[]).includes(link.type)) {
+        report(
+          "error",
+          `${linkPath}.type`,
+          `Link type must be one of ${LINK_TYPES.join(", ")}, got ${JSON.stringify(link.type)}.`,
+          groupId
+        );
+        valid = false;
+      }
+      if (typeof link.url !== "string" || !URL_PATTERN.test(link.url)) {
+        report("error", `${linkPath}.url`, `Link url must be an http(s) URL.`, groupId);
+        valid = false;
+      }
+      if (link.label !== undefined && !isNonEmptyString(link.label)) {
+        report("error", `${linkPath}.label`, `"label" must be a non-empty string when present.`, groupId);
+        valid = false;
+      }
+      return {
+        type: link.type,
+        url: link.url,
+        ...(link.label !== undefined ? { label: link.label } : {}),
+      } as ExternalLink;
+    });
+    return valid ? (links as ExternalLink[]) : null;
+  };
+
+  const checkTracklist = (
+    value: unknown,
+    path: string,
+    groupId: string
+  ): Track[] | undefined | null => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      report("error", path, `"tracklist" must be an array.`, groupId);
+      return null;
+    }
+    let valid = true;
+    const seenNumbers = new Set<number>();
+    const tracks = value.map((track, index) => {
+      const trackPath = `${path}[${index}]`;
+      if (!isRecord(track)) {
+        report("error", trackPath, "A track must be an object.", groupId);
+        valid = false;
+        return null;
+      }
+      if (
+        typeof track.number !== "number" ||
+        !Number.isInteger(track.number) ||
+        track.number < 1
+      ) {
+        report(
+          "error",
+          `${trackPath}.number`,
+          `Track number must be a positive integer, got ${JSON.stringify(track.number)}.`,
+          groupId
+        );
+        valid = false;
+      } else if (seenNumbers.has(track.number)) {
+        report("error", `${trackPath}.number`, `Duplicate track number ${track.number}.`, groupId);
+        valid = false;
+      } else {
+        seenNumbers.add(track.number);
+      }
+      if (!isNonEmptyString(track.title)) {
+        report("error", `${trackPath}.title`, `Track title must be a non-empty string.`, groupId);
+        valid = false;
+      }
+      if (
+        track.duration !== undefined &&
+        (typeof track.duration !== "string" || !DURATION_PATTERN.test(track.duration))
+      ) {
+        report(
+          "error",
+          `${trackPath}.duration`,
+          `Track duration must look like "4:05", got ${JSON.stringify(track.duration)}.`,
+          groupId
+        );
+        valid = false;
+      }
+      return {
+        number: track.number,
+        title: track.title,
+        ...(track.duration !== undefined ? { duration: track.duration } : {}),
+      } as Track;
+    });
+    return valid
+      ? (tracks as Track[]).sort((a, b) => a.number - b.number)
+      : null;
+  };
+
+  const checkMembers = (
+    value: unknown,
+    path: string,
+    groupId: string
+  ): Member[] | undefined | null => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      report("error", path, `"members" must be an array.`, groupId);
+      return null;
+    }
+    let valid = true;
+    const members = value.map((member, index) => {
+      const memberPath = `${path}[${index}]`;
+      if (!isRecord(member)) {
+        report("error", memberPath, "A member must be an object.", groupId);
+        valid = false;
+        return null;
+      }
+      if (!isNonEmptyString(member.name)) {
+        report("error", `${memberPath}.name`, `Member name must be a non-empty string.`, groupId);
+        valid = false;
+      }
+      if (
+        !Array.isArray(member.roles) ||
+        member.roles.length === 0 ||
+        !member.roles.every(isNonEmptyString)
+      ) {
+        report(
+          "error",
+          `${memberPath}.roles`,
+          `"roles" must be a non-empty array of strings.`,
+          groupId
+        );
+        valid = false;
+      }
+      return { name: member.name, roles: member.roles } as Member;
+    });
+    return valid ? (members as Member[]) : null;
+  };
+
+  const checkTranslations = (
+    value: unknown,
+    path: string,
+    groupId: string
+  ): Translations | undefined | null => {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+      report("error", path, `"translations" must be an object keyed by locale.`, groupId);
+      return null;
+    }
+    let valid = true;
+    const translations: Translations = {};
+    Object.entries(value).forEach(([locale, texts]) => {
+      const localePath = `${path}.${locale}`;
+      if (!(TRANSLATED_LOCALES as string[]).includes(locale)) {
+        report(
+          "error",
+          localePath,
+          `Unknown translation locale "${locale}", expected one of ${TRANSLATED_LOCALES.join(", ")}.`,
+          groupId
+        );
+        valid = false;
+        return;
+      }
+      if (!isRecord(texts)) {
+        report("error", localePath, "A translation must be an object.", groupId);
+        valid = false;
+        return;
+      }
+      Object.entries(texts).forEach(([field, text]) => {
+        if (!(TRANSLATED_FIELDS as readonly string[]).includes(field)) {
+          report(
+            "error",
+            `${localePath}.${field}`,
+            `Only ${TRANSLATED_FIELDS.join(" and ")} can be translated.`,
+            groupId
+          );
+          valid = false;
+        } else if (!isNonEmptyString(text)) {
+          report("error", `${localePath}.${field}`, `Translated "${field}" is empty.`, groupId);
+          valid = false;
+        }
+      });
+      translations[locale as keyof Translations] = texts as Translations[keyof Translations];
+    });
+    return valid ? translations : null;
+  };
+
+  const seenGroupIds = new Map<string, string>();
+  const seenAlbumIds = new Map<number, string>();
+
+  input.forEach((rawGroup, groupIndex) => {
+    const groupPath = `groups[${groupIndex}]`;
+
+    if (!isRecord(rawGroup)) {
+      report("error", groupPath, "A group must be an object.");
+      return;
+    }
+
+    const groupId =
+      typeof rawGroup.id === "string" ? rawGroup.id : String(rawGroup.id);
+    let groupIsValid = true;
+
+    const requireText = (
+      record: Record<string, unknown>,
+      field: string,
+      path: string
+    ) => {
+      const value = record[field];
+      if (value === undefined) {
+        report("error", `${path}.${field}`, `Missing "${field}".`, groupId);
+        return false;
+      }
+      if (typeof value !== "string") {
+        report(
+          "error",
+          `${path}.${field}`,
+          `"${field}" must be a string, got ${typeof value}.`,
+          groupId
+        );
+        return false;
+      }
+      if (!value.trim()) {
+        report("error", `${path}.${field}`, `"${field}" is empty.`, groupId);
+        return false;
+      }
+      return true;
+    };
+
+    if (typeof rawGroup.id !== "string") {
+      report(
+        "error",
+        `${groupPath}.id`,
+        `Group id must be a string, got ${typeof rawGroup.id} (${String(rawGroup.id)}).`,
+        groupId
+      );
+      groupIsValid = false;
+    } else if (!SLUG_PATTERN.test(rawGroup.id)) {
+      report(
+        "error",
+        `${groupPath}.id`,
+        `Group id "${rawGroup.id}" is not a URL slug (lowercase letters, digits and dashes only).`,
+        groupId
+      );
+      groupIsValid = false;
+    } else if (seenGroupIds.has(rawGroup.id)) {
+      report(
+        "error",
+        `${groupPath}.id`,
+        `Duplicate group id "${rawGroup.id}", already used by ${seenGroupIds.get(rawGroup.id)}.`,
+        groupId
+      );
+      groupIsValid = false;
+    } else {
+      seenGroupIds.set(rawGroup.id, groupPath);
+    }
+
+    for (const field of [
+      "name",
+      "genre",
+      "origin",
+      "description",
+      "short_description",
+    ]) {
+      groupIsValid = requireText(rawGroup, field, groupPath) && groupIsValid;
+    }
+
+    if (rawGroup.ambiance !== undefined && !isNonEmptyString(rawGroup.ambiance)) {
+      report(
+        "error",
+        `${groupPath}.ambiance`,
+        `"ambiance" must be a non-empty string when present.`,
+        groupId
+      );
+      groupIsValid = false;
+    }
+
+    if (
+      rawGroup.influences !== undefined &&
+      (!Array.isArray(rawGroup.influences) ||
+        !rawGroup.influences.every(isNonEmptyString))
+    ) {
+      report(
+        "error",
+        `${groupPath}.influences`,
+        `"influences" must be an array of non-empty strings.`,
+        groupId
+      );
+      groupIsValid = false;
+    }
+
+    const members = checkMembers(rawGroup.members, `${groupPath}.members`, groupId);
+    const groupLinks = checkLinks(rawGroup.links, `${groupPath}.links`, groupId);
+    const groupTranslations = checkTranslations(
+      rawGroup.translations,
+      `${groupPath}.translations`,
+      groupId
+    );
+    if (members === null || groupLinks === null || groupTranslations === null) {
+      groupIsValid = false;
+    }
+
+    for (const field of Object.keys(rawGroup)) {
+      if (!(GROUP_FIELDS as readonly string[]).includes(field)) {
+        report(
+          "warning",
+          `${groupPath}.${field}`,
+          `Unknown field "${field}" will be ignored.`,
+          groupId
+        );
+      }
+    }
+
+    const albums: Album[] = [];
+    const seenAlbumSlugs = new Map<string, string>();
+
+    if (!Array.isArray(rawGroup.albums)) {
+      report("error", `${groupPath}.albums`, `"albums" must be an array.`, groupId);
+      groupIsValid = false;
+    } else if (rawGroup.albums.length === 0) {
+      report("error", `${groupPath}.albums`, "A group needs at least one album.", groupId);
+      groupIsValid = false;
+    } else {
+      rawGroup.albums.forEach((rawAlbum, albumIndex) => {
+        const albumPath = `${groupPath}.albums[${albumIndex}]`;
+
+        if (!isRecord(rawAlbum)) {
+          report("error", albumPath, "An album must be an object.", groupId);
+          groupIsValid = false;
+          return;
+        }
+
+        let albumIsValid = true;
+
+        if (
+          typeof rawAlbum.id !== "number" ||
+          !Number.isInteger(rawAlbum.id) ||
+          rawAlbum.id < 0
+        ) {
+          report(
+            "error",
+            `${albumPath}.id`,
+            `Album id must be a non-negative integer, got ${JSON.stringify(rawAlbum.id)}.`,
+            groupId
+          );
+          albumIsValid = false;
+        } else if (seenAlbumIds.has(rawAlbum.id)) {
+          report(
+            "error",
+            `${albumPath}.id`,
+            `Duplicate album id ${rawAlbum.id}, already used by ${seenAlbumIds.get(rawAlbum.id)}.`,
+            groupId
+          );
+          albumIsValid = false;
+        } else {
+          seenAlbumIds.set(rawAlbum.id, albumPath);
+        }
+
+        if (typeof rawAlbum.slug !== "string") {
+          report(
+            "error",
+            `${albumPath}.slug`,
+            `Missing album "slug".`,
+            groupId
+          );
+          albumIsValid = false;
+        } else if (!SLUG_PATTERN.test(rawAlbum.slug)) {
+          report(
+            "error",
+            `${albumPath}.slug`,
+            `Album slug "${rawAlbum.slug}" is not a URL slug (lowercase letters, digits and dashes only).`,
+            groupId
+          );
+          albumIsValid = false;
+        } else if (seenAlbumSlugs.has(rawAlbum.slug)) {
+          report(
+            "error",
+            `${albumPath}.slug`,
+            `Duplicate album slug "${rawAlbum.slug}" in this group, already used by ${seenAlbumSlugs.get(rawAlbum.slug)}.`,
+            groupId
+          );
+          albumIsValid = false;
+        } else {
+          seenAlbumSlugs.set(rawAlbum.slug, albumPath);
+        }
+
+        for (const field of ["title", "src", "alt", "description", "short_description"]) {
+          albumIsValid = requireText(rawAlbum, field, albumPath) && albumIsValid;
+        }
+
+        if (typeof rawAlbum.src === "string" && rawAlbum.src.trim()) {
+          if (rawAlbum.src !== rawAlbum.src.trim()) {
+            report(
+              "error",
+              `${albumPath}.src`,
+              `"src" has leading or trailing whitespace: "${rawAlbum.src}".`,
+              groupId
+            );
+            albumIsValid = false;
+          } else if (!rawAlbum.src.startsWith("/")) {
+            report(
+              "error",
+              `${albumPath}.src`,
+              `"src" must be an absolute path under public/, got "${rawAlbum.src}".`,
+              groupId
+            );
+            albumIsValid = false;
+          } else if (!isEncodedPath(rawAlbum.src)) {
+            report(
+              "error",
+              `${albumPath}.src`,
+              `"src" is not a valid path (malformed "%" escape): "${rawAlbum.src}".`,
+              groupId
+            );
+            albumIsValid = false;
+          } else if (options.assetExists && !options.assetExists(rawAlbum.src)) {
+            report(
+              "error",
+              `${albumPath}.src`,
+              `File public${rawAlbum.src} does not exist.`,
+              groupId
+            );
+            albumIsValid = false;
+          }
+        }
+
+        if (
+          rawAlbum.releaseDate !== undefined &&
+          (typeof rawAlbum.releaseDate !== "string" ||
+            !RELEASE_DATE_PATTERN.test(rawAlbum.releaseDate))
+        ) {
+          report(
+            "error",
+            `${albumPath}.releaseDate`,
+            `"releaseDate" must be YYYY, YYYY-MM or YYYY-MM-DD, got ${JSON.stringify(rawAlbum.releaseDate)}.`,
+            groupId
+          );
+          albumIsValid = false;
+        }
+
+        if (rawAlbum.label !== undefined && !isNonEmptyString(rawAlbum.label)) {
+          report(
+            "error",
+            `${albumPath}.label`,
+            `"label" must be a non-empty string when present.`,
+            groupId
+          );
+          albumIsValid = false;
+        }
+
+        if (
+          rawAlbum.format !== undefined &&
+          !(ALBUM_FORMATS as readonly unknown[]).includes(rawAlbum.format)
+        ) {
+          report(
+            "error",
+            `${albumPath}.format`,
+            `"format" must be one of ${ALBUM_FORMATS.join(", ")}, got ${JSON.stringify(rawAlbum.format)}.`,
+            groupId
+          );
+          albumIsValid = false;
+        }
+
+        const tracklist = checkTracklist(rawAlbum.tracklist, `${albumPath}.tracklist`, groupId);
+        const albumLinks = checkLinks(rawAlbum.links, `${albumPath}.links`, groupId);
+        const albumTranslations = checkTranslations(
+          rawAlbum.translations,
+          `${albumPath}.translations`,
+          groupId
+        );
+        if (tracklist === null || albumLinks === null || albumTranslations === null) {
+          albumIsValid = false;
+        }
+
+        for (const field of Object.keys(rawAlbum)) {
+          if (!(ALBUM_FIELDS as readonly string[]).includes(field)) {
+            report(
+              "warning",
+              `${albumPath}.${field}`,
+              `Unknown field "${field}" will be ignored.`,
+              groupId
+            );
+          }
+        }
+
+        if (albumIsValid) {
+          albums.push({
+            id: rawAlbum.id as number,
+            slug: rawAlbum.slug as string,
+            key: albumKey(groupId, rawAlbum.slug as string),
+            title: rawAlbum.title as string,
+            src: rawAlbum.src as string,
+            alt: rawAlbum.alt as string,
+            description: rawAlbum.description as string,
+            short_description: rawAlbum.short_description as string,
+            ...(rawAlbum.releaseDate !== undefined
+              ? { releaseDate: rawAlbum.releaseDate as string }
+              : {}),
+            ...(rawAlbum.label !== undefined ? { label: rawAlbum.label as string } : {}),
+            ...(rawAlbum.format !== undefined
+              ? { format: rawAlbum.format as Album["format"] }
+              : {}),
+            ...(tracklist ? { tracklist } : {}),
+            ...(albumLinks ? { links: albumLinks } : {}),
+            ...(albumTranslations ? { translations: albumTranslations } : {}),
+          });
+        } else {
+          groupIsValid = false;
+        }
+      });
+    }
+
+    if (groupIsValid) {
+      groups.push({
+        id: rawGroup.id as string,
+        name: rawGroup.name as string,
+        genre: rawGroup.genre as string,
+        origin: rawGroup.origin as string,
+        description: rawGroup.description as string,
+        short_description: rawGroup.short_description as string,
+        ...(rawGroup.ambiance !== undefined
+          ? { ambiance: rawGroup.ambiance as string }
+          : {}),
+        ...(members ? { members } : {}),
+        ...(groupLinks ? { links: groupLinks } : {}),
+        ...(rawGroup.influences !== undefined
+          ? { influences: rawGroup.influences as string[] }
+          : {}),
+        ...(groupTranslations ? { translations: groupTranslations } : {}),
+        albums,
+      });
+    }
+  });
+
+  return {
+    groups,
+    issues,
+    valid: !issues.some((issue) => issue.severity === "error"),
+  };
+};
+
+/**
+ * Valide le catalogue et lève une `CatalogValidationError` s'il contient
+ * au moins une erreur. Les avertissements sont tolérés.
+ */
+export const parseCatalog = (
+  input: unknown,
+  options: CatalogValidationOptions = {}
+): Group[] => {
+  const result = validateCatalog(input, options);
+  if (!result.valid) {
+    throw new CatalogValidationError(result.issues);
+  }
+  return result.groups;
+};
+
+export const formatCatalogReport = (issues: CatalogIssue[]): string => {
+  if (issues.length === 0) {
+    return "Catalog OK: no issues found.";
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const warnings = issues.filter((issue) => issue.severity === "warning");
+  const lines: string[] = [];
+
+  const byGroup = new Map<string, CatalogIssue[]>();
+  issues.forEach((issue) => {
+    const key = issue.groupId ?? "(catalog)";
+    byGroup.set(key, [...(byGroup.get(key) ?? []), issue]);
+  });
+
+  byGroup.forEach((groupIssues, groupId) => {
+    lines.push(`● ${groupId}`);
+    groupIssues.forEach((issue) => {
+      const label = issue.severity === "error" ? "ERROR  " : "WARNING";
+      lines.push(`    ${label} ${issue.path}: ${issue.message}`);
+    });
+  });
+
+  lines.push("");
+  lines.push(`${errors.length} error(s), ${warnings.length} warning(s).`);
+
+  return lines.join("\n");
+};
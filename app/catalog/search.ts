@@ -0,0 +1,478 @@
+import { matchText, prepareText, queryTokens } from "./fuzzy";
+import type { MatchRange, PreparedText } from "./fuzzy";
+import {
+  findGenre,
+  genreName,
+  groupGenreSlugs,
+  isInGenre,
+  splitGenre,
+} from "./genres";
+import { albumPath } from "./keys";
+import { releaseYear } from "./metadata";
+import { countryKeyFromLabel, countryLabels, originKey } from "./origins";
+import type { Album, Group } from "./types";
+
+export type { MatchRange };
+
+// Full-text search page, also the target of the home page `SearchAction`
+export const SEARCH_PATH = "/search";
+
+export const searchPath = (searchQuery: string) =>
+  `${SEARCH_PATH}?${new URLSearchParams({ q: searchQuery })}`;
+
+export type SearchType = "artist" | "album";
+
+// Why a result matched, when it is not the name; labelled by the UI
+export interface SearchMatch {
+  field:
+    | "member"
+    | "track"
+    | "label"
+    | "year"
+    | "genre"
+    | "origin"
+    | "description";
+  value: string;
+  ranges: MatchRange[]; // Highlighted characters of `value`
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string; // Group id, or the global album key (`groupId/slug`)
+  name: string;
+  ranges: MatchRange[]; // Highlighted characters of `name`
+  score: number;
+  artist?: string; // For albums, the artist id
+  genre: string; // The group genre, albums included
+  match?: SearchMatch;
+  data: Group | Album;
+}
+
+// What the search overlay shows of a result, without the catalog entry
+export interface SearchSuggestion {
+  type: SearchType;
+  id: string;
+  name: string;
+  ranges: MatchRange[];
+  match?: SearchMatch;
+  genre: string;
+  groupId?: string; // For albums, the artist id
+  groupName?: string; // For albums, the artist name
+  path: string; // Page of the artist or album, not localized
+}
+
+export interface SearchFilters {
+  genre?: string;
+  origin?: string;
+  type?: SearchType;
+}
+
+export interface SearchFacets {
+  types: Record<SearchType, number>;
+  genres: { slug: string; count: number }[];
+}
+
+type SearchField = SearchMatch["field"] | "name" | "short_description";
+
+// Points of a perfect match per field; the name always wins
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 1,
+  member: 0.8,
+  genre: 0.75,
+  track: 0.7,
+  origin: 0.7,
+  label: 0.6,
+  year: 0.6,
+  short_description: 0.5,
+  description: 0.4,
+};
+
+// Only names forgive typos: a misspelt name must not match a country or genre
+const TYPO_FIELDS = new Set<SearchField>(["name", "member", "track", "label"]);
+
+interface IndexedField {
+  field: SearchField;
+  values: PreparedText[];
+}
+
+interface SearchDocument {
+  type: SearchType;
+  id: string;
+  name: PreparedText;
+  group: Group;
+  album?: Album;
+  year?: string;
+  fields: IndexedField[];
+}
+
+const OPERATORS = ["genre", "origin", "type"] as const;
+
+const TYPE_ALIASES: Record<string, SearchType> = {
+  artist: "artist",
+  artists: "artist",
+  artiste: "artist",
+  artistes: "artist",
+  album: "album",
+  albums: "album",
+};
+
+const OPERATOR_PATTERN = /\b(genre|origin|type):("[^"]*"?|\S+)/gi;
+
+/**
+ * Splits `genre:shoegaze origin:"united kingdom" noise` into its operators
+ * and the free text. Unknown operator values are kept as given.
+ */
+export const parseSearchQuery = (searchQuery: string) => {
+  const filters: SearchFilters = {};
+  const text = searchQuery.replace(
+    OPERATOR_PATTERN,
+    (_, key: string, raw: string) => {
+      const value = raw.replace(/"/g, "").trim();
+      const operator = key.toLowerCase() as (typeof OPERATORS)[number];
+      if (operator === "type") {
+        const type = TYPE_ALIASES[value.toLowerCase()];
+        if (type) filters.type = type;
+      } else if (value) {
+        filters[operator] = value;
+      }
+      return " ";
+    }
+  );
+  return { filters, words: queryTokens(text) };
+};
+
+// Replaces (or removes, without value) an operator in a query
+export const withOperator = (
+  searchQuery: string,
+  operator: (typeof OPERATORS)[number],
+  value?: string
+) => {
+  const rest = searchQuery
+    .replace(OPERATOR_PATTERN, (token, key: string) =>
+      key.toLowerCase() === operator ? "" : token
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!value) return rest;
+  const token = `${operator}:${/\s/.test(value) ? `"${value}"` : value}`;
+  return rest ? `${rest} ${token}` : token;
+};
+
+const texts = (values: (string | undefined)[]) =>
+  values.filter((value): value is string => Boolean(value)).map(prepareText);
+
+// Genre names as written on the group, then from the taxonomy in each language
+const genreTexts = (group: Group) =>
+  texts([
+    group.genre,
+    ...splitGenre(group.genre).flatMap((part) =>
+      part.genre ? [genreName(part.genre, "en")] : []
+    ),
+  ]);
+
+const originTexts = (group: Group) => {
+  const key = originKey(group.origin);
+  return texts([group.origin, ...(key ? countryLabels(key) : [])]);
+};
+
+const descriptionFields = (item: Group | Album): IndexedField[] => {
+  const english = item.translations?.en;
+  return [
+    {
+      field: "short_description",
+      values: texts([item.short_description, english?.short_description]),
+    },
+    {
+      field: "description",
+      values: texts([item.description, english?.description]),
+    },
+  ];
+};
+
+const groupDocument = (group: Group): SearchDocument => ({
+  type: "artist",
+  id: group.id,
+  name: prepareText(group.name),
+  group,
+  fields: [
+    {
+      field: "member",
+      values: texts((group.members ?? []).map((member) => member.name)),
+    },
+    { field: "genre", values: genreTexts(group) },
+    { field: "origin", values: originTexts(group) },
+    ...descriptionFields(group),
+  ],
+});
+
+const albumDocument = (group: Group, album: Album): SearchDocument => ({
+  type: "album",
+  id: album.key,
+  name: prepareText(album.title),
+  group,
+  album,
+  year: String(releaseYear(album) ?? ""),
+  fields: [
+    {
+      field: "track",
+      values: texts((album.tracklist ?? []).map((track) => track.title)),
+    },
+    { field: "label", values: texts([album.label]) },
+    ...descriptionFields(album),
+  ],
+});
+
+/**
+ * Every artist and album with its texts tokenized once; rebuilt only when
+ * the repository hands over a new list of groups.
+ */
+const indexes = new WeakMap<Group[], SearchDocument[]>();
+
+const searchIndex = (groups: Group[]) => {
+  let index = indexes.get(groups);
+  if (!index) {
+    index = groups.flatMap((group) => [
+      groupDocument(group),
+      ...group.albums.map((album) => albumDocument(group, album)),
+    ]);
+    indexes.set(groups, index);
+  }
+  return index;
+};
+
+// Genre and origin operators use the taxonomy and country keys when they can
+const filterDocument = (filters: SearchFilters) => {
+  const genre = filters.genre && findGenre(filters.genre);
+  const country = filters.origin && countryKeyFromLabel(filters.origin);
+
+  return (document: SearchDocument) => {
+    const { group } = document;
+    if (filters.type && document.type !== filters.type) return false;
+    if (filters.genre) {
+      if (
+        genre
+          ? !isInGenre(group, genre.slug)
+          : !matchText(filters.genre, group.genre, { typos: false })
+      ) {
+        return false;
+      }
+    }
+    if (filters.origin) {
+      if (
+        country
+          ? originKey(group.origin) !== country
+          : !matchText(filters.origin, group.origin, { typos: false })
+      ) {
+        return false;
+      }
+    }
+    return true;
+  };
+};
+
+interface WordHit {
+  field: SearchField;
+  value: PreparedText;
+  score: number;
+  ranges: MatchRange[];
+}
+
+// Best field for one word of the query, weighted
+const bestHit = (document: SearchDocument, word: string) => {
+  const candidates = [
+    { field: "name" as SearchField, value: document.name },
+    ...document.fields.flatMap(({ field, values }) =>
+      values.map((value) => ({ field, value }))
+    ),
+  ];
+
+  let best: WordHit | null = null;
+  for (const { field, value } of candidates) {
+    const match = matchText([word], value, {
+      typos: TYPO_FIELDS.has(field),
+    });
+    if (!match) continue;
+    const score = match.score * FIELD_WEIGHTS[field];
+    if (!best || score > best.score) {
+      best = { field, value, score, ranges: match.ranges };
+    }
+  }
+
+  // A year is only found as typed
+  if (document.year === word && (!best || FIELD_WEIGHTS.year > best.score)) {
+    best = {
+      field: "year",
+      value: prepareText(word),
+      score: FIELD_WEIGHTS.year,
+      ranges: [[0, word.length]],
+    };
+  }
+  return best;
+};
+
+// Keeps long texts readable: a window around the highlighted words
+const EXCERPT_RADIUS = 40;
+
+const excerpt = (text: string, ranges: MatchRange[]) => {
+  if (text.length <= EXCERPT_RADIUS * 3) return { value: text, ranges };
+  const start = Math.max(
+    0,
+    text.lastIndexOf(" ", Math.max(0, ranges[0][0] - EXCERPT_RADIUS)) + 1
+  );
+  const last = ranges[ranges.length - 1][1];
+  const cut = text.indexOf(" ", last + EXCERPT_RADIUS);
+  const end = cut === -1 ? text.length : cut;
+  const prefix = start > 0 ? "… " : "";
+  const shift = prefix.length - start;
+  return {
+    value: `${prefix}${text.slice(start, end)}${end < text.length ? " …" : ""}`,
+    ranges: ranges
+      .filter(([, rangeEnd]) => rangeEnd <= end)
+      .map(
+        ([rangeStart, rangeEnd]): MatchRange => [
+          rangeStart + shift,
+          rangeEnd + shift,
+        ]
+      ),
+  };
+};
+
+const mergeRanges = (hits: WordHit[]) =>
+  hits
+    .flatMap((hit) => hit.ranges)
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+      else merged.push([...range]);
+      return merged;
+    }, []);
+
+// Secondary field shown under the name: the one that weighs most in the score
+const secondaryMatch = (
+  document: SearchDocument,
+  hits: WordHit[]
+): SearchMatch | undefined => {
+  const others = hits.filter(
+    (hit): hit is WordHit & { field: Exclude<SearchField, "name"> } =>
+      hit.field !== "name"
+  );
+  if (others.length === 0) return undefined;
+  const top = others.reduce((best, hit) =>
+    hit.score > best.score ? hit : best
+  );
+  const sameValue = others.filter((hit) => hit.value === top.value);
+  const field = top.field === "short_description" ? "description" : top.field;
+
+  // Country names and demonyms are shown as the origin written on the group
+  if (field === "origin" && top.value.text !== document.group.origin) {
+    return { field, value: document.group.origin, ranges: [] };
+  }
+  if (field === "description") {
+    return { field, ...excerpt(top.value.text, mergeRanges(sameValue)) };
+  }
+  return { field, value: top.value.text, ranges: mergeRanges(sameValue) };
+};
+
+const scoreDocument = (document: SearchDocument, words: string[]) => {
+  // Filters alone list everything they let through
+  if (words.length === 0) return { score: 1, ranges: [] };
+
+  const whole = matchText(words, document.name);
+  const hits: WordHit[] = [];
+  for (const word of words) {
+    const hit = bestHit(document, word);
+    if (!hit) return null;
+    hits.push(hit);
+  }
+
+  const score =
+    hits.reduce((total, hit) => total + hit.score, 0) / words.length;
+  if (whole && whole.score >= score)
+    return { score: whole.score, ranges: whole.ranges };
+  return {
+    score,
+    ranges: mergeRanges(hits.filter((hit) => hit.field === "name")),
+    match: secondaryMatch(document, hits),
+  };
+};
+
+/**
+ * Searches names, lineups, tracklists, labels, genres, origins and
+ * descriptions (French and English), weighted by field. Accepts the
+ * `genre:`, `origin:` and `type:` operators.
+ */
+export const searchCatalog = (
+  groups: Group[],
+  searchQuery: string
+): SearchResult[] => {
+  const { filters, words } = parseSearchQuery(searchQuery);
+  if (words.length === 0 && Object.keys(filters).length === 0) return [];
+
+  const results: SearchResult[] = [];
+  searchIndex(groups)
+    .filter(filterDocument(filters))
+    .forEach((document) => {
+      const scored = scoreDocument(document, words);
+      if (!scored) return;
+
+      const { group, album } = document;
+      results.push({
+        type: document.type,
+        id: document.id,
+        name: document.name.text,
+        ranges: scored.ranges,
+        score: scored.score,
+        genre: group.genre,
+        ...(album ? { artist: group.id } : {}),
+        ...(scored.match ? { match: scored.match } : {}),
+        data: album
+          ? { ...album, groupId: group.id, groupName: group.name }
+          : group,
+      });
+    });
+
+  // Best matches first, then artists before albums
+  return results.sort((a, b) => {
+    if (a.score !== b.score) return b.score - a.score;
+
+    if (a.type !== b.type) {
+      return a.type === "artist" ? -1 : 1;
+    }
+
+    return a.name.localeCompare(b.name);
+  });
+};
+
+// Results per type and per taxonomy genre, most common genres first
+export const searchFacets = (results: SearchResult[]): SearchFacets => {
+  const types: Record<SearchType, number> = { artist: 0, album: 0 };
+  const genres = new Map<string, number>();
+  results.forEach((result) => {
+    types[result.type] += 1;
+    groupGenreSlugs(result).forEach((slug) =>
+      genres.set(slug, (genres.get(slug) ?? 0) + 1)
+    );
+  });
+
+  return {
+    types,
+    genres: [...genres]
+      .map(([slug, count]) => ({ slug, count }))
+      .sort((a, b) => b.count - a.count || a.slug.localeCompare(b.slug)),
+  };
+};
+
+export const toSearchSuggestion = (result: SearchResult): SearchSuggestion => {
+  const album = result.type === "album" ? (result.data as Album) : undefined;
+  return {
+    type: result.type,
+    id: result.id,
+    name: result.name,
+    ranges: result.ranges,
+    ...(result.match ? { match: result.match } : {}),
+    genre: result.genre,
+    ...(album ? { groupId: album.groupId, groupName: album.groupName } : {}),
+    path: album ? albumPath(album) : `/artist/${result.id}`,
+  };
+};
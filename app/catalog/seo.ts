@@ -0,0 +1,197 @@
+import type { MetaDescriptor } from "react-router";
+import { LOCALE_TAGS, localizePath } from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { splitGenre } from "./genres";
+import { albumPath } from "./keys";
+import { SEARCH_PATH } from "./search";
+import type { Album, AlbumFormat, Group } from "./types";
+
+const SITE_NAME = "ECHOS";
+
+interface SocialCard {
+  title: string;
+  description: string;
+  // URL absolues
+  url: string;
+  image?: string;
+  imageAlt?: string;
+  type?: "website" | "profile" | "music.album";
+  locale: Locale;
+}
+
+/**
+ * Balises OpenGraph et Twitter d'une page, à ajouter au retour de `meta()`.
+ * Sans image, la carte Twitter reste en petit format.
+ */
+export const socialMeta = ({
+  title,
+  description,
+  url,
+  image,
+  imageAlt,
+  type = "website",
+  locale,
+}: SocialCard): MetaDescriptor[] => [
+  { property: "og:site_name", content: SITE_NAME },
+  { property: "og:type", content: type },
+  { property: "og:title", content: title },
+  { property: "og:description", content: description },
+  { property: "og:url", content: url },
+  { property: "og:locale", content: LOCALE_TAGS[locale].replace("-", "_") },
+  ...(image
+    ? [
+        { property: "og:image", content: image },
+        ...(imageAlt ? [{ property: "og:image:alt", content: imageAlt }] : []),
+      ]
+    : []),
+  { name: "twitter:card", content: image ? "summary_large_image" : "summary" },
+  { name: "twitter:title", content: title },
+  { name: "twitter:description", content: description },
+  ...(image ? [{ name: "twitter:image", content: image }] : []),
+];
+
+// URL absolue sous laquelle indexer une page joignable par plusieurs adresses
+// (préfixe de langue, anciens paramètres, redirections)
+export const canonicalLink = (url: string): MetaDescriptor => ({
+  tagName: "link",
+  rel: "canonical",
+  href: url,
+});
+
+export const jsonLdMeta = (data: object): MetaDescriptor => ({
+  "script:ld+json": data,
+});
+
+// Types de sortie schema.org ; les lives et compilations n'en ont pas
+const RELEASE_TYPES: Partial<Record<AlbumFormat, string>> = {
+  LP: "AlbumRelease",
+  EP: "EPRelease",
+  Single: "SingleRelease",
+};
+
+// "4:05" → "PT4M5S" (ISO 8601)
+const isoDuration = (duration: string) => {
+  const [minutes, seconds] = duration.split(":").map(Number);
+  return `PT${minutes}M${seconds}S`;
+};
+
+const genreLabels = (group: Pick<Group, "genre">) =>
+  splitGenre(group.genre).map((part) => part.label);
+
+const absolute = (origin: string, path: string, locale: Locale) =>
+  origin + localizePath(path, locale);
+
+// Résumé d'album, pour la liste `album` d'un `MusicGroup`
+const albumSummary = (album: Album, origin: string, locale: Locale) => ({
+  "@type": "MusicAlbum",
+  name: album.title,
+  url: absolute(origin, albumPath(album), locale),
+  image: new URL(album.src, origin).href,
+  ...(album.releaseDate ? { datePublished: album.releaseDate } : {}),
+});
+
+/**
+ * Données structurées `MusicGroup` d'une page artiste : genres, origine,
+ * membres, liens externes et discographie.
+ */
+export const musicGroupJsonLd = (
+  group: Group,
+  origin: string,
+  locale: Locale
+) => ({
+  "@context": "https://schema.org",
+  "@type": "MusicGroup",
+  "@id": absolute(origin, `/artist/${group.id}`, locale),
+  name: group.name,
+  url: absolute(origin, `/artist/${group.id}`, locale),
+  description: group.description,
+  genre: genreLabels(group),
+  foundingLocation: { "@type": "Place", name: group.origin },
+  ...(group.albums[0]
+    ? { image: new URL(group.albums[0].src, origin).href }
+    : {}),
+  ...(group.members && group.members.length > 0
+    ? {
+        member: group.members.map((member) => ({
+          "@type": "Person",
+          name: member.name,
+        })),
+      }
+    : {}),
+  ...(group.links && group.links.length > 0
+    ? { sameAs: group.links.map((link) => link.url) }
+    : {}),
+  album: group.albums.map((album) => albumSummary(album, origin, locale)),
+});
+
+/**
+ * Données structurées `MusicAlbum` d'une page album, avec le groupe en
+ * `byArtist` et la liste des titres quand elle est connue.
+ */
+export const musicAlbumJsonLd = (
+  album: Album,
+  group: Group,
+  origin: string,
+  locale: Locale
+) => ({
+  "@context": "https://schema.org",
+  ...albumSummary(album, origin, locale),
+  description: album.description,
+  genre: genreLabels(group),
+  byArtist: {
+    "@type": "MusicGroup",
+    "@id": absolute(origin, `/artist/${group.id}`, locale),
+    name: group.name,
+    url: absolute(origin, `/artist/${group.id}`, locale),
+  },
+  ...(album.label
+    ? { recordLabel: { "@type": "Organization", name: album.label } }
+    : {}),
+  ...(album.format && RELEASE_TYPES[album.format]
+    ? { albumReleaseType: RELEASE_TYPES[album.format] }
+    : {}),
+  ...(album.tracklist && album.tracklist.length > 0
+    ? {
+        numTracks: album.tracklist.length,
+        track: album.tracklist.map((track) => ({
+          "@type": "MusicRecording",
+          name: track.title,
+          position: track.number,
+          ...(track.duration ? { duration: isoDuration(track.duration) } : {}),
+        })),
+      }
+    : {}),
+});
+
+// Éditeur du site et recherche interne, pour l'accueil
+export const websiteJsonLd = (origin: string, locale: Locale) => ({
+  "@context": "https://schema.org",
+  "@graph": [
+    {
+      "@type": "Organization",
+      "@id": `${origin}/#organization`,
+      name: SITE_NAME,
+      url: origin + localizePath("/", locale),
+      logo: `${origin}/assets/images/logo_echos.svg`,
+    },
+    {
+      "@type": "WebSite",
+      "@id": `${origin}/#website`,
+      name: SITE_NAME,
+      url: origin + localizePath("/", locale),
+      inLanguage: LOCALE_TAGS[locale],
+      publisher: { "@id": `${origin}/#organization` },
+      potentialAction: {
+        "@type": "SearchAction",
+        target: {
+          "@type": "EntryPoint",
+          urlTemplate: `${origin}${localizePath(
+            SEARCH_PATH,
+            locale
+          )}?q={search_term_string}`,
+        },
+        "query-input": "required name=search_term_string",
+      },
+    },
+  ],
+});
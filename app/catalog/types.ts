@@ -0,0 +1,140 @@
+import type { TranslatedLocale } from "../i18n/locales";
+
+export const ALBUM_FORMATS = ["LP", "EP", "Single", "Live", "Compilation"] as const;
+
+export type AlbumFormat = (typeof ALBUM_FORMATS)[number];
+
+export const LINK_TYPES = [
+  "official",
+  "bandcamp",
+  "spotify",
+  "youtube",
+  "instagram",
+  "other",
+] as const;
+
+export type ExternalLinkType = (typeof LINK_TYPES)[number];
+
+export interface ExternalLink {
+  type: ExternalLinkType;
+  url: string;
+  // Libellé affiché pour `other`, facultatif sinon
+  label?: string;
+}
+
+export interface Track {
+  number: number;
+  title: string;
+  // Durée au format `m:ss`
+  duration?: string;
+}
+
+export interface Member {
+  name: string;
+  roles: string[];
+}
+
+// Textes traduits ; les champs de base sont en français
+export interface TextTranslation {
+  description?: string;
+  short_description?: string;
+}
+
+export type Translations = Partial<Record<TranslatedLocale, TextTranslation>>;
+
+export interface Album {
+  id: number;
+  // Unique au sein du groupe, utilisé dans les URLs
+  slug: string;
+  // Identifiant global `groupId/slug`, calculé au chargement du catalogue
+  key: string;
+  title: string;
+  src: string;
+  alt: string;
+  description: string;
+  short_description: string;
+  // `YYYY`, `YYYY-MM` ou `YYYY-MM-DD`
+  releaseDate?: string;
+  label?: string;
+  format?: AlbumFormat;
+  tracklist?: Track[];
+  links?: ExternalLink[];
+  translations?: Translations;
+  groupId?: string;
+  groupName?: string;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  genre: string;
+  origin: string;
+  albums: Album[];
+  description: string;
+  short_description: string;
+  ambiance?: string;
+  members?: Member[];
+  links?: ExternalLink[];
+  // Artistes cités par la rédaction, dans ou hors du catalogue
+  influences?: string[];
+  translations?: Translations;
+}
+
+// Taxonomie des genres (`app/data/genres.json`)
+export interface Genre {
+  slug: string;
+  name: string;
+  // Genre parent, absent pour les genres racines
+  parent?: string;
+  // Autres libellés du champ libre `Group.genre` rattachés à ce genre
+  aliases?: string[];
+  translations?: Partial<Record<TranslatedLocale, { name: string }>>;
+}
+
+export interface CrewMember {
+  id: string;
+  name: string;
+  role: string;
+  // Chemin sous `public/`
+  photo: string;
+  bio: string;
+  // Clés d'albums du catalogue (`groupId/albumSlug`)
+  favorites: string[];
+  translations?: Partial<
+    Record<TranslatedLocale, { role?: string; bio?: string }>
+  >;
+}
+
+export interface Festival {
+  slug: string;
+  name: string;
+  // Dates de l'édition, `YYYY-MM-DD`
+  startDate: string;
+  endDate: string;
+  venue: string;
+  city: string;
+  country: string;
+  // Chemin sous `public/`, en général l'image du carrousel
+  image: string;
+  ticketUrl: string;
+  // Identifiants des groupes du catalogue à l'affiche
+  lineup: string[];
+  description: string;
+  translations?: Partial<Record<TranslatedLocale, { description?: string }>>;
+}
+
+export interface CarouselItem {
+  id: number;
+  title: string;
+  description: string;
+  image: string;
+  link: string;
+  buttonText: string;
+}
+
+// Champs saisis par les éditeurs ; les identifiants dérivés sont calculés par le dépôt
+export type GroupInput = Omit<Group, "albums">;
+
+export type AlbumInput = Omit<Album, "id" | "key" | "groupId" | "groupName">;
+
+export type CarouselItemInput = Omit<CarouselItem, "id">;
@@ -0,0 +1,119 @@
+import { Link, isRouteErrorResponse } from "react-router";
+import Navigation from "./Navigation";
+import { useI18n } from "../contexts/I18nContext";
+import { useScrollEffect } from "../hooks/useScrollEffect";
+import type { Locale } from "../i18n/locales";
+import { translate } from "../i18n/translate";
+import type { ErrorPageData } from "../.server/errors";
+
+// Statuts qui ont leur propre page ; les autres erreurs serveur tombent sur 500
+const PAGES = [404, 410, 500] as const;
+
+type ErrorPageStatus = (typeof PAGES)[number];
+
+export const errorStatus = (error: unknown): number =>
+  isRouteErrorResponse(error) ? error.status : 500;
+
+const pageStatus = (status: number): ErrorPageStatus | null =>
+  (PAGES as readonly number[]).includes(status)
+    ? (status as ErrorPageStatus)
+    : status >= 500
+      ? 500
+      : null;
+
+export const errorTitle = (error: unknown, locale: Locale) => {
+  const status = pageStatus(errorStatus(error));
+  const title = translate(locale, status ? `error.${status}.title` : "error.title");
+  return `${title} - ECHOS`;
+};
+
+// Suggestions jointes par `notFound()` / `gone()` dans `.server/errors`
+const errorData = (error: unknown): ErrorPageData | null =>
+  isRouteErrorResponse(error) &&
+  typeof error.data === "object" &&
+  error.data !== null &&
+  Array.isArray(error.data.suggestions)
+    ? (error.data as ErrorPageData)
+    : null;
+
+interface ErrorPageProps {
+  error: unknown;
+}
+
+const ErrorPage = ({ error }: ErrorPageProps) => {
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+  const status = errorStatus(error);
+  const page = pageStatus(status);
+  const suggestions = errorData(error)?.suggestions ?? [];
+  const stack =
+    import.meta.env.DEV && error instanceof Error ? error.stack : undefined;
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <main className="min-h-screen container flex flex-col gap-12 m-auto text-white mt-32 py-16">
+        <div>
+          <p className="text-[12rem] leading-none font-bold title-stroke red" aria-hidden="true">
+            {status}
+          </p>
+          <h1 className="text-8xl font-bold mb-6">
+            {page ? t(`error.${page}.title`) : t("error.title")}
+          </h1>
+          <p className="text-3xl text-white/70">
+            {page
+              ? t(`error.${page}.text`)
+              : isRouteErrorResponse(error) && error.statusText
+                ? error.statusText
+                : t("error.unexpected")}
+          </p>
+        </div>
+
+        {suggestions.length > 0 && (
+          <div>
+            <h2 className="text-5xl font-bold mb-6 title-stroke red">
+              {t("error.suggestions")}
+            </h2>
+            <ul className="flex flex-col gap-3 text-3xl">
+              {suggestions.map((suggestion) => (
+                <li key={suggestion.path}>
+                  <Link
+                    to={localize(suggestion.path)}
+                    className="text-white no-underline hover:text-[#B5252A]"
+                  >
+                    {suggestion.name}
+                  </Link>{" "}
+                  <span className="text-xl text-white/50">
+                    {suggestion.type === "artist"
+                      ? t("search.artist")
+                      : `${t("search.album")} • ${suggestion.artist}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-6">
+          <Link to={localize("/")} className="button-red">
+            {t("common.backHome")}
+          </Link>
+          <Link
+            to={localize("/artists")}
+            className="text-2xl px-6 py-3 border border-white/30 rounded-xs text-white no-underline hover:bg-white hover:text-black transition-colors"
+          >
+            {t("error.allArtists")}
+          </Link>
+        </div>
+
+        {stack && (
+          <pre className="w-full p-4 overflow-x-auto bg-white/10 text-lg">
+            <code>{stack}</code>
+          </pre>
+        )}
+      </main>
+    </>
+  );
+};
+
+export default ErrorPage;
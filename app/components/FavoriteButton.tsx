@@ -0,0 +1,55 @@
+import { useI18n } from "../contexts/I18nContext";
+import { useFavorites } from "../hooks/useFavorites";
+import type { FavoriteInput } from "../hooks/useFavorites";
+
+// Cœur dessiné dans une boîte de 24 × 24
+export const HEART_PATH =
+  "M12 21s-7.5-4.6-9.6-9.2C1 8.6 3 5 6.6 5c2 0 3.4 1.1 5.4 3 2-1.9 3.4-3 5.4-3C21 5 23 8.6 21.6 11.8 19.5 16.4 12 21 12 21z";
+
+interface FavoriteButtonProps {
+  album: FavoriteInput;
+  className?: string;
+}
+
+// Cœur à bascule : ajoute l'album à la collection ou l'en retire
+const FavoriteButton = ({ album, className = "" }: FavoriteButtonProps) => {
+  const { t } = useI18n();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const isSaved = isFavorite(`${album.groupId}/${album.slug}`);
+
+  return (
+    <button
+      type="button"
+      aria-pressed={isSaved}
+      aria-label={t(isSaved ? "favorites.remove" : "favorites.add", {
+        title: album.title,
+      })}
+      title={t(isSaved ? "favorites.remove" : "favorites.add", {
+        title: album.title,
+      })}
+      onClick={(event) => {
+        // Ni lien parent suivi, ni carte sélectionnée
+        event.preventDefault();
+        event.stopPropagation();
+        toggleFavorite(album);
+      }}
+      className={`inline-flex items-center justify-center size-12 rounded-full bg-black/60 transition-colors hover:bg-black/80 ${
+        isSaved ? "text-[#B5252A]" : "text-white"
+      } ${className}`}
+    >
+      <svg
+        width="24"
+        height="24"
+        viewBox="0 0 24 24"
+        fill={isSaved ? "currentColor" : "none"}
+        stroke="currentColor"
+        strokeWidth="2"
+        aria-hidden="true"
+      >
+        <path d={HEART_PATH} />
+      </svg>
+    </button>
+  );
+};
+
+export default FavoriteButton;
@@ -1,6 +1,9 @@
 import React from 'react';
+import { useI18n } from '~/contexts/I18nContext';
 
 export default function Footer() {
+  const { t, localize } = useI18n();
+
   return (
     <footer className="bg-[#2424247b] text-white py-12">
       <div className="container mx-auto px-4">
@@ -15,41 +18,49 @@ export default function Footer() {
               />
             </div>
             <p className="text-gray-300 text-lg leading-relaxed font-sourcesans3">
-              ECHOS, pas de règles, juste du rock. 
-              Une plateforme dédiée à la découverte des groupes de musique underground 
-              et des artistes émergents.
+              {t("footer.tagline")}
             </p>
           </div>
 
           {/* Quick Links */}
           <div>
             <h3 className="text-xl font-tungsten font-bold mb-4 text-[#B5252A]">
-              LIENS RAPIDES
+              {t("footer.quickLinks")}
             </h3>
             <ul className="space-y-2 font-sourcesans3">
               <li>
-                <a href="/" className="text-gray-300 hover:text-[#B5252A] transition-colors">
-                  Accueil
+                <a href={localize("/")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.home")}
+                </a>
+              </li>
+              <li>
+                <a href={localize("/artists")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.artists")}
+                </a>
+              </li>
+              <li>
+                <a href={localize("/scenes")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.scenes")}
                 </a>
               </li>
               <li>
-                <a href="/artists" className="text-gray-300 hover:text-[#B5252A] transition-colors">
-                  Artistes
+                <a href={localize("/festivals")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.festivals")}
                 </a>
               </li>
               <li>
-                <a href="/groups" className="text-gray-300 hover:text-[#B5252A] transition-colors">
-                  Groupes
+                <a href={localize("/ma-collection")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.collection")}
                 </a>
               </li>
               <li>
-                <a href="/contact" className="text-gray-300 hover:text-[#B5252A] transition-colors">
-                  Contact
+                <a href={localize("/contact")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.contact")}
                 </a>
               </li>
               <li>
-                <a href="/about" className="text-gray-300 hover:text-[#B5252A] transition-colors">
-                  À propos
+                <a href={localize("/about")} className="text-gray-300 hover:text-[#B5252A] transition-colors">
+                  {t("footer.about")}
                 </a>
               </li>
             </ul>
@@ -58,7 +69,7 @@ export default function Footer() {
           {/* Social Links */}
           <div>
             <h3 className="text-xl font-tungsten font-bold mb-4 text-[#B5252A]">
-              SUIVEZ-NOUS
+              {t("footer.follow")}
             </h3>
             <div className="flex space-x-4">
               <a 
@@ -104,14 +115,14 @@ export default function Footer() {
         {/* Bottom Section */}
         <div className="border-t border-gray-600 mt-8 pt-8 flex flex-col md:flex-row justify-between items-center">
           <p className="text-gray-400 font-sourcesans3 text-sm">
-            © 2025 ECHOS. Tous droits réservés.
+            {t("footer.rights")}
           </p>
           <div className="flex space-x-6 mt-4 md:mt-0">
-            <a href="/privacy" className="text-gray-400 hover:text-white text-sm font-sourcesans3 transition-colors">
-              Politique de confidentialité
+            <a href={localize("/privacy")} className="text-gray-400 hover:text-white text-sm font-sourcesans3 transition-colors">
+              {t("footer.privacy")}
             </a>
-            <a href="/terms" className="text-gray-400 hover:text-white text-sm font-sourcesans3 transition-colors">
-              Conditions d'utilisation
+            <a href={localize("/terms")} className="text-gray-400 hover:text-white text-sm font-sourcesans3 transition-colors">
+              {t("footer.terms")}
             </a>
           </div>
         </div>
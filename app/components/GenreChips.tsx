@@ -0,0 +1,41 @@
+import { Link } from "react-router";
+import { genreName, genrePath, splitGenre } from "~/catalog/genres";
+import { useI18n } from "~/contexts/I18nContext";
+
+interface GenreChipsProps {
+  // Champ libre `Group.genre`, ex. "Shoegaze / Noise Rock"
+  genre: string;
+  size?: "md" | "sm";
+}
+
+const SIZES = {
+  md: "text-2xl px-4 py-1",
+  sm: "text-base px-2 py-0.5",
+};
+
+// Les genres absents de la taxonomie restent affichés, sans lien
+const GenreChips = ({ genre, size = "md" }: GenreChipsProps) => {
+  const { locale, t, localize } = useI18n();
+  const className = `inline-block rounded-full border border-white/30 ${SIZES[size]}`;
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label={t("genre.chips")}>
+      {splitGenre(genre).map((part) => (
+        <li key={part.label}>
+          {part.genre ? (
+            <Link
+              to={localize(genrePath(part.genre.slug))}
+              className={`${className} text-white no-underline hover:bg-white hover:text-black transition-colors`}
+            >
+              {genreName(part.genre, locale)}
+            </Link>
+          ) : (
+            <span className={`${className} text-white/70`}>{part.label}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default GenreChips;
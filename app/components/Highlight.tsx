@@ -0,0 +1,26 @@
+import type { MatchRange } from "~/catalog/search";
+
+interface HighlightProps {
+  text: string;
+  // Plages reconnues par la recherche, triées et sans chevauchement
+  ranges: MatchRange[];
+}
+
+const Highlight = ({ text, ranges }: HighlightProps) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-transparent text-[#B5252A] font-bold">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default Highlight;
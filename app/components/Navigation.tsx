@@ -1,7 +1,13 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
+import { Link, useLocation } from "react-router";
+import { useI18n } from "~/contexts/I18nContext";
+import { useSearchShortcut } from "~/hooks/useSearchShortcut";
+import { LOCALES, LOCALE_LABELS, localizePath } from "~/i18n/locales";
 import SearchBar from "./SearchBar";
 
 const Navigation = ({ isScrolled }: { isScrolled: boolean }) => {
+  const { locale, t, localize } = useI18n();
+  const location = useLocation();
   const [isLanguageOpen, setIsLanguageOpen] = useState(false);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
 
@@ -17,52 +23,47 @@ const Navigation = ({ isScrolled }: { isScrolled: boolean }) => {
     setIsSearchOpen(false);
   };
 
+  useSearchShortcut(useCallback(() => setIsSearchOpen(true), []));
+
   const handleLanguageKeyDown = (
     event: React.KeyboardEvent<HTMLDivElement>
   ) => {
-    if (event.key === "Enter" || event.key === " ") {
-      event.preventDefault();
-      handleLanguageToggle();
+    if (event.key === "Escape") {
+      setIsLanguageOpen(false);
     }
   };
 
+  // Même page, dans l'autre langue
+  const currentPath = `${location.pathname}${location.search}${location.hash}`;
+
   return (
     <nav
       className={`flex items-center justify-between bg-black/60 p-4 px-16 h-32 absolute top-0 left-0 right-0 z-50 ${
         isScrolled ? "scrolled" : ""
       }`}
       role="navigation"
-      aria-label="Navigation principale"
+      aria-label={t("nav.label")}
     >
       <ul className="flex items-center gap-16 text-white text-3xl">
-      <li>
-          <a href="/#rocknroulette" aria-label="Section Notre crew">
-            Rock'n'Roulette
-          </a>
+        <li>
+          <a href={localize("/#rocknroulette")}>Rock'n'Roulette</a>
         </li>
         <li>
-          <a
-            href="/#branches-marginales"
-            aria-label="Section Branches Marginals"
-          >
-            Branches Marginales
-          </a>
+          <a href={localize("/#branches-marginales")}>Branches Marginales</a>
         </li>
         <li>
-          <a href="/#collage-monde" aria-label="Section Âmes rebelles">
-            Nos Rookies
-          </a>
+          <a href={localize("/#collage-monde")}>{t("nav.rookies")}</a>
         </li>
         <li>
-  <a href="/notre-crew" aria-label="Section Notre crew">Notre crew</a>
-  </li>
+          <a href={localize("/notre-crew")}>{t("nav.crew")}</a>
+        </li>
       </ul>
 
       <div className="absolute left-1/2 transform -translate-x-1/2">
         <img
           className="w-28 h-28"
-          src="/public/assets/images/logo_echos.svg"
-          alt="Logo ECHOS"
+          src="/assets/images/logo_echos.svg"
+          alt={t("nav.logoAlt")}
         />
       </div>
 
@@ -71,7 +72,10 @@ const Navigation = ({ isScrolled }: { isScrolled: boolean }) => {
           className="search text-white text-3xl mr-8 cursor-pointer"
           role="button"
           tabIndex={0}
-          aria-label="Rechercher"
+          aria-label={t("nav.search")}
+          aria-haspopup="dialog"
+          aria-expanded={isSearchOpen}
+          aria-keyshortcuts="/ Control+K"
           onClick={handleSearchToggle}
           onKeyDown={(e) => {
             if (e.key === "Enter" || e.key === " ") {
@@ -86,21 +90,47 @@ const Navigation = ({ isScrolled }: { isScrolled: boolean }) => {
             </span>
           </div>
         </div>
-        <div
-          className="lang text-white text-3xl flex items-center flex-col"
-          role="button"
-          tabIndex={0}
-          aria-label="Changer de langue"
-          onClick={handleLanguageToggle}
-          onKeyDown={handleLanguageKeyDown}
-        >
-          <span className="h-8">FR</span>
-          <span
-            aria-hidden="true"
-            className="font-hitmepunk transform rotate-[280deg] inline-block"
+        <div className="relative" onKeyDown={handleLanguageKeyDown}>
+          <button
+            type="button"
+            className="lang text-white text-3xl flex items-center flex-col cursor-pointer"
+            aria-label={t("nav.language")}
+            aria-haspopup="true"
+            aria-expanded={isLanguageOpen}
+            aria-controls="language-menu"
+            onClick={handleLanguageToggle}
           >
-            {"<"}
-          </span>
+            <span className="h-8">{locale.toUpperCase()}</span>
+            <span
+              aria-hidden="true"
+              className="font-hitmepunk transform rotate-[280deg] inline-block"
+            >
+              {"<"}
+            </span>
+          </button>
+          {isLanguageOpen && (
+            <ul
+              id="language-menu"
+              className="absolute right-0 top-full mt-2 bg-black/90 border border-white/20 rounded-xs py-2 text-2xl"
+            >
+              {LOCALES.map((target) => (
+                <li key={target}>
+                  <Link
+                    to={localizePath(currentPath, target)}
+                    lang={target}
+                    hrefLang={target}
+                    aria-current={target === locale ? "true" : undefined}
+                    className={`block px-6 py-2 whitespace-nowrap no-underline hover:bg-white hover:text-black ${
+                      target === locale ? "text-[#B5252A]" : "text-white"
+                    }`}
+                    onClick={() => setIsLanguageOpen(false)}
+                  >
+                    {LOCALE_LABELS[target]}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
@@ -1,27 +1,161 @@
 import { useRef, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router";
 import { useSearch } from "../hooks/useSearch";
-import type { SearchResult } from "../hooks/useSearch";
+import type { SearchSuggestion } from "../hooks/useSearch";
+import { rememberSearch, useSearchHistory } from "../hooks/useSearchHistory";
+import { genreName, splitGenre } from "../catalog/genres";
+import { searchPath } from "../catalog/search";
+import { useI18n } from "../contexts/I18nContext";
+import Highlight from "./Highlight";
+import SearchFacets from "./SearchFacets";
+import SearchMatchLabel from "./SearchMatchLabel";
 
 interface SearchBarProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Une entrée de la liste : résultat, action rapide ou élément d'historique
+interface PaletteOption {
+  key: string;
+  section: "results" | "actions" | "searches" | "artists";
+  label: React.ReactNode;
+  detail?: React.ReactNode;
+  kind: string;
+  onSelect: () => void;
+}
+
+const LISTBOX_ID = "search-listbox";
+
+const optionId = (index: number) => `search-option-${index}`;
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input, [tabindex]:not([tabindex="-1"])';
+
 const SearchBar = ({ isOpen, onClose }: SearchBarProps) => {
-  const { searchQuery, setSearchQuery, searchResults, clearSearch } = useSearch();
+  const { locale, t, localize } = useI18n();
+  const {
+    searchQuery,
+    setSearchQuery,
+    searchResults,
+    searchFacets,
+    isSearching,
+    clearSearch,
+  } = useSearch();
+  const { searches, artists, clearHistory } = useSearchHistory(isOpen);
+  const navigate = useNavigate();
   const [selectedIndex, setSelectedIndex] = useState(-1);
+  const dialogRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const resultsRef = useRef<HTMLDivElement>(null);
+  const query = searchQuery.trim();
 
+  // Focus sur le champ à l'ouverture, rendu à l'élément d'origine à la fermeture
   useEffect(() => {
-    if (isOpen && inputRef.current) {
-      inputRef.current.focus();
-    }
+    if (!isOpen) return;
+    const previous = document.activeElement;
+    inputRef.current?.focus();
+    return () => {
+      if (previous instanceof HTMLElement) previous.focus();
+    };
   }, [isOpen]);
 
   useEffect(() => {
     setSelectedIndex(-1);
-  }, [searchResults]);
+  }, [searchResults, isOpen, query]);
+
+  useEffect(() => {
+    if (selectedIndex >= 0) {
+      document
+        .getElementById(optionId(selectedIndex))
+        ?.scrollIntoView({ block: "nearest" });
+    }
+  }, [selectedIndex]);
+
+  const closeAndNavigate = (to: string) => {
+    clearSearch();
+    onClose();
+    navigate(to);
+  };
+
+  const openResult = (result: SearchSuggestion) => {
+    rememberSearch(query);
+    closeAndNavigate(localize(result.path));
+  };
+
+  const openSearchPage = () => {
+    rememberSearch(query);
+    closeAndNavigate(localize(searchPath(query)));
+  };
+
+  const genreLabel = (genre: string) =>
+    splitGenre(genre)
+      .map((part) => (part.genre ? genreName(part.genre, locale) : part.label))
+      .join(" / ");
+
+  // Champ vide : actions rapides et historique ; sinon, les résultats
+  const options: PaletteOption[] = query
+    ? searchResults.map((result) => ({
+        key: result.id,
+        section: "results",
+        label: <Highlight text={result.name} ranges={result.ranges} />,
+        detail: (
+          <>
+            {result.type === "artist" ? genreLabel(result.genre) : result.groupName}
+            {result.match && (
+              <>
+                {" • "}
+                <SearchMatchLabel match={result.match} />
+              </>
+            )}
+          </>
+        ),
+        kind: t(result.type === "artist" ? "search.artist" : "search.album"),
+        onSelect: () => openResult(result),
+      }))
+    : [
+        {
+          key: "random-album",
+          section: "actions",
+          label: t("search.action.randomAlbum"),
+          kind: t("search.action"),
+          onSelect: () => closeAndNavigate(localize("/random-album")),
+        },
+        {
+          key: "all-artists",
+          section: "actions",
+          label: t("search.action.allArtists"),
+          kind: t("search.action"),
+          onSelect: () => closeAndNavigate(localize("/artists")),
+        },
+        {
+          key: "collection",
+          section: "actions",
+          label: t("search.action.collection"),
+          kind: t("search.action"),
+          onSelect: () => closeAndNavigate(localize("/ma-collection")),
+        },
+        ...searches.map(
+          (recent): PaletteOption => ({
+            key: `search:${recent}`,
+            section: "searches",
+            label: recent,
+            kind: t("search.recent"),
+            onSelect: () => {
+              setSearchQuery(recent);
+              inputRef.current?.focus();
+            },
+          })
+        ),
+        ...artists.map(
+          (artist): PaletteOption => ({
+            key: `artist:${artist.id}`,
+            section: "artists",
+            label: artist.name,
+            kind: t("search.artist"),
+            onSelect: () => closeAndNavigate(localize(`/artist/${artist.id}`)),
+          })
+        ),
+      ];
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Escape") {
@@ -30,36 +164,41 @@ const SearchBar = ({ isOpen, onClose }: SearchBarProps) => {
       return;
     }
 
-    if (e.key === "ArrowDown") {
+    if (e.key === "ArrowDown" && options.length > 0) {
       e.preventDefault();
-      setSelectedIndex((prev) => 
-        prev < searchResults.length - 1 ? prev + 1 : 0
-      );
+      setSelectedIndex((prev) => (prev < options.length - 1 ? prev + 1 : 0));
     }
 
-    if (e.key === "ArrowUp") {
+    if (e.key === "ArrowUp" && options.length > 0) {
       e.preventDefault();
-      setSelectedIndex((prev) => 
-        prev > 0 ? prev - 1 : searchResults.length - 1
-      );
+      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : options.length - 1));
     }
 
-    if (e.key === "Enter" && selectedIndex >= 0) {
+    if (e.key === "Enter" && options[selectedIndex]) {
+      e.preventDefault();
+      options[selectedIndex].onSelect();
+    } else if (e.key === "Enter" && query) {
+      // Sans entrée sélectionnée, Entrée ouvre la page de recherche
       e.preventDefault();
-      handleResultClick(searchResults[selectedIndex]);
+      openSearchPage();
     }
   };
 
-  const handleResultClick = (result: SearchResult) => {
-    
-    if (result.type === "artist") {
-        window.location.href = `/artist/${result.id}`;
-    } else {
-        window.location.href = `/artist/${result.artist}?album=${result.id}`;
+  // Tab et Maj+Tab restent dans la boîte de dialogue
+  const handleDialogKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== "Tab" || !dialogRef.current) return;
+    const focusable = Array.from(
+      dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)
+    );
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
     }
-    
-    clearSearch();
-    onClose();
   };
 
   const handleOverlayClick = (e: React.MouseEvent) => {
@@ -70,26 +209,57 @@ const SearchBar = ({ isOpen, onClose }: SearchBarProps) => {
 
   if (!isOpen) return null;
 
+  const sections = (["results", "actions", "searches", "artists"] as const)
+    .map((section) => ({
+      section,
+      options: options
+        .map((option, index) => ({ option, index }))
+        .filter(({ option }) => option.section === section),
+    }))
+    .filter(({ options: sectionOptions }) => sectionOptions.length > 0);
+  const activeOption = options[selectedIndex];
+
   return (
-    <div 
+    <div
       className="fixed inset-0 bg-black/80 z-[100] flex items-start justify-center pt-32"
       onClick={handleOverlayClick}
     >
-      <div className="bg-black/80 rounded-md w-full max-w-3xl mx-5 shadow-3xl">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("search.dialog")}
+        onKeyDown={handleDialogKeyDown}
+        className="bg-black/80 rounded-md w-full max-w-3xl mx-5 shadow-3xl"
+      >
         <div className="p-6">
           <div className="relative">
             <input
               ref={inputRef}
               type="text"
+              role="combobox"
+              aria-label={t("search.label")}
+              aria-expanded={options.length > 0}
+              aria-controls={LISTBOX_ID}
+              aria-autocomplete="list"
+              aria-activedescendant={
+                activeOption ? optionId(selectedIndex) : undefined
+              }
+              autoComplete="off"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Rechercher un artiste ou un album..."
+              placeholder={t("search.placeholder")}
               className="w-full bg-black/80 text-white text-3xl px-5 py-6 rounded-xs border border-white/10 focus:border-white focus:outline-none"
             />
             {searchQuery && (
               <button
-                onClick={clearSearch}
+                type="button"
+                onClick={() => {
+                  clearSearch();
+                  inputRef.current?.focus();
+                }}
+                aria-label={t("search.clear")}
                 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-white/40 hover:text-white"
               >
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
@@ -99,50 +269,112 @@ const SearchBar = ({ isOpen, onClose }: SearchBarProps) => {
             )}
           </div>
 
-          {searchResults.length > 0 && (
-            <div 
-              ref={resultsRef}
-              className="mt-4 max-h-96 overflow-y-auto border border-white/10 rounded-xs"
-            >
-              {searchResults.map((result, index) => (
-                <div
-                  key={result.id}
-                  className={`p-4 cursor-pointer border-b border-gray-700 last:border-b-0 hover:bg-white/15 transition-colors ${
-                    index === selectedIndex ? "bg-white/20" : "bg-white/10"
-                  }`}
-                  onClick={() => handleResultClick(result)}
-                >
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <div className="text-white font-medium">{result.name}</div>
-                      <div className="text-white/20 text-lg">
-                        {result.type === "artist" ? (
-                          <span>Artiste • {result.genre}</span>
-                        ) : (
-                          <span>Album • {result.artist}</span>
+          {query && searchFacets && searchResults.length > 0 && (
+            <div className="mt-4">
+              <SearchFacets
+                query={searchQuery}
+                facets={searchFacets}
+                onChange={(next) => {
+                  setSearchQuery(next);
+                  inputRef.current?.focus();
+                }}
+              />
+            </div>
+          )}
+
+          <div
+            id={LISTBOX_ID}
+            role="listbox"
+            aria-label={t("search.suggestions")}
+            className={
+              options.length > 0
+                ? "mt-4 max-h-96 overflow-y-auto border border-white/10 rounded-xs"
+                : ""
+            }
+          >
+            {sections.map(({ section, options: sectionOptions }) => (
+              <div
+                key={section}
+                role="group"
+                aria-labelledby={section === "results" ? undefined : `search-section-${section}`}
+                aria-label={section === "results" ? t("search.results") : undefined}
+              >
+                {section !== "results" && (
+                  <div
+                    id={`search-section-${section}`}
+                    role="presentation"
+                    className="px-4 pt-3 pb-1 text-sm uppercase text-white/40"
+                  >
+                    {t(`search.section.${section}`)}
+                  </div>
+                )}
+                {sectionOptions.map(({ option, index }) => (
+                  <div
+                    key={option.key}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    className={`p-4 cursor-pointer border-b border-gray-700 last:border-b-0 hover:bg-white/15 transition-colors ${
+                      index === selectedIndex ? "bg-white/20" : "bg-white/10"
+                    }`}
+                    onMouseMove={() => setSelectedIndex(index)}
+                    onClick={option.onSelect}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <div className="text-white font-medium">{option.label}</div>
+                        {option.detail && (
+                          <div className="text-white/40 text-lg">{option.detail}</div>
                         )}
                       </div>
-                    </div>
-                    <div className="text-gray-500 text-xs uppercase font-medium">
-                      {result.type === "artist" ? "ARTISTE" : "ALBUM"}
+                      <div className="text-gray-500 text-xs uppercase font-medium">
+                        {option.kind}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {query && searchResults.length > 0 && (
+            <Link
+              to={localize(searchPath(query))}
+              onClick={() => {
+                rememberSearch(query);
+                clearSearch();
+                onClose();
+              }}
+              className="mt-4 block text-center text-xl text-white hover:text-[#B5252A]"
+            >
+              {t("search.all")} →
+            </Link>
           )}
 
-          {searchQuery && searchResults.length === 0 && (
-            <div className="mt-4 p-4 text-center text-white/40">
-              Aucun résultat trouvé pour "{searchQuery}"
+          {query && !isSearching && searchResults.length === 0 && (
+            <div className="mt-4 p-4 text-center text-white/40" role="status">
+              {t("search.noResults", { query: searchQuery })}
             </div>
           )}
+
+          {!query && (searches.length > 0 || artists.length > 0) && (
+            <button
+              type="button"
+              onClick={() => {
+                clearHistory();
+                inputRef.current?.focus();
+              }}
+              className="mt-4 text-base text-white/40 hover:text-white"
+            >
+              {t("search.clearHistory")}
+            </button>
+          )}
         </div>
 
         <div className="border-t border-white/10 p-4 text-sm text-white/40">
           <div className="flex items-center justify-between">
-            <span>Utilisez ↑↓ pour naviguer, ↵ pour sélectionner</span>
-            <span>ESC pour fermer</span>
+            <span>{t("search.help")}</span>
+            <span>{t("search.close")}</span>
           </div>
         </div>
       </div>
@@ -0,0 +1,72 @@
+import { genreName, getGenre } from "~/catalog/genres";
+import { parseSearchQuery, withOperator } from "~/catalog/search";
+import type { SearchFacets as Facets, SearchType } from "~/catalog/search";
+import { useI18n } from "~/contexts/I18nContext";
+
+interface SearchFacetsProps {
+  query: string;
+  facets: Facets;
+  // Reçoit la requête avec l'opérateur ajouté, remplacé ou retiré
+  onChange: (query: string) => void;
+}
+
+const MAX_GENRES = 6;
+
+const TYPES: SearchType[] = ["artist", "album"];
+
+const chipClassName = (active: boolean) =>
+  `inline-block rounded-full border text-base px-3 py-0.5 transition-colors ${
+    active
+      ? "border-white bg-white text-black"
+      : "border-white/30 text-white hover:bg-white hover:text-black"
+  }`;
+
+// Un clic sur une facette active la retire de la requête
+const SearchFacets = ({ query, facets, onChange }: SearchFacetsProps) => {
+  const { locale, t } = useI18n();
+  const { filters } = parseSearchQuery(query);
+  const genres = facets.genres.slice(0, MAX_GENRES).flatMap((facet) => {
+    const genre = getGenre(facet.slug);
+    return genre ? [{ ...facet, genre }] : [];
+  });
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label={t("search.facets")}>
+      {TYPES.filter((type) => facets.types[type] > 0).map((type) => (
+        <li key={type}>
+          <button
+            type="button"
+            aria-pressed={filters.type === type}
+            onClick={() =>
+              onChange(
+                withOperator(query, "type", filters.type === type ? undefined : type)
+              )
+            }
+            className={chipClassName(filters.type === type)}
+          >
+            {t(`search.facet.${type}`, { count: facets.types[type] })}
+          </button>
+        </li>
+      ))}
+      {genres.map(({ slug, count, genre }) => {
+        const active = filters.genre === slug;
+        return (
+          <li key={slug}>
+            <button
+              type="button"
+              aria-pressed={active}
+              onClick={() =>
+                onChange(withOperator(query, "genre", active ? undefined : slug))
+              }
+              className={chipClassName(active)}
+            >
+              {genreName(genre, locale)} ({count})
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SearchFacets;
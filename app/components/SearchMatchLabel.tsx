@@ -0,0 +1,27 @@
+import type { SearchMatch } from "~/catalog/search";
+import { useI18n } from "~/contexts/I18nContext";
+import Highlight from "./Highlight";
+
+interface SearchMatchLabelProps {
+  match: SearchMatch;
+}
+
+// Le libellé garde `{value}`, remplacé par la valeur surlignée
+const SearchMatchLabel = ({ match }: SearchMatchLabelProps) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      {t(`search.match.${match.field}`)
+        .split("{value}")
+        .map((part, index) => (
+          <span key={index}>
+            {index > 0 && <Highlight text={match.value} ranges={match.ranges} />}
+            {part}
+          </span>
+        ))}
+    </>
+  );
+};
+
+export default SearchMatchLabel;
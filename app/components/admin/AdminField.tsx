@@ -0,0 +1,70 @@
+interface AdminFieldProps {
+  label: string;
+  name: string;
+  defaultValue?: string;
+  error?: string;
+  hint?: string;
+  multiline?: boolean;
+  readOnly?: boolean;
+  type?: "text" | "password" | "url";
+}
+
+const AdminField = ({
+  label,
+  name,
+  defaultValue,
+  error,
+  hint,
+  multiline = false,
+  readOnly = false,
+  type = "text",
+}: AdminFieldProps) => {
+  const inputId = `field-${name}`;
+  const describedBy = error ? `${inputId}-error` : hint ? `${inputId}-hint` : undefined;
+  const className = `w-full bg-black/60 text-white text-xl px-4 py-3 rounded-xs border focus:outline-none focus:border-white ${
+    error ? "border-[#B5252A]" : "border-white/20"
+  } ${readOnly ? "opacity-60" : ""}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor={inputId} className="text-xl font-semibold">
+        {label}
+      </label>
+      {multiline ? (
+        <textarea
+          id={inputId}
+          name={name}
+          defaultValue={defaultValue}
+          readOnly={readOnly}
+          rows={5}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={describedBy}
+          className={className}
+        />
+      ) : (
+        <input
+          id={inputId}
+          name={name}
+          type={type}
+          defaultValue={defaultValue}
+          readOnly={readOnly}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={describedBy}
+          className={className}
+        />
+      )}
+      {hint && !error && (
+        <p id={`${inputId}-hint`} className="text-white/50 text-lg">
+          {hint}
+        </p>
+      )}
+      {error && (
+        <p id={`${inputId}-error`} className="text-[#ff6b6b] text-lg" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AdminField;
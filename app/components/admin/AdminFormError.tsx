@@ -0,0 +1,14 @@
+const AdminFormError = ({ message }: { message?: string }) => {
+  if (!message) return null;
+
+  return (
+    <div
+      className="bg-[#B5252A]/20 border border-[#B5252A] text-white text-xl px-4 py-3 rounded-xs"
+      role="alert"
+    >
+      {message}
+    </div>
+  );
+};
+
+export default AdminFormError;
@@ -0,0 +1,156 @@
+import { Fragment } from "react";
+import { Form, useNavigation } from "react-router";
+import AdminField from "./AdminField";
+import AdminFormError from "./AdminFormError";
+import { formatLinksText, formatTracklistText } from "~/catalog/metadata";
+import { ALBUM_FORMATS } from "~/catalog/types";
+import { translationsToFields } from "~/catalog/localize";
+import type { TranslationFieldName } from "~/catalog/localize";
+import { LOCALE_LABELS, TRANSLATED_LOCALES } from "~/i18n/locales";
+import type { AlbumInput } from "~/catalog/types";
+
+export type AlbumFormValues = Partial<
+  Record<Exclude<keyof AlbumInput, "translations"> | TranslationFieldName, string>
+>;
+
+// Valeurs initiales du formulaire d'édition, listes comprises
+export const toAlbumFormValues = ({ translations, ...album }: AlbumInput): AlbumFormValues => ({
+  ...album,
+  ...translationsToFields(translations),
+  tracklist: formatTracklistText(album.tracklist),
+  links: formatLinksText(album.links),
+});
+
+// Préfixe des champs du premier album, dans le formulaire de création d'un groupe
+export const FIRST_ALBUM_PREFIX = "album_";
+
+interface AlbumFieldsProps {
+  defaultValues?: AlbumFormValues;
+  errors?: Record<string, string>;
+  isNew?: boolean;
+  // Devant chaque `name`, pour cohabiter avec les champs d'un groupe
+  prefix?: string;
+}
+
+export const AlbumFields = ({
+  defaultValues = {},
+  errors = {},
+  isNew = false,
+  prefix = "",
+}: AlbumFieldsProps) => (
+  <>
+    <AdminField
+      label="Slug (URL)"
+      name={`${prefix}slug`}
+      defaultValue={defaultValues.slug}
+      error={errors.slug}
+      readOnly={!isNew}
+      hint={isNew ? "Laisser vide pour le déduire du titre." : "Non modifiable : il sert dans les URLs."}
+    />
+    <AdminField label="Titre" name={`${prefix}title`} defaultValue={defaultValues.title} error={errors.title} />
+    <AdminField
+      label="Pochette"
+      name={`${prefix}src`}
+      defaultValue={defaultValues.src}
+      error={errors.src}
+      hint="Chemin d'un fichier sous public/, ex. /assets/images/albums/brutus/nest.png"
+    />
+    <AdminField label="Texte alternatif" name={`${prefix}alt`} defaultValue={defaultValues.alt} error={errors.alt} />
+    <AdminField
+      label="Description courte"
+      name={`${prefix}short_description`}
+      defaultValue={defaultValues.short_description}
+      error={errors.short_description}
+    />
+    <AdminField
+      label="Description"
+      name={`${prefix}description`}
+      defaultValue={defaultValues.description}
+      error={errors.description}
+      multiline
+    />
+    <AdminField
+      label="Date de sortie (facultatif)"
+      name={`${prefix}releaseDate`}
+      defaultValue={defaultValues.releaseDate}
+      error={errors.releaseDate}
+      hint="AAAA, AAAA-MM ou AAAA-MM-JJ."
+    />
+    <AdminField label="Label (facultatif)" name={`${prefix}label`} defaultValue={defaultValues.label} error={errors.label} />
+    <AdminField
+      label="Format (facultatif)"
+      name={`${prefix}format`}
+      defaultValue={defaultValues.format}
+      error={errors.format}
+      hint={ALBUM_FORMATS.join(", ")}
+    />
+    <AdminField
+      label="Titres (facultatif)"
+      name={`${prefix}tracklist`}
+      defaultValue={defaultValues.tracklist}
+      error={errors.tracklist}
+      hint="Un titre par ligne, dans l'ordre : « Titre | 4:05 » (durée facultative)."
+      multiline
+    />
+    <AdminField
+      label="Liens (facultatif)"
+      name={`${prefix}links`}
+      defaultValue={defaultValues.links}
+      error={errors.links}
+      hint="Un lien par ligne : « bandcamp https://… »."
+      multiline
+    />
+    {TRANSLATED_LOCALES.map((locale) => (
+      <Fragment key={locale}>
+        <AdminField
+          label={`Description courte (${LOCALE_LABELS[locale]}, facultatif)`}
+          name={`${prefix}short_description_${locale}`}
+          defaultValue={defaultValues[`short_description_${locale}`]}
+          error={errors[`short_description_${locale}`]}
+          hint="Sans traduction, le texte français est affiché."
+        />
+        <AdminField
+          label={`Description (${LOCALE_LABELS[locale]}, facultatif)`}
+          name={`${prefix}description_${locale}`}
+          defaultValue={defaultValues[`description_${locale}`]}
+          error={errors[`description_${locale}`]}
+          multiline
+        />
+      </Fragment>
+    ))}
+  </>
+);
+
+interface AlbumFormProps {
+  defaultValues?: AlbumFormValues;
+  errors?: Record<string, string>;
+  formError?: string;
+  isNew?: boolean;
+}
+
+const AlbumForm = ({
+  defaultValues = {},
+  errors = {},
+  formError,
+  isNew = false,
+}: AlbumFormProps) => {
+  const navigation = useNavigation();
+
+  return (
+    <Form method="post" className="flex flex-col gap-6 max-w-4xl">
+      <AdminFormError message={formError} />
+      <AlbumFields defaultValues={defaultValues} errors={errors} isNew={isNew} />
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        className="button-red self-start"
+        disabled={navigation.state === "submitting"}
+      >
+        Enregistrer
+      </button>
+    </Form>
+  );
+};
+
+export default AlbumForm;
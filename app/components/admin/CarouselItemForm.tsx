@@ -0,0 +1,62 @@
+import { Form, useNavigation } from "react-router";
+import AdminField from "./AdminField";
+import AdminFormError from "./AdminFormError";
+import type { CarouselItemInput } from "~/catalog/types";
+
+interface CarouselItemFormProps {
+  defaultValues?: Partial<CarouselItemInput>;
+  errors?: Record<string, string>;
+  formError?: string;
+}
+
+const CarouselItemForm = ({
+  defaultValues = {},
+  errors = {},
+  formError,
+}: CarouselItemFormProps) => {
+  const navigation = useNavigation();
+
+  return (
+    <Form method="post" className="flex flex-col gap-6 max-w-4xl">
+      <AdminFormError message={formError} />
+      <AdminField label="Titre" name="title" defaultValue={defaultValues.title} error={errors.title} />
+      <AdminField
+        label="Sous-titre"
+        name="description"
+        defaultValue={defaultValues.description}
+        error={errors.description}
+      />
+      <AdminField
+        label="Image"
+        name="image"
+        defaultValue={defaultValues.image}
+        error={errors.image}
+        hint="Chemin d'un fichier sous public/, ex. /assets/images/carousel/rock-en-seine.png"
+      />
+      <AdminField
+        label="Lien"
+        name="link"
+        defaultValue={defaultValues.link}
+        error={errors.link}
+        hint="URL de billetterie ou lien interne commençant par « / »."
+      />
+      <AdminField
+        label="Texte du bouton"
+        name="buttonText"
+        defaultValue={defaultValues.buttonText}
+        error={errors.buttonText}
+      />
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        className="button-red self-start"
+        disabled={navigation.state === "submitting"}
+      >
+        Enregistrer
+      </button>
+    </Form>
+  );
+};
+
+export default CarouselItemForm;
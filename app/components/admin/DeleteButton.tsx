@@ -0,0 +1,34 @@
+import { Form } from "react-router";
+
+interface DeleteButtonProps {
+  label: string;
+  confirmation: string;
+  // Champs cachés envoyés avec l'intention, ex. l'id d'une ligne de liste
+  fields?: Record<string, string>;
+}
+
+// Envoie `intent=delete` à l'action de la page courante après confirmation
+const DeleteButton = ({ label, confirmation, fields = {} }: DeleteButtonProps) => (
+  <Form
+    method="post"
+    onSubmit={(event) => {
+      if (!window.confirm(confirmation)) {
+        event.preventDefault();
+      }
+    }}
+  >
+    {Object.entries(fields).map(([name, value]) => (
+      <input key={name} type="hidden" name={name} value={value} />
+    ))}
+    <button
+      type="submit"
+      name="intent"
+      value="delete"
+      className="text-xl text-[#ff6b6b] border border-[#B5252A] px-4 py-2 rounded-xs hover:bg-[#B5252A] hover:text-white transition-colors cursor-pointer"
+    >
+      {label}
+    </button>
+  </Form>
+);
+
+export default DeleteButton;
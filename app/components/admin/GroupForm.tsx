@@ -0,0 +1,136 @@
+import { Fragment } from "react";
+import { Form, useNavigation } from "react-router";
+import AdminField from "./AdminField";
+import AdminFormError from "./AdminFormError";
+import {
+  formatInfluencesText,
+  formatLinksText,
+  formatMembersText,
+} from "~/catalog/metadata";
+import { translationsToFields } from "~/catalog/localize";
+import type { TranslationFieldName } from "~/catalog/localize";
+import { LOCALE_LABELS, TRANSLATED_LOCALES } from "~/i18n/locales";
+import type { GroupInput } from "~/catalog/types";
+
+export type GroupFormValues = Partial<
+  Record<Exclude<keyof GroupInput, "translations"> | TranslationFieldName, string>
+>;
+
+// Valeurs initiales du formulaire d'édition, listes comprises
+export const toGroupFormValues = ({ translations, ...group }: GroupInput): GroupFormValues => ({
+  ...group,
+  ...translationsToFields(translations),
+  members: formatMembersText(group.members),
+  links: formatLinksText(group.links),
+  influences: formatInfluencesText(group.influences),
+});
+
+interface GroupFormProps {
+  defaultValues?: GroupFormValues;
+  errors?: Record<string, string>;
+  formError?: string;
+  isNew?: boolean;
+  // Champs ajoutés avant le bouton (premier album d'un nouveau groupe)
+  children?: React.ReactNode;
+}
+
+const GroupForm = ({
+  defaultValues = {},
+  errors = {},
+  formError,
+  isNew = false,
+  children,
+}: GroupFormProps) => {
+  const navigation = useNavigation();
+
+  return (
+    <Form method="post" className="flex flex-col gap-6 max-w-4xl">
+      <AdminFormError message={formError} />
+      <AdminField
+        label="Identifiant (URL)"
+        name="id"
+        defaultValue={defaultValues.id}
+        error={errors.id}
+        readOnly={!isNew}
+        hint={isNew ? "Laisser vide pour le déduire du nom." : "Non modifiable : il sert dans les URLs."}
+      />
+      <AdminField label="Nom" name="name" defaultValue={defaultValues.name} error={errors.name} />
+      <AdminField label="Genre" name="genre" defaultValue={defaultValues.genre} error={errors.genre} />
+      <AdminField label="Origine" name="origin" defaultValue={defaultValues.origin} error={errors.origin} />
+      <AdminField
+        label="Description courte"
+        name="short_description"
+        defaultValue={defaultValues.short_description}
+        error={errors.short_description}
+      />
+      <AdminField
+        label="Description"
+        name="description"
+        defaultValue={defaultValues.description}
+        error={errors.description}
+        multiline
+      />
+      <AdminField
+        label="Ambiance (facultatif)"
+        name="ambiance"
+        defaultValue={defaultValues.ambiance}
+        error={errors.ambiance}
+        multiline
+      />
+      <AdminField
+        label="Line-up (facultatif)"
+        name="members"
+        defaultValue={defaultValues.members}
+        error={errors.members}
+        hint="Un membre par ligne : « Nom : chant, guitare »."
+        multiline
+      />
+      <AdminField
+        label="Liens (facultatif)"
+        name="links"
+        defaultValue={defaultValues.links}
+        error={errors.links}
+        hint="Un lien par ligne : « official https://… » ou « bandcamp https://… »."
+        multiline
+      />
+      <AdminField
+        label="Influences (facultatif)"
+        name="influences"
+        defaultValue={defaultValues.influences}
+        error={errors.influences}
+        hint="Un artiste par ligne. Sert aux recommandations « Dans la même veine »."
+        multiline
+      />
+      {TRANSLATED_LOCALES.map((locale) => (
+        <Fragment key={locale}>
+          <AdminField
+            label={`Description courte (${LOCALE_LABELS[locale]}, facultatif)`}
+            name={`short_description_${locale}`}
+            defaultValue={defaultValues[`short_description_${locale}`]}
+            error={errors[`short_description_${locale}`]}
+            hint="Sans traduction, le texte français est affiché."
+          />
+          <AdminField
+            label={`Description (${LOCALE_LABELS[locale]}, facultatif)`}
+            name={`description_${locale}`}
+            defaultValue={defaultValues[`description_${locale}`]}
+            error={errors[`description_${locale}`]}
+            multiline
+          />
+        </Fragment>
+      ))}
+      {children}
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        className="button-red self-start"
+        disabled={navigation.state === "submitting"}
+      >
+        Enregistrer
+      </button>
+    </Form>
+  );
+};
+
+export default GroupForm;
@@ -1,27 +1,8 @@
 import { createContext, useContext, useMemo } from "react";
 import type { ReactNode } from "react";
-import groupsData from "../data/groups.json";
+import type { Album, Group } from "../catalog/types";
 
-export interface Album {
-  id: number; 
-  title: string;
-  src: string;
-  alt: string;
-  description: string;
-  short_description: string;
-  groupId?: string;
-  groupName?: string;
-}
-
-export interface Group {
-  id: string;
-  name: string;
-  genre: string;
-  origin: string;
-  albums: Album[];
-  description: string;
-  short_description: string;
-}
+export type { Album, Group };
 
 interface GroupContextValue {
   groups: Group[];
@@ -31,17 +12,11 @@ interface GroupContextValue {
 const GroupContext = createContext<GroupContextValue | undefined>(undefined);
 
 interface GroupProviderProps {
+  groups: Group[];
   children: ReactNode;
 }
 
-export const GroupProvider = ({ children }: GroupProviderProps) => {
-  const groups = useMemo(() => 
-    groupsData.map((group) => ({ 
-      ...group, 
-    })), 
-    []
-  );
-
+export const GroupProvider = ({ groups, children }: GroupProviderProps) => {
   const albums = useMemo(() => 
     groups.flatMap((group) => 
       group.albums.map(album => ({
@@ -0,0 +1,41 @@
+import { createContext, useContext, useMemo } from "react";
+import type { ReactNode } from "react";
+import { localizePath } from "../i18n/locales";
+import type { Locale } from "../i18n/locales";
+import { translate } from "../i18n/translate";
+import type { Translate } from "../i18n/translate";
+
+interface I18nContextValue {
+  locale: Locale;
+  t: Translate;
+  // Préfixe un chemin interne avec la langue courante
+  localize: (path: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | undefined>(undefined);
+
+interface I18nProviderProps {
+  locale: Locale;
+  children: ReactNode;
+}
+
+export const I18nProvider = ({ locale, children }: I18nProviderProps) => {
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      t: (key, params) => translate(locale, key, params),
+      localize: (path) => localizePath(path, locale),
+    }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+};
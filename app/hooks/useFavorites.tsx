@@ -0,0 +1,162 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+export interface FavoriteAlbum {
+  // `groupId/slug`, comme `Album.key`
+  key: string;
+  groupId: string;
+  groupName: string;
+  slug: string;
+  title: string;
+  src: string;
+  alt: string;
+  // Date ISO d'ajout à la collection
+  addedAt: string;
+}
+
+export type FavoriteInput = Omit<FavoriteAlbum, "key" | "addedAt">;
+
+export interface FavoritesFile {
+  version: typeof FAVORITES_VERSION;
+  albums: FavoriteAlbum[];
+}
+
+const FAVORITES_KEY = "echos:favorites";
+export const FAVORITES_VERSION = 1;
+
+const EMPTY: FavoriteAlbum[] = [];
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isFavoriteAlbum = (value: unknown): value is FavoriteAlbum => {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    ["groupId", "groupName", "slug", "title", "src", "alt", "addedAt"].every(
+      (field) => isString(entry[field])
+    ) && entry.key === `${entry.groupId}/${entry.slug}`
+  );
+};
+
+/**
+ * Relit une collection sérialisée (stockage ou fichier importé). Renvoie
+ * `null` si le contenu n'est pas une collection dans une version connue ;
+ * les entrées malformées sont ignorées.
+ */
+export const parseFavorites = (json: string): FavoriteAlbum[] | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof value !== "object" || value === null) return null;
+  const file = value as { version?: unknown; albums?: unknown };
+  if (file.version !== FAVORITES_VERSION || !Array.isArray(file.albums)) {
+    return null;
+  }
+  const seen = new Set<string>();
+  return file.albums.filter(isFavoriteAlbum).filter((album) => {
+    if (seen.has(album.key)) return false;
+    seen.add(album.key);
+    return true;
+  });
+};
+
+export const serializeFavorites = (albums: FavoriteAlbum[]) =>
+  JSON.stringify(
+    { version: FAVORITES_VERSION, albums } satisfies FavoritesFile,
+    null,
+    2
+  );
+
+// Instantané mis en cache : `useSyncExternalStore` exige une référence stable
+let snapshot: FavoriteAlbum[] | undefined;
+const listeners = new Set<() => void>();
+
+const read = () => {
+  try {
+    const stored = localStorage.getItem(FAVORITES_KEY);
+    return (stored && parseFavorites(stored)) || EMPTY;
+  } catch {
+    return EMPTY;
+  }
+};
+
+const getSnapshot = () => {
+  snapshot ??= read();
+  return snapshot;
+};
+
+const getServerSnapshot = () => EMPTY;
+
+const notify = () => {
+  snapshot = undefined;
+  listeners.forEach((listener) => listener());
+};
+
+const write = (albums: FavoriteAlbum[]) => {
+  try {
+    localStorage.setItem(FAVORITES_KEY, serializeFavorites(albums));
+  } catch {
+    // Stockage indisponible : la collection ne survivra pas à la page
+    snapshot = albums;
+    listeners.forEach((listener) => listener());
+    return;
+  }
+  notify();
+};
+
+// Les autres onglets préviennent via l'événement `storage`
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === FAVORITES_KEY || event.key === null) notify();
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+/**
+ * Albums mis de côté par le lecteur, conservés dans le `localStorage` du
+ * navigateur et partagés entre tous les composants (et onglets) ouverts.
+ * Vide au rendu serveur.
+ */
+export const useFavorites = () => {
+  const favorites = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  const isFavorite = useCallback(
+    (key: string) => favorites.some((album) => album.key === key),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback((album: FavoriteInput) => {
+    const key = `${album.groupId}/${album.slug}`;
+    const current = getSnapshot();
+    write(
+      current.some((favorite) => favorite.key === key)
+        ? current.filter((favorite) => favorite.key !== key)
+        : [
+            ...current,
+            { ...album, key, addedAt: new Date().toISOString() },
+          ]
+    );
+  }, []);
+
+  // Fusion : les albums déjà présents gardent leur date d'ajout
+  const importFavorites = useCallback((albums: FavoriteAlbum[]) => {
+    const current = getSnapshot();
+    const known = new Set(current.map((album) => album.key));
+    const added = albums.filter((album) => !known.has(album.key));
+    write([...current, ...added]);
+    return added.length;
+  }, []);
+
+  return { favorites, isFavorite, toggleFavorite, importFavorites };
+};
@@ -1,80 +1,48 @@
-import { useState, useMemo, useCallback } from "react";
-import { useGroups } from "../contexts/GroupContext";
-import type { Group, Album } from "../contexts/GroupContext";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useFetcher } from "react-router";
+import type { SearchFacets, SearchSuggestion } from "../catalog/search";
+import type { loader as searchLoader } from "../routes/resources/search";
 
-export interface SearchResult {
-  type: "artist" | "album";
-  id: number | string;
-  name: string;
-  artist?: string; // For albums, the artist name
-  genre?: string; // For artists
-  data: Group | Album;
-}
+export type { SearchFacets, SearchSuggestion };
 
 interface UseSearchReturn {
   searchQuery: string;
   setSearchQuery: (query: string) => void;
-  searchResults: SearchResult[];
+  searchResults: SearchSuggestion[];
+  // Nombre de résultats par type et par genre, pour affiner la requête
+  searchFacets: SearchFacets | null;
+  // Vrai tant que la réponse pour la saisie courante n'est pas arrivée
   isSearching: boolean;
   clearSearch: () => void;
 }
 
+// Délai après la dernière frappe avant d'interroger le serveur
+const SEARCH_DEBOUNCE_MS = 180;
+
 export const useSearch = (): UseSearchReturn => {
   const [searchQuery, setSearchQuery] = useState("");
-  const { groups, albums } = useGroups();
-
-  const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) return [];
+  const fetcher = useFetcher<typeof searchLoader>();
+  const { load } = fetcher;
+  const query = searchQuery.trim();
 
-    const query = searchQuery.toLowerCase().trim();
-    const results: SearchResult[] = [];
+  // La recherche tourne côté serveur : le catalogue n'est pas envoyé au client
+  useEffect(() => {
+    if (!query) return;
+    const timer = setTimeout(
+      () => load(`/resources/search?q=${encodeURIComponent(query)}`),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [query, load]);
 
-    // Search in artists (groups)
-    groups.forEach((group) => {
-      if (group.name.toLowerCase().includes(query)) {
-        results.push({
-          type: "artist",
-          id: group.id,
-          name: group.name,
-          genre: group.genre,
-          data: group,
-        });
-      }
-    });
+  // Une réponse arrivée pour une saisie précédente est ignorée
+  const data = query && fetcher.data?.query === query ? fetcher.data : null;
 
-    // Search in albums
-    groups.forEach((group) => {
-      group.albums.forEach((album) => {
-        if (album.title.toLowerCase().includes(query)) {
-          results.push({
-            type: "album",
-            id: album.id,
-            name: album.title,
-            artist: group.id,
-            data: album,
-          });
-        }
-      });
-    });
+  const searchResults = useMemo(() => data?.results ?? [], [data]);
 
-    // Sort results: exact matches first, then partial matches
-    return results.sort((a, b) => {
-      const aExact = a.name.toLowerCase() === query;
-      const bExact = b.name.toLowerCase() === query;
-      
-      if (aExact && !bExact) return -1;
-      if (!aExact && bExact) return 1;
-      
-      // Sort by type (artists first, then albums)
-      if (a.type !== b.type) {
-        return a.type === "artist" ? -1 : 1;
-      }
-      
-      return a.name.localeCompare(b.name);
-    });
-  }, [searchQuery, groups]);
+  const searchFacets = data?.facets ?? null;
 
-  const isSearching = searchQuery.trim().length > 0;
+  const isSearching = query.length > 0 && data === null;
 
   const clearSearch = useCallback(() => {
     setSearchQuery("");
@@ -84,6 +52,7 @@ export const useSearch = (): UseSearchReturn => {
     searchQuery,
     setSearchQuery,
     searchResults,
+    searchFacets,
     isSearching,
     clearSearch,
   };
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface RecentArtist {
+  id: string;
+  name: string;
+}
+
+const RECENT_SEARCHES_KEY = "echos:recent-searches";
+const RECENT_ARTISTS_KEY = "echos:recent-artists";
+const MAX_RECENTS = 5;
+
+// Stockage absent (navigation privée, quota) ou contenu illisible : liste vide
+const readList = <T,>(key: string, isValid: (value: unknown) => value is T) => {
+  try {
+    const value: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(value) ? value.filter(isValid).slice(0, MAX_RECENTS) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeList = (key: string, list: unknown[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(list.slice(0, MAX_RECENTS)));
+  } catch {
+    // L'historique est un confort : on ne bloque pas la navigation pour lui
+  }
+};
+
+const isQuery = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+const isRecentArtist = (value: unknown): value is RecentArtist =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as RecentArtist).id === "string" &&
+  typeof (value as RecentArtist).name === "string";
+
+const readSearches = () => readList(RECENT_SEARCHES_KEY, isQuery);
+
+const readArtists = () => readList(RECENT_ARTISTS_KEY, isRecentArtist);
+
+// La plus récente en tête, sans doublon (casse ignorée)
+export const rememberSearch = (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+  writeList(RECENT_SEARCHES_KEY, [
+    trimmed,
+    ...readSearches().filter(
+      (previous) => previous.toLowerCase() !== trimmed.toLowerCase()
+    ),
+  ]);
+};
+
+export const rememberArtist = (artist: RecentArtist) => {
+  writeList(RECENT_ARTISTS_KEY, [
+    { id: artist.id, name: artist.name },
+    ...readArtists().filter((previous) => previous.id !== artist.id),
+  ]);
+};
+
+/**
+ * Recherches récentes et artistes consultés, conservés dans le
+ * `localStorage` du navigateur ; relus à chaque ouverture de la recherche.
+ */
+export const useSearchHistory = (isOpen: boolean) => {
+  const [searches, setSearches] = useState<string[]>([]);
+  const [artists, setArtists] = useState<RecentArtist[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSearches(readSearches());
+    setArtists(readArtists());
+  }, [isOpen]);
+
+  const clearHistory = useCallback(() => {
+    writeList(RECENT_SEARCHES_KEY, []);
+    writeList(RECENT_ARTISTS_KEY, []);
+    setSearches([]);
+    setArtists([]);
+  }, []);
+
+  return { searches, artists, clearHistory };
+};
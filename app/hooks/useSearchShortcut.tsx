@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+
+// Champs où `/` doit rester un caractère tapé
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/** Ouvre la recherche avec `/` (hors saisie) ou Ctrl+K / ⌘K. */
+export const useSearchShortcut = (onOpen: () => void) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isCommandK =
+        (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k";
+      const isSlash =
+        event.key === "/" &&
+        !event.ctrlKey &&
+        !event.metaKey &&
+        !event.altKey &&
+        !isEditable(event.target);
+
+      if (isCommandK || isSlash) {
+        event.preventDefault();
+        onOpen();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onOpen]);
+};
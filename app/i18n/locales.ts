@@ -0,0 +1,86 @@
+export const LOCALES = ["fr", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+// Le français est servi sans préfixe, les autres langues sous `/<locale>/…`
+export const DEFAULT_LOCALE = "fr" satisfies Locale;
+
+// Langues servies sous un préfixe, et dans lesquelles on traduit le catalogue
+export type TranslatedLocale = Exclude<Locale, typeof DEFAULT_LOCALE>;
+
+export const TRANSLATED_LOCALES = LOCALES.filter(
+  (locale): locale is TranslatedLocale => locale !== DEFAULT_LOCALE
+);
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  fr: "Français",
+  en: "English",
+};
+
+// Étiquettes BCP 47 pour `Intl`
+export const LOCALE_TAGS: Record<Locale, string> = {
+  fr: "fr-FR",
+  en: "en-GB",
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  (LOCALES as readonly unknown[]).includes(value);
+
+// Paramètre `:lang?` des routes publiques, absent pour le français
+export const localeFromParam = (lang: string | undefined): Locale =>
+  isLocale(lang) ? lang : DEFAULT_LOCALE;
+
+const localePrefix = (path: string) => {
+  const segment = path.slice(1).split(/[/?#]/)[0];
+  return isLocale(segment) ? segment : undefined;
+};
+
+export const localeFromPathname = (pathname: string): Locale =>
+  localePrefix(pathname) ?? DEFAULT_LOCALE;
+
+// `/en/artist/x` → `/artist/x`, `/en` → `/`
+export const stripLocalePrefix = (path: string) => {
+  const prefix = localePrefix(path);
+  if (!prefix) return path;
+  const rest = path.slice(prefix.length + 1);
+  return rest.startsWith("/") ? rest : `/${rest}`;
+};
+
+/**
+ * Préfixe un chemin interne avec la langue : `localizePath("/artist/x", "en")`
+ * donne `/en/artist/x`. Les URLs externes et les ancres sont laissées telles quelles.
+ */
+export const localizePath = (path: string, locale: Locale) => {
+  if (!path.startsWith("/") || path.startsWith("//")) return path;
+  const unprefixed = stripLocalePrefix(path);
+  if (locale === DEFAULT_LOCALE) return unprefixed;
+  // La page d'accueil anglaise est `/en`, pas `/en/`
+  const rest = /^\/[?#]|^\/$/.test(unprefixed) ? unprefixed.slice(1) : unprefixed;
+  return `/${locale}${rest}`;
+};
+
+/**
+ * Choisit la langue préférée parmi celles du site d'après `Accept-Language`
+ * (poids `q` respectés), ou `undefined` si aucune ne convient.
+ */
+export const negotiateLocale = (header: string | null): Locale | undefined => {
+  if (!header) return undefined;
+
+  const candidates = header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...parameters] = part.trim().split(";");
+      const quality = parameters
+        .map((parameter) => parameter.trim())
+        .find((parameter) => parameter.startsWith("q="));
+      return {
+        language: tag.trim().toLowerCase().split("-")[0],
+        quality: quality ? Number(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter((candidate) => candidate.quality > 0 && !Number.isNaN(candidate.quality))
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return candidates.map((candidate) => candidate.language).find(isLocale);
+};
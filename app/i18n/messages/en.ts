@@ -0,0 +1,226 @@
+import type { Messages } from "../translate";
+
+const en: Messages = {
+  "meta.home.title": "ECHOS - No rules, just rock",
+  "meta.home.description": "ECHOS is a website project for bands.",
+  "meta.artist.title": "{name} - ECHOS",
+  "meta.artist.fallbackTitle": "Artist - ECHOS",
+  "meta.artist.fallbackDescription": "Artist page on ECHOS",
+  "meta.album.title": "{title} - {name} - ECHOS",
+  "meta.genre.title": "{name} - ECHOS",
+  "meta.genre.description": "{name} artists and albums on ECHOS.",
+  "meta.crew.title": "Our crew - ECHOS",
+  "meta.crew.description": "The team behind ECHOS and their favourite albums.",
+  "meta.artists.title": "All artists - ECHOS",
+  "meta.artists.description": "Every band in the ECHOS catalogue, by name, origin or genre.",
+  "meta.scenes.title": "Scenes - ECHOS",
+  "meta.scenes.description": "The bands of the ECHOS catalogue by country of origin, on a world map.",
+  "meta.search.title": "Search - ECHOS",
+  "meta.search.queryTitle": "“{query}” - Search - ECHOS",
+  "meta.search.description": "Search the ECHOS catalogue for an artist, an album, a genre or a scene.",
+  "meta.collection.title": "My collection - ECHOS",
+  "meta.collection.description": "The albums saved while browsing ECHOS, kept in this browser.",
+  "meta.scene.title": "{name} scene - ECHOS",
+  "meta.scene.description": "Bands and albums from the {name} scene on ECHOS.",
+  "meta.festivals.title": "Festivals - ECHOS",
+  "meta.festivals.description": "The agenda of the festivals where the bands of the ECHOS catalogue play.",
+  "meta.festival.title": "{name} - Festivals - ECHOS",
+  "meta.contact.title": "Contact - ECHOS",
+  "meta.contact.description": "Suggest a band, send us feedback or just say hello to the ECHOS team.",
+
+  "nav.label": "Main navigation",
+  "nav.rookies": "Our Rookies",
+  "nav.crew": "Our crew",
+  "nav.search": "Search",
+  "nav.language": "Change language",
+  "nav.logoAlt": "ECHOS logo",
+
+  "search.placeholder": "Search for an artist or an album...",
+  "search.clear": "Clear search",
+  "search.artist": "Artist",
+  "search.album": "Album",
+  "search.noResults": "No results for \"{query}\"",
+  "search.help": "↑↓ to move, ↵ to select, / or Ctrl+K to open",
+  "search.close": "ESC to close",
+  "search.match.member": "Member: {value}",
+  "search.match.track": "Track: {value}",
+  "search.match.label": "Label: {value}",
+  "search.match.year": "Released in {value}",
+  "search.match.genre": "Genre: {value}",
+  "search.match.origin": "Origin: {value}",
+  "search.match.description": "“{value}”",
+  "search.facets": "Refine results",
+  "search.facet.artist": "Artists ({count})",
+  "search.facet.album": "Albums ({count})",
+  "search.title": "Search",
+  "search.intro": "Look for an artist, an album, a track, a member, a genre or a country. Refine with genre:, origin: and type:, for instance “genre:shoegaze type:album”.",
+  "search.label": "Your search",
+  "search.submit": "Search",
+  "search.count": "{count} result(s) for “{query}”",
+  "search.results.artist": "Artists ({count})",
+  "search.results.album": "Albums ({count})",
+  "search.pagination.artist": "Artist pages",
+  "search.pagination.album": "Album pages",
+  "search.previous": "Previous",
+  "search.next": "Next",
+  "search.pageOf": "Page {page} of {pages}",
+  "search.all": "See all results",
+  "search.dialog": "Search",
+  "search.suggestions": "Suggestions",
+  "search.results": "Results",
+  "search.action": "Action",
+  "search.action.randomAlbum": "Random album",
+  "search.action.allArtists": "All artists",
+  "search.action.collection": "My collection",
+  "search.recent": "Recent",
+  "search.section.actions": "Quick actions",
+  "search.section.searches": "Recent searches",
+  "search.section.artists": "Recently viewed artists",
+  "search.clearHistory": "Clear history",
+
+  "home.hero.slogan": "NO RULES, JUST ROCK.",
+  "home.hero.videoFallback": "Your browser does not support video playback.",
+  "home.rocknroulette.collection": "Album collection",
+  "home.rocknroulette.pick": "Click an album",
+  "home.rocknroulette.close": "Click to close",
+  "home.rocknroulette.pickLabel": "Click an album to see it",
+  "home.album.by": "by {name}",
+  "home.album.discover": "Discover",
+  "home.carousel.label": "Album carousel",
+  "home.carousel.previous": "Previous album",
+  "home.carousel.next": "Next album",
+  "home.carousel.goTo": "Go to slide {index}",
+  "home.slides.previous": "Previous",
+  "home.slides.next": "Next",
+  "home.slides.goTo": "Go to slide {index}",
+  "home.collage.title": "Our rookies",
+  "home.collage.subtitle": "We are one",
+  "home.collage.all": "All",
+  "home.collage.albums": "Albums",
+  "home.collage.artists": "Artists",
+
+  "artist.facts": "Genre: {genre} | Origin: {origin}",
+  "artist.origin": "Origin: {origin}",
+  "artist.album": "Album",
+  "artist.lineup": "Line-up",
+  "artist.discography": "Discography",
+  "artist.tracks": "{count} tracks",
+  "artist.similar": "In the same vein",
+  "artist.similar.scene": "Same scene",
+  "artist.similar.genre": "Same genre",
+  "artist.similar.influence": "Shared influences",
+  "artist.festivals": "Playing at",
+  "artist.backHome": "← Back to home",
+  "common.backHome": "Back to home",
+
+  "links.official": "Official website",
+  "links.other": "Link",
+
+  "genre.chips": "Genres",
+  "genre.breadcrumb": "Breadcrumb",
+  "genre.subgenres": "Sub-genres",
+  "genre.artists": "Artists ({count})",
+  "genre.albums": "Albums ({count})",
+  "genre.empty": "No artists in this genre yet.",
+
+  "crew.title": "Our Crew",
+  "crew.intro":
+    "We are a bunch of people who love music, making things and rock culture. Our crew is first of all a family where everyone brings their energy, their talent and above all their love of raw, honest sound.",
+  "crew.favorites": "Favourite picks",
+
+  "artists.title": "Artists",
+  "artists.count": "{count} artist(s)",
+  "artists.filters": "Filters",
+  "artists.sort": "Sort by",
+  "artists.sort.name": "Name",
+  "artists.sort.origin": "Origin",
+  "artists.sort.albums": "Number of albums",
+  "artists.genre": "Genre",
+  "artists.origin": "Origin",
+  "artists.all": "All",
+  "artists.apply": "Filter",
+  "artists.reset": "Reset",
+  "artists.jump": "Jump to letter",
+  "artists.albums": "Albums: {count}",
+  "artists.empty": "No artist matches these filters.",
+  "scenes.title": "Scenes",
+  "scenes.intro": "Where do our bands come from? Pick a country on the map to discover its scene.",
+  "scenes.map": "World map of the scenes",
+  "scenes.artists": "{count} artist(s)",
+  "scene.breadcrumb": "Breadcrumb",
+  "scene.artists": "Artists ({count})",
+  "scene.albums": "Albums ({count})",
+  "festivals.title": "Festivals",
+  "festivals.intro": "The festivals where you can see our bands live, with their dates and line-up.",
+  "festivals.upcomingTitle": "Upcoming festivals",
+  "festivals.pastTitle": "Past editions",
+  "festivals.noUpcoming": "No festival announced yet.",
+  "festivals.upcoming": "Upcoming",
+  "festivals.past": "Past",
+  "festivals.venue": "{venue}, {city}",
+  "festivals.tickets": "Tickets",
+  "festival.breadcrumb": "Breadcrumb",
+  "festival.over": "This edition is over.",
+  "festival.lineup": "Line-up ({count})",
+
+  "contact.title": "Contact",
+  "contact.intro": "A band we should hear, a remark, a proposal? Write to us, we read everything.",
+  "contact.name": "Name",
+  "contact.email": "Email",
+  "contact.subject": "Subject",
+  "contact.subject.choose": "Choose a subject",
+  "contact.subject.band": "Suggest a band",
+  "contact.subject.feedback": "Feedback on the site",
+  "contact.subject.press": "Press and partnerships",
+  "contact.subject.other": "Something else",
+  "contact.message": "Message",
+  "contact.honeypot": "Leave this field empty",
+  "contact.send": "Send",
+  "contact.sent": "Thanks! Your message has arrived, we will get back to you soon.",
+  "contact.invalid": "The form contains errors.",
+  "contact.error.required": "This field is required.",
+  "contact.error.email": "Invalid email address.",
+  "contact.error.subject": "Pick a subject from the list.",
+  "contact.error.tooShort": "The message is too short (10 characters minimum).",
+  "contact.error.tooLong": "Text too long.",
+
+  "footer.tagline":
+    "ECHOS, no rules, just rock. A platform dedicated to discovering underground bands and emerging artists.",
+  "footer.quickLinks": "QUICK LINKS",
+  "footer.home": "Home",
+  "footer.artists": "Artists",
+  "footer.scenes": "Scenes",
+  "footer.festivals": "Festivals",
+  "footer.collection": "My collection",
+  "footer.contact": "Contact",
+  "footer.about": "About",
+  "footer.follow": "FOLLOW US",
+  "footer.rights": "© 2025 ECHOS. All rights reserved.",
+  "footer.privacy": "Privacy policy",
+  "footer.terms": "Terms of use",
+
+  "error.title": "Oops!",
+  "error.unexpected": "An unexpected error occurred.",
+  "error.404.title": "Page not found",
+  "error.404.text": "This track does not exist here, or not anymore.",
+  "error.410.title": "Gone from the catalogue",
+  "error.410.text": "This band is no longer part of the ECHOS catalogue.",
+  "error.500.title": "The sound cut out",
+  "error.500.text": "Something unexpected went wrong. Try again in a moment.",
+  "error.suggestions": "Were you looking for",
+  "error.allArtists": "See all artists",
+  "favorites.add": "Add “{title}” to my collection",
+  "favorites.remove": "Remove “{title}” from my collection",
+  "collection.title": "My collection",
+  "collection.intro":
+    "The albums marked with a heart, sorted by artist. They stay in this browser: export them to find them elsewhere.",
+  "collection.count": "{count} albums by {artists} artists",
+  "collection.empty": "No albums yet. Click the heart on a cover to keep it here.",
+  "collection.explore": "Browse the artists",
+  "collection.export": "Export (JSON)",
+  "collection.import": "Import a file",
+  "collection.imported": "{count} albums added to the collection.",
+  "collection.invalid": "This file is not a valid ECHOS collection.",
+};
+
+export default en;
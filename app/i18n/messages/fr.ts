@@ -0,0 +1,225 @@
+// Catalogue de référence : chaque langue doit fournir les mêmes clés
+const fr = {
+  "meta.home.title": "ECHOS - Pas de règles, juste du rock",
+  "meta.home.description": "ECHOS, c'est un projet de site web pour les groupes de musique.",
+  "meta.artist.title": "{name} - ECHOS",
+  "meta.artist.fallbackTitle": "Artiste - ECHOS",
+  "meta.artist.fallbackDescription": "Page artiste sur ECHOS",
+  "meta.album.title": "{title} - {name} - ECHOS",
+  "meta.genre.title": "{name} - ECHOS",
+  "meta.genre.description": "Les artistes et albums {name} sur ECHOS.",
+  "meta.crew.title": "Notre crew - ECHOS",
+  "meta.crew.description": "L'équipe derrière ECHOS et ses albums coups de cœur.",
+  "meta.artists.title": "Tous les artistes - ECHOS",
+  "meta.artists.description": "Tous les groupes du catalogue ECHOS, par nom, origine ou genre.",
+  "meta.scenes.title": "Scènes - ECHOS",
+  "meta.scenes.description": "Les groupes du catalogue ECHOS rangés par pays d'origine, sur une carte du monde.",
+  "meta.search.title": "Recherche - ECHOS",
+  "meta.search.queryTitle": "« {query} » - Recherche - ECHOS",
+  "meta.search.description": "Rechercher un artiste, un album, un genre ou une scène dans le catalogue ECHOS.",
+  "meta.collection.title": "Ma collection - ECHOS",
+  "meta.collection.description": "Les albums mis de côté en parcourant ECHOS, gardés dans ce navigateur.",
+  "meta.scene.title": "Scène {name} - ECHOS",
+  "meta.scene.description": "Les groupes et albums de la scène {name} sur ECHOS.",
+  "meta.festivals.title": "Festivals - ECHOS",
+  "meta.festivals.description": "L'agenda des festivals où jouent les groupes du catalogue ECHOS.",
+  "meta.festival.title": "{name} - Festivals - ECHOS",
+  "meta.contact.title": "Contact - ECHOS",
+  "meta.contact.description": "Proposer un groupe, nous faire un retour ou simplement dire bonjour à l'équipe ECHOS.",
+
+  "nav.label": "Navigation principale",
+  "nav.rookies": "Nos Rookies",
+  "nav.crew": "Notre crew",
+  "nav.search": "Rechercher",
+  "nav.language": "Changer de langue",
+  "nav.logoAlt": "Logo ECHOS",
+
+  "search.placeholder": "Rechercher un artiste ou un album...",
+  "search.clear": "Effacer la recherche",
+  "search.artist": "Artiste",
+  "search.album": "Album",
+  "search.noResults": "Aucun résultat trouvé pour \"{query}\"",
+  "search.help": "↑↓ pour naviguer, ↵ pour sélectionner, / ou Ctrl+K pour ouvrir",
+  "search.close": "ESC pour fermer",
+  "search.match.member": "Membre : {value}",
+  "search.match.track": "Titre : {value}",
+  "search.match.label": "Label : {value}",
+  "search.match.year": "Sorti en {value}",
+  "search.match.genre": "Genre : {value}",
+  "search.match.origin": "Origine : {value}",
+  "search.match.description": "« {value} »",
+  "search.facets": "Affiner les résultats",
+  "search.facet.artist": "Artistes ({count})",
+  "search.facet.album": "Albums ({count})",
+  "search.title": "Recherche",
+  "search.intro": "Cherchez un artiste, un album, un morceau, un membre, un genre ou un pays. Affinez avec genre:, origin: et type:, par exemple « genre:shoegaze type:album ».",
+  "search.label": "Votre recherche",
+  "search.submit": "Rechercher",
+  "search.count": "{count} résultat(s) pour « {query} »",
+  "search.results.artist": "Artistes ({count})",
+  "search.results.album": "Albums ({count})",
+  "search.pagination.artist": "Pages des artistes",
+  "search.pagination.album": "Pages des albums",
+  "search.previous": "Précédent",
+  "search.next": "Suivant",
+  "search.pageOf": "Page {page} sur {pages}",
+  "search.all": "Voir tous les résultats",
+  "search.dialog": "Recherche",
+  "search.suggestions": "Suggestions",
+  "search.results": "Résultats",
+  "search.action": "Action",
+  "search.action.randomAlbum": "Album au hasard",
+  "search.action.allArtists": "Tous les artistes",
+  "search.action.collection": "Ma collection",
+  "search.recent": "Récent",
+  "search.section.actions": "Actions rapides",
+  "search.section.searches": "Recherches récentes",
+  "search.section.artists": "Artistes consultés",
+  "search.clearHistory": "Effacer l'historique",
+
+  "home.hero.slogan": "PAS DE REGLES, JUSTE DU ROCK.",
+  "home.hero.videoFallback": "Votre navigateur ne supporte pas la lecture de vidéos.",
+  "home.rocknroulette.collection": "Collection d'albums",
+  "home.rocknroulette.pick": "Cliquez sur un album",
+  "home.rocknroulette.close": "Cliquez pour fermer",
+  "home.rocknroulette.pickLabel": "Cliquer sur un album pour le voir",
+  "home.album.by": "par {name}",
+  "home.album.discover": "Découvrir",
+  "home.carousel.label": "Carrousel d'albums",
+  "home.carousel.previous": "Album précédent",
+  "home.carousel.next": "Album suivant",
+  "home.carousel.goTo": "Aller à la diapositive {index}",
+  "home.slides.previous": "Précédent",
+  "home.slides.next": "Suivant",
+  "home.slides.goTo": "Aller au slide {index}",
+  "home.collage.title": "Nos rookies",
+  "home.collage.subtitle": "Nous ne sommes qu'un",
+  "home.collage.all": "Tous",
+  "home.collage.albums": "Albums",
+  "home.collage.artists": "Artistes",
+
+  "artist.facts": "Genre: {genre} | Origine: {origin}",
+  "artist.origin": "Origine : {origin}",
+  "artist.album": "Album",
+  "artist.lineup": "Line-up",
+  "artist.discography": "Discographie",
+  "artist.tracks": "{count} titres",
+  "artist.similar": "Dans la même veine",
+  "artist.similar.scene": "Même scène",
+  "artist.similar.genre": "Même genre",
+  "artist.similar.influence": "Influences communes",
+  "artist.festivals": "À l'affiche de",
+  "artist.backHome": "← Retour à l'accueil",
+  "common.backHome": "Retour à l'accueil",
+
+  "links.official": "Site officiel",
+  "links.other": "Lien",
+
+  "genre.chips": "Genres",
+  "genre.breadcrumb": "Fil d'Ariane",
+  "genre.subgenres": "Sous-genres",
+  "genre.artists": "Artistes ({count})",
+  "genre.albums": "Albums ({count})",
+  "genre.empty": "Aucun artiste dans ce genre pour le moment.",
+
+  "crew.title": "Notre Crew",
+  "crew.intro":
+    "On est une bande de passionnés de musique, de création et de culture rock. Notre crew c'est avant tout une famille où chacun apporte son énergie, son talent, et surtout son amour du son brut et sincère.",
+  "crew.favorites": "Ses coups de cœur",
+
+  "artists.title": "Artistes",
+  "artists.count": "{count} artiste(s)",
+  "artists.filters": "Filtres",
+  "artists.sort": "Trier par",
+  "artists.sort.name": "Nom",
+  "artists.sort.origin": "Origine",
+  "artists.sort.albums": "Nombre d'albums",
+  "artists.genre": "Genre",
+  "artists.origin": "Origine",
+  "artists.all": "Tous",
+  "artists.apply": "Filtrer",
+  "artists.reset": "Réinitialiser",
+  "artists.jump": "Accès direct par lettre",
+  "artists.albums": "Albums : {count}",
+  "artists.empty": "Aucun artiste ne correspond à ces filtres.",
+  "scenes.title": "Scènes",
+  "scenes.intro": "D'où viennent nos groupes ? Choisissez un pays sur la carte pour découvrir sa scène.",
+  "scenes.map": "Carte du monde des scènes",
+  "scenes.artists": "{count} artiste(s)",
+  "scene.breadcrumb": "Fil d'Ariane",
+  "scene.artists": "Artistes ({count})",
+  "scene.albums": "Albums ({count})",
+  "festivals.title": "Festivals",
+  "festivals.intro": "Les festivals où voir nos groupes sur scène, avec leurs dates et leur affiche.",
+  "festivals.upcomingTitle": "Prochains festivals",
+  "festivals.pastTitle": "Éditions passées",
+  "festivals.noUpcoming": "Aucun festival annoncé pour le moment.",
+  "festivals.upcoming": "À venir",
+  "festivals.past": "Passé",
+  "festivals.venue": "{venue}, {city}",
+  "festivals.tickets": "Billetterie",
+  "festival.breadcrumb": "Fil d'Ariane",
+  "festival.over": "Cette édition est terminée.",
+  "festival.lineup": "À l'affiche ({count})",
+
+  "contact.title": "Contact",
+  "contact.intro": "Un groupe à nous faire découvrir, une remarque, une proposition ? Écris-nous, on lit tout.",
+  "contact.name": "Nom",
+  "contact.email": "E-mail",
+  "contact.subject": "Sujet",
+  "contact.subject.choose": "Choisir un sujet",
+  "contact.subject.band": "Proposer un groupe",
+  "contact.subject.feedback": "Un retour sur le site",
+  "contact.subject.press": "Presse et partenariats",
+  "contact.subject.other": "Autre chose",
+  "contact.message": "Message",
+  "contact.honeypot": "Laisser ce champ vide",
+  "contact.send": "Envoyer",
+  "contact.sent": "Merci ! Ton message est bien arrivé, on revient vers toi rapidement.",
+  "contact.invalid": "Le formulaire contient des erreurs.",
+  "contact.error.required": "Ce champ est obligatoire.",
+  "contact.error.email": "Adresse e-mail invalide.",
+  "contact.error.subject": "Choisis un sujet dans la liste.",
+  "contact.error.tooShort": "Le message est trop court (10 caractères minimum).",
+  "contact.error.tooLong": "Texte trop long.",
+
+  "footer.tagline":
+    "ECHOS, pas de règles, juste du rock. Une plateforme dédiée à la découverte des groupes de musique underground et des artistes émergents.",
+  "footer.quickLinks": "LIENS RAPIDES",
+  "footer.home": "Accueil",
+  "footer.artists": "Artistes",
+  "footer.scenes": "Scènes",
+  "footer.festivals": "Festivals",
+  "footer.collection": "Ma collection",
+  "footer.contact": "Contact",
+  "footer.about": "À propos",
+  "footer.follow": "SUIVEZ-NOUS",
+  "footer.rights": "© 2025 ECHOS. Tous droits réservés.",
+  "footer.privacy": "Politique de confidentialité",
+  "footer.terms": "Conditions d'utilisation",
+
+  "error.title": "Oups !",
+  "error.unexpected": "Une erreur inattendue est survenue.",
+  "error.404.title": "Page introuvable",
+  "error.404.text": "Ce morceau n'existe pas, ou plus, chez nous.",
+  "error.410.title": "Parti du catalogue",
+  "error.410.text": "Ce groupe ne fait plus partie du catalogue ECHOS.",
+  "error.500.title": "Le son a sauté",
+  "error.500.text": "Une erreur inattendue est survenue. Réessaie dans un instant.",
+  "error.suggestions": "Tu cherchais peut-être",
+  "error.allArtists": "Voir tous les artistes",
+  "favorites.add": "Ajouter « {title} » à ma collection",
+  "favorites.remove": "Retirer « {title} » de ma collection",
+  "collection.title": "Ma collection",
+  "collection.intro":
+    "Les albums marqués d'un cœur, rangés par artiste. Ils restent dans ce navigateur : exporte-les pour les retrouver ailleurs.",
+  "collection.count": "{count} albums de {artists} artistes",
+  "collection.empty": "Aucun album pour l'instant. Clique sur le cœur d'une pochette pour la garder ici.",
+  "collection.explore": "Parcourir les artistes",
+  "collection.export": "Exporter (JSON)",
+  "collection.import": "Importer un fichier",
+  "collection.imported": "{count} albums ajoutés à la collection.",
+  "collection.invalid": "Ce fichier n'est pas une collection ECHOS valide.",
+} as const;
+
+export default fr;
@@ -0,0 +1,28 @@
+import type { Locale } from "./locales";
+import en from "./messages/en";
+import fr from "./messages/fr";
+
+export type MessageKey = keyof typeof fr;
+
+export type Messages = Record<MessageKey, string>;
+
+const CATALOGS: Record<Locale, Messages> = { fr, en };
+
+export type TranslateParams = Record<string, string | number>;
+
+/**
+ * Traduit une clé et remplace les `{paramètres}`. Une clé absente d'un
+ * catalogue retombe sur le français.
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: TranslateParams = {}
+) => {
+  const message = CATALOGS[locale][key] ?? fr[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
@@ -1,16 +1,18 @@
 import {
-  isRouteErrorResponse,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useLocation,
 } from "react-router";
 
 import type { Route } from "./+types/root";
 import "./app.css";
-import { GroupProvider } from "./contexts/GroupContext";
+import ErrorPage, { errorTitle } from "./components/ErrorPage";
 import Footer from "./components/Footer";
+import { I18nProvider } from "./contexts/I18nContext";
+import { localeFromPathname } from "./i18n/locales";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -25,9 +27,19 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
+// Titre des pages d'erreur ; les pages sans erreur définissent le leur
+export function meta({ error, location }: Route.MetaArgs) {
+  return error
+    ? [{ title: errorTitle(error, localeFromPathname(location.pathname)) }]
+    : [];
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  // La langue vient du préfixe d'URL, pour rester juste après une navigation client
+  const locale = localeFromPathname(useLocation().pathname);
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -35,12 +47,12 @@ export function Layout({ children }: { children: React.ReactNode }) {
         <Links />
       </head>
       <body>
-        <GroupProvider>
+        <I18nProvider locale={locale}>
           {children}
           <Footer />
-          <ScrollRestoration />
-          <Scripts />
-        </GroupProvider>
+        </I18nProvider>
+        <ScrollRestoration />
+        <Scripts />
       </body>
     </html>
   );
@@ -50,31 +62,7 @@ export default function App() {
   return <Outlet />;
 }
 
+// Hors pages publiques (admin, URL sans route) ; `routes/locale.tsx` a la sienne
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
-  let message = "Oops!";
-  let details = "An unexpected error occurred.";
-  let stack: string | undefined;
-
-  if (isRouteErrorResponse(error)) {
-    message = error.status === 404 ? "404" : "Error";
-    details =
-      error.status === 404
-        ? "The requested page could not be found."
-        : error.statusText || details;
-  } else if (import.meta.env.DEV && error && error instanceof Error) {
-    details = error.message;
-    stack = error.stack;
-  }
-
-  return (
-    <main className="pt-16 p-4 container mx-auto">
-      <h1>{message}</h1>
-      <p>{details}</p>
-      {stack && (
-        <pre className="w-full p-4 overflow-x-auto">
-          <code>{stack}</code>
-        </pre>
-      )}
-    </main>
-  );
+  return <ErrorPage error={error} />;
 }
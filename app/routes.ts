@@ -1,6 +1,54 @@
-import { type RouteConfig, index, route } from "@react-router/dev/routes";
+import { type RouteConfig, index, layout, prefix, route } from "@react-router/dev/routes";
 
 export default [
-  index("routes/home/home.tsx"),
-  route("artist/:id", "routes/artist/artist.$id.tsx")
+  route(":lang?", "routes/locale.tsx", [
+    index("routes/home/home.tsx"),
+    route("artist/:id", "routes/artist/artist.$id.tsx"),
+    route("artist/:id/album/:albumSlug", "routes/artist/album.$albumSlug.tsx"),
+    route("genre/:slug", "routes/genre/genre.$slug.tsx"),
+    route("notre-crew", "routes/notre-crew/notre-crew.tsx"),
+    route("artists", "routes/artists/artists.tsx"),
+    route("groups", "routes/artists/groups.ts"),
+    route("contact", "routes/contact/contact.tsx"),
+    route("scenes", "routes/scenes/scenes.tsx"),
+    route("scenes/:country", "routes/scenes/scenes.$country.tsx"),
+    route("festivals", "routes/festivals/festivals.tsx"),
+    route("festivals/:slug", "routes/festivals/festivals.$slug.tsx"),
+    route("search", "routes/search/search.tsx"),
+    route("random-album", "routes/random-album.tsx"),
+    route("ma-collection", "routes/ma-collection/ma-collection.tsx"),
+    route("*", "routes/not-found.tsx"),
+  ]),
+  route("resources/search", "routes/resources/search.ts"),
+  route("sitemap.xml", "routes/seo/sitemap.ts"),
+  route("sitemaps/:file", "routes/seo/sitemaps.$file.ts"),
+  route("robots.txt", "routes/seo/robots.ts"),
+  route("og/artist/:file", "routes/og/artist.$file.ts"),
+  route("og/artist/:id/album/:file", "routes/og/album.$file.ts"),
+  ...prefix("api", [
+    route("openapi.json", "routes/api/openapi.ts"),
+    route("groups", "routes/api/groups.ts"),
+    route("groups/:id", "routes/api/groups.$id.ts"),
+    route("albums", "routes/api/albums.ts"),
+    route("albums/*", "routes/api/albums.$.ts"),
+    route("*", "routes/api/not-found.ts"),
+  ]),
+  ...prefix("admin", [
+    route("login", "routes/admin/login.tsx"),
+    route("logout", "routes/admin/logout.ts"),
+    route("catalog/export/:format", "routes/admin/catalog.export.ts"),
+    layout("routes/admin/layout.tsx", [
+      index("routes/admin/index.tsx"),
+      route("groups", "routes/admin/groups.tsx"),
+      route("groups/new", "routes/admin/groups.new.tsx"),
+      route("groups/:id", "routes/admin/groups.$id.tsx"),
+      route("groups/:id/albums/new", "routes/admin/albums.new.tsx"),
+      route("groups/:id/albums/:slug", "routes/admin/albums.$slug.tsx"),
+      route("carousel", "routes/admin/carousel.tsx"),
+      route("carousel/new", "routes/admin/carousel.new.tsx"),
+      route("carousel/:itemId", "routes/admin/carousel.$itemId.tsx"),
+      route("catalog", "routes/admin/catalog.tsx"),
+      route("inbox", "routes/admin/inbox.tsx"),
+    ]),
+  ]),
 ] satisfies RouteConfig;
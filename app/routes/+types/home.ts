@@ -1,5 +0,0 @@
-import type { MetaFunction } from "react-router";
-
-export interface Route {
-  MetaArgs: Parameters<MetaFunction>[0];
-}
@@ -1,18 +0,0 @@
-export default function NotreCrew() {
-    return (
-      <main className="pt-20 p-8 text-center">
-        <h1 className="text-4xl font-bold mb-6">Notre Crew</h1>
-        <img
-          src="/assets/images/logo_echos.svg"
-          alt="Logo ECHOS"
-          className="mx-auto w-32 mb-6"
-        />
-        <p className="max-w-xl mx-auto text-lg">
-          On est une bande de passionnés de musique, de création et de culture rock.
-          Notre crew c’est avant tout une famille où chacun apporte son énergie, son talent,
-          et surtout son amour du son brut et sincère.
-        </p>
-      </main>
-    );
-  }
-  
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { data } from "react-router";
+import AlbumForm, { toAlbumFormValues } from "~/components/admin/AlbumForm";
+import DeleteButton from "~/components/admin/DeleteButton";
+import { albumKey } from "~/catalog/keys";
+import { CatalogNotFoundError, getCatalogRepository } from "~/.server/catalog";
+import { READ_ONLY_MESSAGE, validateAlbumForm } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/albums.$slug";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const album = await getCatalogRepository().getAlbum(
+    albumKey(params.id, params.slug)
+  );
+  if (!album) {
+    throw data("Album introuvable", { status: 404 });
+  }
+  return { album };
+}
+
+// Album supprimé entre-temps, depuis un autre onglet par exemple
+const albumNotFound = (error: unknown): never => {
+  if (error instanceof CatalogNotFoundError) {
+    throw data("Album introuvable", { status: 404 });
+  }
+  throw error;
+};
+
+export async function action({ request, params }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  if (!repository.writable) {
+    return data({ formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+
+  const key = albumKey(params.id, params.slug);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "delete") {
+    const group = await repository.getGroup(params.id);
+    // Un groupe sans album casse la page artiste et le collage
+    if (group && group.albums.length <= 1) {
+      return data(
+        { formError: "Impossible de supprimer le dernier album d'un groupe : supprimez plutôt le groupe." },
+        { status: 409 }
+      );
+    }
+    await repository.deleteAlbum(key).catch(albumNotFound);
+    return redirectWithNotice(request, `/admin/groups/${params.id}`, "Album supprimé.");
+  }
+
+  const result = validateAlbumForm(formData);
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+
+  const { slug: _slug, ...input } = result.values;
+  const album = await repository
+    .updateAlbum(key, input)
+    .catch(albumNotFound);
+  return redirectWithNotice(
+    request,
+    `/admin/groups/${params.id}`,
+    `Album « ${album.title} » enregistré.`
+  );
+}
+
+export default function AdminEditAlbum({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { album } = loaderData;
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h1 className="text-7xl font-bold title-stroke red">
+          {album.title} · {album.groupName}
+        </h1>
+        <DeleteButton
+          label="Supprimer l'album"
+          confirmation={`Supprimer « ${album.title} » ?`}
+        />
+      </div>
+      <img src={album.src} alt={album.alt} className="size-64 object-cover rounded-xs" />
+      <AlbumForm
+        defaultValues={
+          actionData && "values" in actionData
+            ? { ...actionData.values, slug: album.slug }
+            : toAlbumFormValues(album)
+        }
+        errors={actionData && "errors" in actionData ? actionData.errors : undefined}
+        formError={actionData && "formError" in actionData ? actionData.formError : undefined}
+      />
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+import { data } from "react-router";
+import AlbumForm from "~/components/admin/AlbumForm";
+import { getCatalogRepository } from "~/.server/catalog";
+import { READ_ONLY_MESSAGE, validateAlbumForm } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/albums.new";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const group = await getCatalogRepository().getGroup(params.id);
+  if (!group) {
+    throw data("Groupe introuvable", { status: 404 });
+  }
+  return { group: { id: group.id, name: group.name } };
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  if (!repository.writable) {
+    return data({ formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+
+  const group = await repository.getGroup(params.id);
+  if (!group) {
+    throw data("Groupe introuvable", { status: 404 });
+  }
+
+  const result = validateAlbumForm(await request.formData(), {
+    takenSlugs: new Set(group.albums.map((album) => album.slug)),
+  });
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+
+  const album = await repository.createAlbum(group.id, result.values);
+  return redirectWithNotice(
+    request,
+    `/admin/groups/${group.id}`,
+    `Album « ${album.title} » ajouté.`
+  );
+}
+
+export default function AdminNewAlbum({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  return (
+    <>
+      <h1 className="text-7xl font-bold title-stroke red">
+        Nouvel album · {loaderData.group.name}
+      </h1>
+      <AlbumForm
+        isNew
+        defaultValues={actionData && "values" in actionData ? actionData.values : undefined}
+        errors={actionData && "errors" in actionData ? actionData.errors : undefined}
+        formError={actionData && "formError" in actionData ? actionData.formError : undefined}
+      />
+    </>
+  );
+}
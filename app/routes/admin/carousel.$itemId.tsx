@@ -0,0 +1,72 @@
+import { data } from "react-router";
+import CarouselItemForm from "~/components/admin/CarouselItemForm";
+import DeleteButton from "~/components/admin/DeleteButton";
+import { CatalogNotFoundError, getCatalogRepository } from "~/.server/catalog";
+import { READ_ONLY_MESSAGE, validateCarouselForm } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/carousel.$itemId";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const item = await getCatalogRepository().getCarouselItem(Number(params.itemId));
+  if (!item) {
+    throw data("Slide introuvable", { status: 404 });
+  }
+  return { item };
+}
+
+// Slide supprimée entre-temps, depuis un autre onglet par exemple
+const itemNotFound = (error: unknown): never => {
+  if (error instanceof CatalogNotFoundError) {
+    throw data("Slide introuvable", { status: 404 });
+  }
+  throw error;
+};
+
+export async function action({ request, params }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  if (!repository.writable) {
+    return data({ formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+
+  const id = Number(params.itemId);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "delete") {
+    await repository.deleteCarouselItem(id).catch(itemNotFound);
+    return redirectWithNotice(request, "/admin/carousel", "Slide supprimée.");
+  }
+
+  const result = validateCarouselForm(formData);
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+
+  const item = await repository
+    .updateCarouselItem(id, result.values)
+    .catch(itemNotFound);
+  return redirectWithNotice(request, "/admin/carousel", `Slide « ${item.title} » enregistrée.`);
+}
+
+export default function AdminEditCarouselItem({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { item } = loaderData;
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h1 className="text-7xl font-bold title-stroke red">{item.title}</h1>
+        <DeleteButton label="Supprimer la slide" confirmation={`Supprimer « ${item.title} » ?`} />
+      </div>
+      <img src={item.image} alt="" className="w-full max-w-4xl h-64 object-cover rounded-xs" />
+      <CarouselItemForm
+        defaultValues={actionData && "values" in actionData ? actionData.values : item}
+        errors={actionData && "errors" in actionData ? actionData.errors : undefined}
+        formError={actionData && "formError" in actionData ? actionData.formError : undefined}
+      />
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import { data } from "react-router";
+import CarouselItemForm from "~/components/admin/CarouselItemForm";
+import { getCatalogRepository } from "~/.server/catalog";
+import { READ_ONLY_MESSAGE, validateCarouselForm } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/carousel.new";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  return null;
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  if (!repository.writable) {
+    return data({ formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+
+  const result = validateCarouselForm(await request.formData());
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+
+  const item = await repository.createCarouselItem(result.values);
+  return redirectWithNotice(request, "/admin/carousel", `Slide « ${item.title} » ajoutée.`);
+}
+
+export default function AdminNewCarouselItem({ actionData }: Route.ComponentProps) {
+  return (
+    <>
+      <h1 className="text-7xl font-bold title-stroke red">Nouvelle slide</h1>
+      <CarouselItemForm
+        defaultValues={actionData && "values" in actionData ? actionData.values : undefined}
+        errors={actionData && "errors" in actionData ? actionData.errors : undefined}
+        formError={actionData && "formError" in actionData ? actionData.formError : undefined}
+      />
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import { Link } from "react-router";
+import { getCatalogRepository } from "~/.server/catalog";
+import { requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/carousel";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  return { items: await getCatalogRepository().listCarouselItems() };
+}
+
+export default function AdminCarousel({ loaderData }: Route.ComponentProps) {
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h1 className="text-7xl font-bold title-stroke red">Carrousel</h1>
+        <Link to="/admin/carousel/new" className="button-red">
+          Nouvelle slide
+        </Link>
+      </div>
+      <ol className="flex flex-col gap-4">
+        {loaderData.items.map((item) => (
+          <li key={item.id}>
+            <Link
+              to={`/admin/carousel/${item.id}`}
+              className="flex items-center gap-6 bg-white/10 hover:bg-white/15 transition-colors rounded-xs p-4 no-underline"
+            >
+              <img src={item.image} alt="" className="w-48 h-24 object-cover rounded-xs" />
+              <div className="flex flex-col">
+                <span className="text-3xl text-white">{item.title}</span>
+                <span className="text-xl text-white/60">{item.description}</span>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+}
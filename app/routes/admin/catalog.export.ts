@@ -0,0 +1,30 @@
+import { data } from "react-router";
+import { getCatalogRepository } from "~/.server/catalog";
+import { catalogToCsv, catalogToJson } from "~/.server/admin/transfer";
+import { requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/catalog.export";
+
+const FORMATS = {
+  csv: { contentType: "text/csv; charset=utf-8", serialize: catalogToCsv },
+  json: { contentType: "application/json; charset=utf-8", serialize: catalogToJson },
+};
+
+// Téléchargement du catalogue complet : `/admin/catalog/export/csv` ou `/json`
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  if (!(params.format in FORMATS)) {
+    throw data("Format d'export inconnu", { status: 404 });
+  }
+
+  const { contentType, serialize } = FORMATS[params.format as keyof typeof FORMATS];
+  const groups = await getCatalogRepository().listGroups();
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new Response(serialize(groups), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="echos-catalogue-${date}.${params.format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
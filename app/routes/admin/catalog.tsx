@@ -0,0 +1,233 @@
+import { Form, data, useNavigation } from "react-router";
+import AdminFormError from "~/components/admin/AdminFormError";
+import { getCatalogRepository } from "~/.server/catalog";
+import {
+  applyImportPlan,
+  countChanges,
+  planCsvImport,
+} from "~/.server/admin/transfer";
+import type { ImportChange } from "~/.server/admin/transfer";
+import { READ_ONLY_MESSAGE } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/catalog";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  return { writable: getCatalogRepository().writable };
+}
+
+// `preview` calcule le diff sans rien écrire ; `apply` recalcule puis écrit
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const file = formData.get("file");
+  const csv =
+    intent === "apply"
+      ? String(formData.get("csv") ?? "")
+      : file instanceof File
+        ? await file.text()
+        : "";
+
+  if (!csv.trim()) {
+    return data({ formError: "Choisissez un fichier CSV." }, { status: 400 });
+  }
+
+  const plan = planCsvImport(csv, await repository.listGroups());
+  const preview = {
+    csv,
+    issues: plan.issues,
+    changes: plan.changes,
+    counts: countChanges(plan.changes),
+    valid: plan.valid,
+  };
+
+  if (intent !== "apply") return preview;
+  if (!repository.writable) {
+    return data({ ...preview, formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+  if (!plan.valid) return data(preview, { status: 400 });
+
+  await applyImportPlan(repository, plan);
+  const { added, changed, removed } = preview.counts;
+  return redirectWithNotice(
+    request,
+    "/admin/catalog",
+    `Import appliqué : ${added} ajout(s), ${changed} modification(s), ${removed} suppression(s).`
+  );
+}
+
+const STATUS_LABELS: Record<ImportChange["status"], string> = {
+  added: "Ajout",
+  changed: "Modification",
+  removed: "Suppression",
+};
+
+const STATUS_CLASSNAMES: Record<ImportChange["status"], string> = {
+  added: "text-green-400",
+  changed: "text-yellow-400",
+  removed: "text-[#ff6b6b]",
+};
+
+const TYPE_LABELS: Record<ImportChange["type"], string> = {
+  group: "Groupe",
+  album: "Album",
+};
+
+export default function AdminCatalog({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const preview = actionData && "changes" in actionData ? actionData : undefined;
+  const errors = preview?.issues.filter((issue) => issue.severity === "error") ?? [];
+  const warnings = preview?.issues.filter((issue) => issue.severity === "warning") ?? [];
+
+  return (
+    <>
+      <h1 className="text-7xl font-bold title-stroke red">Import / export</h1>
+
+      <section className="flex flex-col gap-4 max-w-4xl">
+        <h2 className="text-4xl font-bold">Exporter</h2>
+        <p className="text-xl text-white/70">
+          Le CSV contient une ligne par album, avec les colonnes du groupe
+          répétées sur chaque ligne. Les listes (line-up, liens, titres)
+          utilisent le même format que les formulaires, une entrée par ligne
+          dans la cellule. Le JSON a la forme de <code>app/data/groups.json</code>.
+        </p>
+        <div className="flex gap-4">
+          <a href="/admin/catalog/export/csv" className="button-red" download>
+            Exporter en CSV
+          </a>
+          <a href="/admin/catalog/export/json" className="button-red" download>
+            Exporter en JSON
+          </a>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-4 max-w-4xl">
+        <h2 className="text-4xl font-bold">Importer un CSV</h2>
+        <p className="text-xl text-white/70">
+          Le fichier remplace tout le catalogue : les groupes et albums absents
+          du CSV seront supprimés. Rien n'est écrit avant la confirmation.
+        </p>
+        <AdminFormError
+          message={actionData && "formError" in actionData ? actionData.formError : undefined}
+        />
+        <Form method="post" encType="multipart/form-data" className="flex items-center gap-4">
+          <input
+            type="file"
+            name="file"
+            accept=".csv,text/csv"
+            required
+            aria-label="Fichier CSV"
+            className="text-xl"
+          />
+          <button
+            type="submit"
+            name="intent"
+            value="preview"
+            disabled={isSubmitting}
+            className="button-red"
+          >
+            Prévisualiser
+          </button>
+        </Form>
+      </section>
+
+      {preview && (
+        <section className="flex flex-col gap-6" aria-live="polite">
+          <h2 className="text-4xl font-bold">Aperçu</h2>
+
+          {errors.length > 0 && (
+            <div className="flex flex-col gap-2" role="alert">
+              <p className="text-2xl text-[#ff6b6b]">
+                {errors.length} erreur(s) : corrigez le fichier puis
+                prévisualisez-le à nouveau.
+              </p>
+              <ul className="text-xl flex flex-col gap-1">
+                {errors.map((issue, index) => (
+                  <li key={index}>
+                    {issue.row && <strong>Ligne {issue.row}</strong>}
+                    {issue.column && <code className="text-white/60"> {issue.column}</code>}
+                    {issue.row || issue.column ? " : " : ""}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <ul className="text-xl text-yellow-400 flex flex-col gap-1">
+              {warnings.map((issue, index) => (
+                <li key={index}>
+                  {issue.column && <code>{issue.column}</code>} : {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-2xl">
+            {preview.counts.added} ajout(s), {preview.counts.changed} modification(s),{" "}
+            {preview.counts.removed} suppression(s).
+          </p>
+
+          {preview.changes.length > 0 && (
+            <table className="w-full text-left text-xl">
+              <thead className="text-white/50 border-b border-white/20">
+                <tr>
+                  <th className="py-3">Changement</th>
+                  <th className="py-3">Type</th>
+                  <th className="py-3">Élément</th>
+                  <th className="py-3">Colonnes modifiées</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.changes.map((change) => (
+                  <tr key={`${change.type}:${change.key}`} className="border-b border-white/10">
+                    <td className={`py-3 ${STATUS_CLASSNAMES[change.status]}`}>
+                      {STATUS_LABELS[change.status]}
+                    </td>
+                    <td className="py-3">{TYPE_LABELS[change.type]}</td>
+                    <td className="py-3">
+                      {change.label} <span className="text-white/50">{change.key}</span>
+                    </td>
+                    <td className="py-3 text-white/60">{change.columns.join(", ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {preview.valid && preview.changes.length > 0 && loaderData.writable && (
+            <Form
+              method="post"
+              onSubmit={(event) => {
+                if (
+                  preview.counts.removed > 0 &&
+                  !window.confirm(`Supprimer ${preview.counts.removed} élément(s) du catalogue ?`)
+                ) {
+                  event.preventDefault();
+                }
+              }}
+            >
+              <input type="hidden" name="csv" value={preview.csv} />
+              <button
+                type="submit"
+                name="intent"
+                value="apply"
+                disabled={isSubmitting}
+                className="button-red"
+              >
+                Appliquer l'import
+              </button>
+            </Form>
+          )}
+        </section>
+      )}
+    </>
+  );
+}
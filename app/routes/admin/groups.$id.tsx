@@ -0,0 +1,120 @@
+import { Link, data } from "react-router";
+import DeleteButton from "~/components/admin/DeleteButton";
+import GroupForm, { toGroupFormValues } from "~/components/admin/GroupForm";
+import { CatalogNotFoundError, getCatalogRepository } from "~/.server/catalog";
+import { READ_ONLY_MESSAGE, validateGroupForm } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/groups.$id";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const group = await getCatalogRepository().getGroup(params.id);
+  if (!group) {
+    throw data("Groupe introuvable", { status: 404 });
+  }
+  return { group };
+}
+
+// Groupe supprimé entre-temps, depuis un autre onglet par exemple
+const groupNotFound = (error: unknown): never => {
+  if (error instanceof CatalogNotFoundError) {
+    throw data("Groupe introuvable", { status: 404 });
+  }
+  throw error;
+};
+
+export async function action({ request, params }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  if (!repository.writable) {
+    return data({ formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "delete") {
+    await repository.deleteGroup(params.id).catch(groupNotFound);
+    return redirectWithNotice(request, "/admin/groups", "Groupe supprimé.");
+  }
+
+  // Même règle que `app/catalog/schema.ts` : pas de groupe sans album
+  const current = await repository.getGroup(params.id);
+  if (!current) throw data("Groupe introuvable", { status: 404 });
+  if (current.albums.length === 0) {
+    return data(
+      { formError: "Ce groupe n'a aucun album : ajoutez-en un avant d'enregistrer." },
+      { status: 409 }
+    );
+  }
+
+  const result = validateGroupForm(formData);
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+
+  const { id: _id, ...input } = result.values;
+  const group = await repository
+    .updateGroup(params.id, input)
+    .catch(groupNotFound);
+  return redirectWithNotice(
+    request,
+    `/admin/groups/${group.id}`,
+    `Groupe « ${group.name} » enregistré.`
+  );
+}
+
+export default function AdminEditGroup({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { group } = loaderData;
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h1 className="text-7xl font-bold title-stroke red">{group.name}</h1>
+        <div className="flex items-center gap-6">
+          <Link to={`/artist/${group.id}`} className="text-2xl text-white/70 hover:text-white">
+            Voir la page
+          </Link>
+          <DeleteButton
+            label="Supprimer le groupe"
+            confirmation={`Supprimer « ${group.name} » et ses ${group.albums.length} album(s) ?`}
+          />
+        </div>
+      </div>
+
+      <GroupForm
+        defaultValues={
+          actionData && "values" in actionData
+            ? { ...actionData.values, id: group.id }
+            : toGroupFormValues(group)
+        }
+        errors={actionData && "errors" in actionData ? actionData.errors : undefined}
+        formError={actionData && "formError" in actionData ? actionData.formError : undefined}
+      />
+
+      <section className="flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-5xl font-bold">Albums</h2>
+          <Link to={`/admin/groups/${group.id}/albums/new`} className="button-red">
+            Nouvel album
+          </Link>
+        </div>
+        <ul className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {group.albums.map((album) => (
+            <li key={album.key}>
+              <Link
+                to={`/admin/groups/${group.id}/albums/${album.slug}`}
+                className="flex items-center gap-4 bg-white/10 hover:bg-white/15 transition-colors rounded-xs p-4 no-underline"
+              >
+                <img src={album.src} alt={album.alt} className="size-20 object-cover rounded-xs" />
+                <span className="text-2xl text-white">{album.title}</span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+import { data } from "react-router";
+import { AlbumFields, FIRST_ALBUM_PREFIX } from "~/components/admin/AlbumForm";
+import GroupForm from "~/components/admin/GroupForm";
+import { getCatalogRepository } from "~/.server/catalog";
+import { READ_ONLY_MESSAGE, validateNewGroupForm } from "~/.server/admin/validation";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/groups.new";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  return null;
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  if (!repository.writable) {
+    return data({ formError: READ_ONLY_MESSAGE }, { status: 409 });
+  }
+
+  const groups = await repository.listGroups();
+  const result = validateNewGroupForm(await request.formData(), {
+    takenIds: new Set(groups.map((group) => group.id)),
+    albumPrefix: FIRST_ALBUM_PREFIX,
+  });
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+
+  // Le groupe n'existe jamais sans son premier album
+  const group = await repository.transaction(async () => {
+    const created = await repository.createGroup(result.values.group);
+    await repository.createAlbum(created.id, result.values.album);
+    return created;
+  });
+  return redirectWithNotice(
+    request,
+    `/admin/groups/${group.id}`,
+    `Groupe « ${group.name} » créé.`
+  );
+}
+
+// Champs du premier album, sous leur nom court
+const albumEntries = (record: Record<string, string> | undefined) =>
+  Object.fromEntries(
+    Object.entries(record ?? {})
+      .filter(([name]) => name.startsWith(FIRST_ALBUM_PREFIX))
+      .map(([name, value]) => [name.slice(FIRST_ALBUM_PREFIX.length), value])
+  );
+
+export default function AdminNewGroup({ actionData }: Route.ComponentProps) {
+  const values = actionData && "values" in actionData ? actionData.values : undefined;
+  const errors = actionData && "errors" in actionData ? actionData.errors : undefined;
+
+  return (
+    <>
+      <h1 className="text-7xl font-bold title-stroke red">Nouveau groupe</h1>
+      <GroupForm
+        isNew
+        defaultValues={values}
+        errors={errors}
+        formError={actionData && "formError" in actionData ? actionData.formError : undefined}
+      >
+        <h2 className="text-4xl font-bold mt-6">Premier album</h2>
+        <p className="text-xl text-white/70">Un groupe a toujours au moins un album.</p>
+        <AlbumFields
+          isNew
+          prefix={FIRST_ALBUM_PREFIX}
+          defaultValues={albumEntries(values)}
+          errors={albumEntries(errors)}
+        />
+      </GroupForm>
+    </>
+  );
+}
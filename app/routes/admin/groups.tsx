@@ -0,0 +1,58 @@
+import { Link } from "react-router";
+import { getCatalogRepository } from "~/.server/catalog";
+import { requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/groups";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const groups = await getCatalogRepository().listGroups();
+
+  return {
+    groups: groups.map((group) => ({
+      id: group.id,
+      name: group.name,
+      genre: group.genre,
+      origin: group.origin,
+      albumCount: group.albums.length,
+    })),
+  };
+}
+
+export default function AdminGroups({ loaderData }: Route.ComponentProps) {
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h1 className="text-7xl font-bold title-stroke red">Groupes</h1>
+        <Link to="/admin/groups/new" className="button-red">
+          Nouveau groupe
+        </Link>
+      </div>
+      <table className="w-full text-left text-xl">
+        <thead className="text-white/50 border-b border-white/20">
+          <tr>
+            <th className="py-3">Nom</th>
+            <th className="py-3">Identifiant</th>
+            <th className="py-3">Genre</th>
+            <th className="py-3">Origine</th>
+            <th className="py-3 text-right">Albums</th>
+          </tr>
+        </thead>
+        <tbody>
+          {loaderData.groups.map((group) => (
+            <tr key={group.id} className="border-b border-white/10">
+              <td className="py-3">
+                <Link to={`/admin/groups/${group.id}`} className="text-white hover:text-[#B5252A]">
+                  {group.name}
+                </Link>
+              </td>
+              <td className="py-3 text-white/50">{group.id}</td>
+              <td className="py-3">{group.genre}</td>
+              <td className="py-3">{group.origin}</td>
+              <td className="py-3 text-right">{group.albumCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
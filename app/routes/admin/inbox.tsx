@@ -0,0 +1,112 @@
+import { Form, data } from "react-router";
+import DeleteButton from "~/components/admin/DeleteButton";
+import { DEFAULT_LOCALE, LOCALE_TAGS } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getContactOutbox } from "~/.server/contact";
+import { redirectWithNotice, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/inbox";
+
+const dateFormat = new Intl.DateTimeFormat(LOCALE_TAGS[DEFAULT_LOCALE], {
+  dateStyle: "medium",
+  timeStyle: "short",
+  timeZone: "Europe/Paris",
+});
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const messages = await getContactOutbox().list();
+  // Dates formatées côté serveur pour un rendu identique à l'hydratation
+  return {
+    messages: messages.map((message) => ({
+      ...message,
+      date: dateFormat.format(new Date(message.createdAt)),
+    })),
+  };
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request);
+  const formData = await request.formData();
+  const id = Number(formData.get("id"));
+  if (!Number.isInteger(id)) {
+    throw data("Message introuvable", { status: 404 });
+  }
+
+  const outbox = getContactOutbox();
+  switch (formData.get("intent")) {
+    case "read":
+      await outbox.markRead(id);
+      return redirectWithNotice(request, "/admin/inbox", "Message marqué comme lu.");
+    case "delete":
+      await outbox.remove(id);
+      return redirectWithNotice(request, "/admin/inbox", "Message supprimé.");
+    default:
+      throw data("Action inconnue", { status: 400 });
+  }
+}
+
+export default function AdminInbox({ loaderData }: Route.ComponentProps) {
+  const { messages } = loaderData;
+
+  return (
+    <>
+      <h1 className="text-7xl font-bold title-stroke red">Messages</h1>
+      {messages.length === 0 ? (
+        <p className="text-2xl text-white/70">
+          Aucun message reçu depuis le formulaire de contact.
+        </p>
+      ) : (
+        <ol className="flex flex-col gap-4">
+          {messages.map((message) => (
+            <li
+              key={message.id}
+              className={`flex flex-col gap-3 rounded-xs p-6 ${
+                message.readAt ? "bg-white/5" : "bg-white/10 border-l-4 border-[#B5252A]"
+              }`}
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-4">
+                <div className="flex flex-col">
+                  <span className="text-3xl">
+                    {translate(DEFAULT_LOCALE, `contact.subject.${message.subject}`)}
+                    {!message.readAt && (
+                      <span className="ml-4 text-lg text-[#B5252A] uppercase">Nouveau</span>
+                    )}
+                  </span>
+                  <span className="text-xl text-white/60">
+                    {message.name} · <a href={`mailto:${message.email}`}>{message.email}</a>
+                    {" · "}
+                    {message.locale.toUpperCase()}
+                  </span>
+                </div>
+                <time dateTime={message.createdAt} className="text-xl text-white/60">
+                  {message.date}
+                </time>
+              </div>
+              <p className="text-2xl whitespace-pre-line">{message.message}</p>
+              <div className="flex gap-4">
+                {!message.readAt && (
+                  <Form method="post">
+                    <input type="hidden" name="id" value={message.id} />
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="read"
+                      className="text-xl border border-white/30 px-4 py-2 rounded-xs hover:bg-white hover:text-black transition-colors cursor-pointer"
+                    >
+                      Marquer comme lu
+                    </button>
+                  </Form>
+                )}
+                <DeleteButton
+                  label="Supprimer"
+                  confirmation={`Supprimer le message de ${message.name} ?`}
+                  fields={{ id: String(message.id) }}
+                />
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </>
+  );
+}
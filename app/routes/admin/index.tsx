@@ -0,0 +1,49 @@
+import { Link } from "react-router";
+import { getCatalogRepository } from "~/.server/catalog";
+import { requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/index";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request);
+  const repository = getCatalogRepository();
+  const [groups, albums, carouselItems] = await Promise.all([
+    repository.listGroups(),
+    repository.listAlbums(),
+    repository.listCarouselItems(),
+  ]);
+
+  return {
+    counts: {
+      groups: groups.length,
+      albums: albums.length,
+      carouselItems: carouselItems.length,
+    },
+  };
+}
+
+export default function AdminDashboard({ loaderData }: Route.ComponentProps) {
+  const { counts } = loaderData;
+  const cards = [
+    { to: "/admin/groups", label: "Groupes", count: counts.groups },
+    { to: "/admin/groups", label: "Albums", count: counts.albums },
+    { to: "/admin/carousel", label: "Slides du carrousel", count: counts.carouselItems },
+  ];
+
+  return (
+    <>
+      <h1 className="text-7xl font-bold title-stroke red">Tableau de bord</h1>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        {cards.map((card) => (
+          <Link
+            key={card.label}
+            to={card.to}
+            className="bg-white/10 hover:bg-white/15 transition-colors rounded-xs p-8 no-underline"
+          >
+            <p className="text-8xl font-bold text-white">{card.count}</p>
+            <p className="text-3xl text-white/70">{card.label}</p>
+          </Link>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,98 @@
+import { Form, NavLink, Outlet, data } from "react-router";
+import { getCatalogRepository } from "~/.server/catalog";
+import { getContactOutbox } from "~/.server/contact";
+import { READ_ONLY_MESSAGE } from "~/.server/admin/validation";
+import { commitAdminSession, requireAdmin } from "~/.server/session";
+import type { Route } from "./+types/layout";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Admin ECHOS" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const session = await requireAdmin(request);
+  const notice = session.get("notice") ?? null;
+  const readOnlyNotice = getCatalogRepository().writable
+    ? null
+    : READ_ONLY_MESSAGE;
+
+  const unreadMessages = await getContactOutbox().countUnread();
+
+  return data(
+    { notice, readOnlyNotice, unreadMessages },
+    // Le message flash est consommé : on renvoie la session mise à jour
+    { headers: { "Set-Cookie": await commitAdminSession(session) } }
+  );
+}
+
+const navLinkClassName = ({ isActive }: { isActive: boolean }) =>
+  `transition-colors ${isActive ? "text-[#B5252A]" : "text-white hover:text-[#B5252A]"}`;
+
+export default function AdminLayout({ loaderData }: Route.ComponentProps) {
+  return (
+    <div className="min-h-screen text-white">
+      <header className="bg-black/80 px-16 py-6 flex items-center justify-between">
+        <nav aria-label="Navigation admin">
+          <ul className="flex items-center gap-12 text-3xl">
+            <li>
+              <NavLink to="/admin" end className={navLinkClassName}>
+                Tableau de bord
+              </NavLink>
+            </li>
+            <li>
+              <NavLink to="/admin/groups" className={navLinkClassName}>
+                Groupes
+              </NavLink>
+            </li>
+            <li>
+              <NavLink to="/admin/carousel" className={navLinkClassName}>
+                Carrousel
+              </NavLink>
+            </li>
+            <li>
+              <NavLink to="/admin/catalog" className={navLinkClassName}>
+                Import / export
+              </NavLink>
+            </li>
+            <li>
+              <NavLink to="/admin/inbox" className={navLinkClassName}>
+                Messages
+                {loaderData.unreadMessages > 0 && ` (${loaderData.unreadMessages})`}
+              </NavLink>
+            </li>
+          </ul>
+        </nav>
+        <div className="flex items-center gap-8 text-2xl">
+          <a href="/" className="text-white/70 hover:text-white">
+            Voir le site
+          </a>
+          <Form method="post" action="/admin/logout">
+            <button type="submit" className="text-white/70 hover:text-white cursor-pointer">
+              Déconnexion
+            </button>
+          </Form>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12 flex flex-col gap-8">
+        {loaderData.readOnlyNotice && (
+          <p className="bg-yellow-500/20 border border-yellow-500 text-xl px-4 py-3 rounded-xs">
+            {loaderData.readOnlyNotice}
+          </p>
+        )}
+        {loaderData.notice && (
+          <p
+            className="bg-green-600/20 border border-green-600 text-xl px-4 py-3 rounded-xs"
+            role="status"
+          >
+            {loaderData.notice}
+          </p>
+        )}
+        <Outlet />
+      </main>
+    </div>
+  );
+}
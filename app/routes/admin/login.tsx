@@ -0,0 +1,83 @@
+import { Form, data, redirect, useNavigation } from "react-router";
+import AdminField from "~/components/admin/AdminField";
+import AdminFormError from "~/components/admin/AdminFormError";
+import {
+  commitAdminSession,
+  getAdminSession,
+  isAdminConfigured,
+  isAdminPassword,
+} from "~/.server/session";
+import type { Route } from "./+types/login";
+
+const safeRedirect = (to: FormDataEntryValue | string | null) =>
+  typeof to === "string" && to.startsWith("/admin") && !to.startsWith("//")
+    ? to
+    : "/admin";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Connexion - Admin ECHOS" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const session = await getAdminSession(request);
+  const redirectTo = safeRedirect(
+    new URL(request.url).searchParams.get("redirectTo")
+  );
+
+  if (session.get("isAdmin")) throw redirect(redirectTo);
+
+  return { redirectTo, configured: isAdminConfigured() };
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const password = formData.get("password");
+
+  if (typeof password !== "string" || !isAdminPassword(password)) {
+    return data({ error: "Mot de passe incorrect." }, { status: 401 });
+  }
+
+  const session = await getAdminSession(request);
+  session.set("isAdmin", true);
+
+  return redirect(safeRedirect(formData.get("redirectTo")), {
+    headers: { "Set-Cookie": await commitAdminSession(session) },
+  });
+}
+
+export default function AdminLogin({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const navigation = useNavigation();
+
+  return (
+    <main className="min-h-screen flex items-center justify-center text-white px-4">
+      <Form
+        method="post"
+        className="w-full max-w-xl flex flex-col gap-6 bg-black/60 p-10 rounded-xs"
+      >
+        <h1 className="text-6xl font-bold title-stroke red">Admin</h1>
+        {loaderData.configured ? (
+          <>
+            <AdminFormError message={actionData?.error} />
+            <input type="hidden" name="redirectTo" value={loaderData.redirectTo} />
+            <AdminField label="Mot de passe" name="password" type="password" />
+            <button
+              type="submit"
+              className="button-red self-start"
+              disabled={navigation.state === "submitting"}
+            >
+              Se connecter
+            </button>
+          </>
+        ) : (
+          <AdminFormError message="L'administration est désactivée : définissez ADMIN_PASSWORD sur le serveur." />
+        )}
+      </Form>
+    </main>
+  );
+}
@@ -0,0 +1,28 @@
+import { getCatalogRepository } from "~/.server/catalog";
+import { ALBUM_FIELDS } from "~/.server/api/fields";
+import { apiError, apiJson, methodNotAllowed } from "~/.server/api/http";
+import { parseFields, pickFields } from "~/.server/api/query";
+import type { Route } from "./+types/albums.$";
+
+// `/api/albums/arch-enemy/blood-dynasty` ou `/api/albums/arch-enemy%2Fblood-dynasty`
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const fields = parseFields(new URL(request.url).searchParams, ALBUM_FIELDS);
+  const raw = params["*"] ?? "";
+  let key: string;
+  try {
+    key = decodeURIComponent(raw);
+  } catch {
+    throw apiError(400, "invalid_key", `Malformed album key "${raw}".`, {
+      key: raw,
+    });
+  }
+  const album = await getCatalogRepository().getAlbum(key);
+
+  if (!album) {
+    throw apiError(404, "album_not_found", `No album with key "${key}".`);
+  }
+
+  return apiJson(request, { data: pickFields(album, fields) });
+}
+
+export const action = methodNotAllowed;
@@ -0,0 +1,31 @@
+import { getCatalogRepository } from "~/.server/catalog";
+import { ALBUM_FIELDS } from "~/.server/api/fields";
+import { apiJson, methodNotAllowed } from "~/.server/api/http";
+import {
+  createGroupFilter,
+  paginate,
+  parseFields,
+  parsePagination,
+  pickFields,
+} from "~/.server/api/query";
+import type { Route } from "./+types/albums";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  const pagination = parsePagination(url.searchParams);
+  const fields = parseFields(url.searchParams, ALBUM_FIELDS);
+  const matches = createGroupFilter(url.searchParams);
+
+  // Les filtres genre/origin portent sur le groupe de l'album
+  const albums = (await getCatalogRepository().listGroups())
+    .filter(matches)
+    .flatMap((group) => group.albums);
+  const page = paginate(url, albums, pagination);
+
+  return apiJson(request, {
+    ...page,
+    data: page.data.map((album) => pickFields(album, fields)),
+  });
+}
+
+export const action = methodNotAllowed;
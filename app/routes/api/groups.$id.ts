@@ -0,0 +1,18 @@
+import { getCatalogRepository } from "~/.server/catalog";
+import { GROUP_FIELDS } from "~/.server/api/fields";
+import { apiError, apiJson, methodNotAllowed } from "~/.server/api/http";
+import { parseFields, pickFields } from "~/.server/api/query";
+import type { Route } from "./+types/groups.$id";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const fields = parseFields(new URL(request.url).searchParams, GROUP_FIELDS);
+  const group = await getCatalogRepository().getGroup(params.id);
+
+  if (!group) {
+    throw apiError(404, "group_not_found", `No group with id "${params.id}".`);
+  }
+
+  return apiJson(request, { data: pickFields(group, fields) });
+}
+
+export const action = methodNotAllowed;
@@ -0,0 +1,28 @@
+import { getCatalogRepository } from "~/.server/catalog";
+import { GROUP_FIELDS } from "~/.server/api/fields";
+import { apiJson, methodNotAllowed } from "~/.server/api/http";
+import {
+  createGroupFilter,
+  paginate,
+  parseFields,
+  parsePagination,
+  pickFields,
+} from "~/.server/api/query";
+import type { Route } from "./+types/groups";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  const pagination = parsePagination(url.searchParams);
+  const fields = parseFields(url.searchParams, GROUP_FIELDS);
+  const matches = createGroupFilter(url.searchParams);
+
+  const groups = (await getCatalogRepository().listGroups()).filter(matches);
+  const page = paginate(url, groups, pagination);
+
+  return apiJson(request, {
+    ...page,
+    data: page.data.map((group) => pickFields(group, fields)),
+  });
+}
+
+export const action = methodNotAllowed;
@@ -0,0 +1,9 @@
+import { apiError } from "~/.server/api/http";
+import type { Route } from "./+types/not-found";
+
+export function loader({ request }: Route.LoaderArgs) {
+  const { pathname } = new URL(request.url);
+  return apiError(404, "not_found", `No API endpoint at ${pathname}.`);
+}
+
+export const action = loader;
@@ -0,0 +1,9 @@
+import { apiJson, methodNotAllowed } from "~/.server/api/http";
+import { buildOpenApiDocument } from "~/.server/api/openapi";
+import type { Route } from "./+types/openapi";
+
+export function loader({ request }: Route.LoaderArgs) {
+  return apiJson(request, buildOpenApiDocument(new URL(request.url).origin));
+}
+
+export const action = methodNotAllowed;
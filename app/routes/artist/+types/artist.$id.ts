@@ -1,5 +0,0 @@
-export interface MetaArgs {
-  params: {
-    id: string;
-  };
-}
@@ -0,0 +1,81 @@
+import { redirect } from "react-router";
+import { albumPath, findAlbumByRef } from "~/catalog/keys";
+import {
+  canonicalLink,
+  jsonLdMeta,
+  musicAlbumJsonLd,
+  socialMeta,
+} from "~/catalog/seo";
+import { localeFromParam, localizePath } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { loadArtist } from "~/.server/artist";
+import { missingArtist, notFound } from "~/.server/errors";
+import { siteOrigin } from "~/.server/site";
+import ArtistPage from "./partials/ArtistPage";
+import type { Route } from "./+types/album.$albumSlug";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const { group, similar, festivals } = await loadArtist(params.id, locale);
+  if (!group) {
+    throw await missingArtist(params.id);
+  }
+
+  // L'ancien identifiant numérique est accepté puis redirigé vers le slug
+  const album = findAlbumByRef(group.albums, params.albumSlug);
+  if (!album) {
+    throw await notFound(params.albumSlug);
+  }
+  if (album.slug !== params.albumSlug) {
+    throw redirect(
+      localizePath(albumPath({ groupId: group.id, slug: album.slug }), locale),
+      301
+    );
+  }
+
+  return { group, album, similar, festivals, origin: siteOrigin(request) };
+}
+
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  if (!data) {
+    return [{ title: translate(locale, "meta.artist.fallbackTitle") }];
+  }
+  const { group, album, origin } = data;
+  const title = translate(locale, "meta.album.title", {
+    title: album.title,
+    name: group.name,
+  });
+  const url =
+    origin +
+    localizePath(albumPath({ groupId: group.id, slug: album.slug }), locale);
+
+  return [
+    { title },
+    { name: "description", content: album.short_description },
+    canonicalLink(url),
+    ...socialMeta({
+      title,
+      description: album.short_description,
+      url,
+      image: `${origin}/og/artist/${group.id}/album/${album.slug}.png`,
+      imageAlt: album.alt,
+      type: "music.album",
+      locale,
+    }),
+    jsonLdMeta(musicAlbumJsonLd(album, group, origin, locale)),
+  ];
+}
+
+export default function AlbumRoute({ loaderData }: Route.ComponentProps) {
+  const { group, album, similar, festivals } = loaderData;
+
+  return (
+    <ArtistPage
+      group={group}
+      selectedAlbum={album}
+      similar={similar}
+      festivals={festivals}
+    />
+  );
+}
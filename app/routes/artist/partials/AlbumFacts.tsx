@@ -0,0 +1,24 @@
+import { formatReleaseDate } from "~/catalog/metadata";
+import type { Album } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+
+interface AlbumFactsProps {
+  album: Pick<Album, "releaseDate" | "label" | "format">;
+  className?: string;
+}
+
+// « 14 mars 2025 · Century Media · LP », rien si aucune info n'est renseignée
+const AlbumFacts = ({ album, className = "" }: AlbumFactsProps) => {
+  const { locale } = useI18n();
+  const facts = [
+    album.releaseDate && formatReleaseDate(album.releaseDate, locale),
+    album.label,
+    album.format,
+  ].filter(Boolean);
+
+  if (facts.length === 0) return null;
+
+  return <p className={`text-white/70 ${className}`}>{facts.join(" · ")}</p>;
+};
+
+export default AlbumFacts;
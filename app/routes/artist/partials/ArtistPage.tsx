@@ -0,0 +1,147 @@
+import { useEffect } from "react";
+import { Link } from "react-router";
+import FavoriteButton from "~/components/FavoriteButton";
+import GenreChips from "~/components/GenreChips";
+import Navigation from "~/components/Navigation";
+import { originKey, scenePath } from "~/catalog/origins";
+import type { Album, Group } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+import { rememberArtist } from "~/hooks/useSearchHistory";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import AlbumFacts from "./AlbumFacts";
+import Discography from "./Discography";
+import ExternalLinks from "./ExternalLinks";
+import FestivalAppearances from "./FestivalAppearances";
+import type { FestivalAppearance } from "./FestivalAppearances";
+import Lineup from "./Lineup";
+import SimilarArtists from "./SimilarArtists";
+import type { SimilarArtist } from "./SimilarArtists";
+import Tracklist from "./Tracklist";
+
+interface ArtistPageProps {
+  group: Group;
+  selectedAlbum?: Album;
+  similar: SimilarArtist[];
+  festivals: FestivalAppearance[];
+}
+
+// Page artiste, partagée par `artist/:id` et `artist/:id/album/:albumSlug`
+const ArtistPage = ({
+  group,
+  selectedAlbum,
+  similar,
+  festivals,
+}: ArtistPageProps) => {
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+  const scene = originKey(group.origin);
+
+  // Proposé ensuite dans la recherche, parmi les artistes consultés
+  useEffect(() => {
+    rememberArtist({ id: group.id, name: group.name });
+  }, [group.id, group.name]);
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        {/* Hero Section */}
+        <div className="relative flex items-center justify-start">
+          <div className="text-left">
+            <h1 className="text-9xl font-bold mb-4 title-stroke red">
+              {group.name}
+            </h1>
+            <div className="flex flex-wrap items-center gap-4 text-white/70 text-3xl mb-4">
+              <GenreChips genre={group.genre} />
+              {scene ? (
+                <Link
+                  to={localize(scenePath(scene))}
+                  className="text-white/70 hover:text-white"
+                >
+                  {t("artist.origin", { origin: group.origin })}
+                </Link>
+              ) : (
+                <p>{t("artist.origin", { origin: group.origin })}</p>
+              )}
+            </div>
+            <p className="text-4xl">{group.description}</p>
+            {group.links && group.links.length > 0 && (
+              <div className="mt-8">
+                <ExternalLinks links={group.links} />
+              </div>
+            )}
+          </div>
+        </div>
+        {selectedAlbum && (
+          <div>
+            <h2 className="text-6xl font-bold mb-4 title-stroke red">{t("artist.album")}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <img
+                src={selectedAlbum.src}
+                alt={selectedAlbum.alt}
+                className="size-[35rem] rounded-xs object-cover"
+              />
+              <div>
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <h2 className="text-8xl font-bold">{selectedAlbum.title}</h2>
+                  <FavoriteButton
+                    album={{
+                      groupId: group.id,
+                      groupName: group.name,
+                      slug: selectedAlbum.slug,
+                      title: selectedAlbum.title,
+                      src: selectedAlbum.src,
+                      alt: selectedAlbum.alt,
+                    }}
+                    className="shrink-0 mt-4"
+                  />
+                </div>
+                <AlbumFacts album={selectedAlbum} className="text-3xl mb-4" />
+                <p className="text-4xl mb-6">{selectedAlbum.description}</p>
+                <p className="text-white/70 text-3xl">
+                  {t("artist.facts", { genre: group.genre, origin: group.origin })}
+                </p>
+                {selectedAlbum.tracklist && selectedAlbum.tracklist.length > 0 && (
+                  <div className="mt-8">
+                    <Tracklist tracks={selectedAlbum.tracklist} />
+                  </div>
+                )}
+                {selectedAlbum.links && selectedAlbum.links.length > 0 && (
+                  <div className="mt-8">
+                    <ExternalLinks links={selectedAlbum.links} />
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {group.members && group.members.length > 0 && (
+          <Lineup members={group.members} />
+        )}
+
+        {group.albums.length > 1 && (
+          <Discography
+            groupId={group.id}
+            groupName={group.name}
+            albums={group.albums}
+            selectedKey={selectedAlbum?.key}
+          />
+        )}
+
+        {festivals.length > 0 && <FestivalAppearances festivals={festivals} />}
+
+        {similar.length > 0 && <SimilarArtists artists={similar} />}
+
+        {/* Back Button */}
+        <div className="text-center">
+          <Link to={localize("/")} className="button-red inline-flex items-center gap-2">
+            {t("artist.backHome")}
+          </Link>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ArtistPage;
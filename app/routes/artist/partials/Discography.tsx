@@ -0,0 +1,89 @@
+import { Link } from "react-router";
+import FavoriteButton from "~/components/FavoriteButton";
+import { albumPath } from "~/catalog/keys";
+import { releaseYear, sortDiscography } from "~/catalog/metadata";
+import type { Album } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+import AlbumFacts from "./AlbumFacts";
+import Tracklist from "./Tracklist";
+
+interface DiscographyProps {
+  groupId: string;
+  groupName: string;
+  albums: Album[];
+  selectedKey?: string;
+}
+
+const Discography = ({
+  groupId,
+  groupName,
+  albums,
+  selectedKey,
+}: DiscographyProps) => {
+  const { t, localize } = useI18n();
+
+  return (
+    <div>
+      <h2 className="text-6xl font-bold mb-8 title-stroke red">
+        {t("artist.discography")}
+      </h2>
+      <ol className="flex flex-col gap-4">
+        {sortDiscography(albums).map((album) => {
+          const year = releaseYear(album);
+
+          return (
+            <li
+              key={album.key}
+              className={`bg-white/10 rounded-xs p-4 ${
+                album.key === selectedKey ? "outline-2 outline-[#B5252A]" : ""
+              }`}
+            >
+              <div className="flex items-center gap-6">
+                <img
+                  src={album.src}
+                  alt={album.alt}
+                  className="size-24 object-cover rounded-xs"
+                />
+                <span className="w-20 text-3xl text-white/50 tabular-nums">
+                  {year ?? "—"}
+                </span>
+                <div className="flex-1">
+                  <Link
+                    to={localize(albumPath({ groupId, slug: album.slug }))}
+                    className="text-4xl font-bold text-white no-underline hover:text-[#B5252A]"
+                  >
+                    {album.title}
+                  </Link>
+                  <AlbumFacts album={album} className="text-xl" />
+                </div>
+                <FavoriteButton
+                  album={{
+                    groupId,
+                    groupName,
+                    slug: album.slug,
+                    title: album.title,
+                    src: album.src,
+                    alt: album.alt,
+                  }}
+                  className="shrink-0"
+                />
+              </div>
+              {album.tracklist && album.tracklist.length > 0 && (
+                <details className="mt-4 ml-30">
+                  <summary className="cursor-pointer text-xl text-white/70">
+                    {t("artist.tracks", { count: album.tracklist.length })}
+                  </summary>
+                  <div className="mt-2 max-w-3xl">
+                    <Tracklist tracks={album.tracklist} />
+                  </div>
+                </details>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default Discography;
@@ -0,0 +1,30 @@
+import { linkLabel } from "~/catalog/metadata";
+import type { ExternalLink } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+
+interface ExternalLinksProps {
+  links: ExternalLink[];
+}
+
+const ExternalLinks = ({ links }: ExternalLinksProps) => {
+  const { locale } = useI18n();
+
+  return (
+    <ul className="flex flex-wrap gap-4">
+      {links.map((link) => (
+        <li key={link.url}>
+          <a
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block text-2xl border border-white/30 px-4 py-2 rounded-xs text-white no-underline hover:bg-white hover:text-black transition-colors"
+          >
+            {linkLabel(link, locale)} ↗
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ExternalLinks;
@@ -0,0 +1,52 @@
+import { Link } from "react-router";
+import { festivalPath } from "~/catalog/festivals";
+import { useI18n } from "~/contexts/I18nContext";
+
+export interface FestivalAppearance {
+  slug: string;
+  name: string;
+  city: string;
+  // Dates déjà mises en forme dans la langue de la page
+  dates: string;
+  upcoming: boolean;
+}
+
+interface FestivalAppearancesProps {
+  festivals: FestivalAppearance[];
+}
+
+const FestivalAppearances = ({ festivals }: FestivalAppearancesProps) => {
+  const { t, localize } = useI18n();
+
+  return (
+    <div>
+      <h2 className="text-6xl font-bold mb-8 title-stroke red">
+        {t("artist.festivals")}
+      </h2>
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {festivals.map((festival) => (
+          <li key={festival.slug}>
+            <Link
+              to={localize(festivalPath(festival.slug))}
+              className="bg-white/10 rounded-xs p-6 flex flex-col gap-2 text-white no-underline hover:bg-white/20"
+            >
+              <span className="text-4xl font-bold">{festival.name}</span>
+              <span className="text-2xl text-white/70">
+                {festival.dates} • {festival.city}
+              </span>
+              <span
+                className={`text-xl ${
+                  festival.upcoming ? "text-[#B5252A]" : "text-white/50"
+                }`}
+              >
+                {festival.upcoming ? t("festivals.upcoming") : t("festivals.past")}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FestivalAppearances;
@@ -0,0 +1,28 @@
+import type { Member } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+
+interface LineupProps {
+  members: Member[];
+}
+
+const Lineup = ({ members }: LineupProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <h2 className="text-6xl font-bold mb-8 title-stroke red">
+        {t("artist.lineup")}
+      </h2>
+      <ul className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+        {members.map((member) => (
+          <li key={member.name} className="bg-white/10 rounded-xs p-6">
+            <p className="text-3xl font-bold">{member.name}</p>
+            <p className="text-white/70 text-xl">{member.roles.join(", ")}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default Lineup;
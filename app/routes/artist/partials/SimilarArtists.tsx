@@ -0,0 +1,57 @@
+import { Link } from "react-router";
+import type { RecommendationReason } from "~/catalog/recommendations";
+import { useI18n } from "~/contexts/I18nContext";
+
+export interface SimilarArtist {
+  id: string;
+  name: string;
+  genre: string;
+  origin: string;
+  cover?: { src: string; alt: string };
+  reason: RecommendationReason;
+}
+
+interface SimilarArtistsProps {
+  artists: SimilarArtist[];
+}
+
+const SimilarArtists = ({ artists }: SimilarArtistsProps) => {
+  const { t, localize } = useI18n();
+
+  return (
+    <div>
+      <h2 className="text-6xl font-bold mb-8 title-stroke red">
+        {t("artist.similar")}
+      </h2>
+      <ul className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-8">
+        {artists.map((artist) => (
+          <li key={artist.id}>
+            <Link
+              to={localize(`/artist/${artist.id}`)}
+              className="flex flex-col gap-3 text-white no-underline group"
+            >
+              {artist.cover && (
+                <img
+                  src={artist.cover.src}
+                  alt={artist.cover.alt}
+                  className="aspect-square w-full object-cover rounded-xs"
+                />
+              )}
+              <span className="self-start rounded-full bg-[#B5252A] text-lg px-3 py-0.5">
+                {t(`artist.similar.${artist.reason}`)}
+              </span>
+              <span className="text-4xl font-bold group-hover:text-[#B5252A]">
+                {artist.name}
+              </span>
+              <span className="text-xl text-white/70">
+                {t("artist.facts", { genre: artist.genre, origin: artist.origin })}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SimilarArtists;
@@ -0,0 +1,42 @@
+import { totalDuration } from "~/catalog/metadata";
+import type { Track } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+
+interface TracklistProps {
+  tracks: Track[];
+}
+
+const Tracklist = ({ tracks }: TracklistProps) => {
+  const { t } = useI18n();
+  const total = totalDuration(tracks);
+
+  return (
+    <div>
+      <ol className="flex flex-col">
+        {tracks.map((track) => (
+          <li
+            key={track.number}
+            className="flex items-baseline gap-4 py-2 border-b border-white/10 text-2xl"
+          >
+            <span className="w-8 text-right text-white/40 tabular-nums">
+              {track.number}
+            </span>
+            <span className="flex-1">{track.title}</span>
+            {track.duration && (
+              <span className="text-white/50 tabular-nums">
+                {track.duration}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {total && (
+        <p className="text-white/50 text-xl text-right mt-2">
+          {t("artist.tracks", { count: tracks.length })} · {total}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Tracklist;
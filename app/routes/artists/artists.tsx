@@ -0,0 +1,326 @@
+import { Form, Link, useNavigate } from "react-router";
+import GenreChips from "~/components/GenreChips";
+import Navigation from "~/components/Navigation";
+import {
+  GENRES,
+  genreAncestors,
+  genreName,
+  getGenre,
+  isInGenre,
+} from "~/catalog/genres";
+import { slugify } from "~/catalog/keys";
+import { localizeGroup } from "~/catalog/localize";
+import { countryName, originKey } from "~/catalog/origins";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { LOCALE_TAGS, localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import type { Route } from "./+types/artists";
+
+const SORTS = ["name", "origin", "albums"] as const;
+
+type ArtistSort = (typeof SORTS)[number];
+
+const DEFAULT_SORT: ArtistSort = "name";
+
+const ALPHABET = ["#", ..."ABCDEFGHIJKLMNOPQRSTUVWXYZ"];
+
+interface ArtistEntry {
+  id: string;
+  name: string;
+  genre: string;
+  origin: string;
+  // Clé de pays (`originKey`) et son nom traduit, `null` si inconnue
+  country: string | null;
+  countryName: string | null;
+  albumCount: number;
+  letter: string;
+}
+
+// Première lettre sans accent ; chiffres et symboles sont rangés sous « # »
+const initialLetter = (name: string) => {
+  const letter = slugify(name).charAt(0).toUpperCase();
+  return /[A-Z]/.test(letter) ? letter : "#";
+};
+
+const letterId = (letter: string) =>
+  `lettre-${letter === "#" ? "0" : letter.toLowerCase()}`;
+
+// Tri principal puis nom ; les origines inconnues passent en dernier
+const compareArtists =
+  (sort: ArtistSort, collator: Intl.Collator) =>
+  (a: ArtistEntry, b: ArtistEntry) => {
+    const byName = collator.compare(a.name, b.name);
+    if (sort === "albums") return b.albumCount - a.albumCount || byName;
+    if (sort === "origin" && a.countryName !== b.countryName) {
+      if (a.countryName === null) return 1;
+      if (b.countryName === null) return -1;
+      return collator.compare(a.countryName, b.countryName);
+    }
+    return byName;
+  };
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const url = new URL(request.url);
+  const sortParam = url.searchParams.get("sort") ?? "";
+  const sort = (SORTS as readonly string[]).includes(sortParam)
+    ? (sortParam as ArtistSort)
+    : DEFAULT_SORT;
+  // Un genre inconnu est ignoré plutôt que de vider la liste
+  const genre = getGenre(url.searchParams.get("genre") ?? "")?.slug ?? null;
+  const origin = url.searchParams.get("origin") || null;
+
+  const collator = new Intl.Collator(LOCALE_TAGS[locale], {
+    sensitivity: "base",
+  });
+  const groups = (await getCatalogRepository().listGroups()).map((group) =>
+    localizeGroup(group, locale)
+  );
+  const artists = groups.map((group): ArtistEntry => {
+    const country = originKey(group.origin);
+    return {
+      id: group.id,
+      name: group.name,
+      genre: group.genre,
+      origin: group.origin,
+      country,
+      countryName: country && countryName(country, locale),
+      albumCount: group.albums.length,
+      letter: initialLetter(group.name),
+    };
+  });
+
+  // Facettes calculées sur tout le catalogue, filtres actifs ou non
+  const genres = GENRES.map((facet) => ({
+    slug: facet.slug,
+    name: genreName(facet, locale),
+    depth: genreAncestors(facet.slug).length - 1,
+    count: groups.filter((group) => isInGenre(group, facet.slug)).length,
+  })).filter((facet) => facet.count > 0);
+  const origins = [...new Set(artists.map((artist) => artist.country))]
+    .filter((country): country is string => country !== null)
+    .map((country) => ({
+      key: country,
+      name: countryName(country, locale),
+      count: artists.filter((artist) => artist.country === country).length,
+    }))
+    .sort((a, b) => collator.compare(a.name, b.name));
+
+  return {
+    sort,
+    genre,
+    origin,
+    genres,
+    origins,
+    artists: artists
+      .filter((_, index) => !genre || isInGenre(groups[index], genre))
+      .filter((artist) => !origin || artist.country === origin)
+      .sort(compareArtists(sort, collator)),
+  };
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+
+  return [
+    { title: translate(locale, "meta.artists.title") },
+    {
+      name: "description",
+      content: translate(locale, "meta.artists.description"),
+    },
+  ];
+}
+
+export default function Artists({ loaderData }: Route.ComponentProps) {
+  const { sort, genre, origin, genres, origins, artists } = loaderData;
+  const { t, localize } = useI18n();
+  const navigate = useNavigate();
+  const isScrolled = useScrollEffect();
+
+  // Paramètres vides et tri par défaut retirés de l'URL
+  const applyFilters = (form: HTMLFormElement) => {
+    const search = new URLSearchParams();
+    new FormData(form).forEach((value, name) => {
+      if (value && !(name === "sort" && value === DEFAULT_SORT)) {
+        search.set(name, String(value));
+      }
+    });
+    const query = search.toString();
+    navigate(
+      { search: query ? `?${query}` : "" },
+      { preventScrollReset: true }
+    );
+  };
+
+  // Par nom : une section par lettre ; par origine : une section par pays
+  const sections =
+    sort === "albums"
+      ? [{ id: "artistes", title: null, artists }]
+      : artists.reduce<
+          { id: string; title: string | null; artists: typeof artists }[]
+        >((list, artist) => {
+          const title =
+            sort === "name" ? artist.letter : artist.countryName ?? artist.origin;
+          const last = list[list.length - 1];
+          if (last?.title === title) {
+            last.artists.push(artist);
+          } else {
+            list.push({
+              id:
+                sort === "name"
+                  ? letterId(title)
+                  : `origine-${artist.country ?? "inconnue"}`,
+              title,
+              artists: [artist],
+            });
+          }
+          return list;
+        }, []);
+  const letters = new Set(artists.map((artist) => artist.letter));
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-12 m-auto text-white mt-32 py-16">
+        <div>
+          <h1 className="text-9xl font-bold title-stroke red">{t("artists.title")}</h1>
+          <p className="text-2xl text-white/70" aria-live="polite">
+            {t("artists.count", { count: artists.length })}
+          </p>
+        </div>
+
+        <Form
+          key={`${sort}-${genre}-${origin}`}
+          method="get"
+          aria-label={t("artists.filters")}
+          className="flex flex-wrap items-end gap-6 text-2xl"
+          onChange={(event) => applyFilters(event.currentTarget)}
+          onSubmit={(event) => {
+            event.preventDefault();
+            applyFilters(event.currentTarget);
+          }}
+        >
+          <label className="flex flex-col gap-2">
+            {t("artists.sort")}
+            <select
+              name="sort"
+              defaultValue={sort}
+              className="bg-black border border-white/30 rounded-xs px-3 py-2"
+            >
+              {SORTS.map((option) => (
+                <option key={option} value={option}>
+                  {t(`artists.sort.${option}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            {t("artists.genre")}
+            <select
+              name="genre"
+              defaultValue={genre ?? ""}
+              className="bg-black border border-white/30 rounded-xs px-3 py-2"
+            >
+              <option value="">{t("artists.all")}</option>
+              {genres.map((facet) => (
+                <option key={facet.slug} value={facet.slug}>
+                  {"  ".repeat(facet.depth)}
+                  {facet.name} ({facet.count})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            {t("artists.origin")}
+            <select
+              name="origin"
+              defaultValue={origin ?? ""}
+              className="bg-black border border-white/30 rounded-xs px-3 py-2"
+            >
+              <option value="">{t("artists.all")}</option>
+              {origins.map((facet) => (
+                <option key={facet.key} value={facet.key}>
+                  {facet.name} ({facet.count})
+                </option>
+              ))}
+            </select>
+          </label>
+          <noscript>
+            <button type="submit" className="button-red">
+              {t("artists.apply")}
+            </button>
+          </noscript>
+          {(genre || origin || sort !== DEFAULT_SORT) && (
+            <Link to={localize("/artists")} className="text-white/70 hover:text-white">
+              {t("artists.reset")}
+            </Link>
+          )}
+        </Form>
+
+        {sort === "name" && artists.length > 0 && (
+          <nav aria-label={t("artists.jump")}>
+            <ul className="flex flex-wrap gap-3 text-3xl">
+              {ALPHABET.map((letter) => (
+                <li key={letter}>
+                  {letters.has(letter) ? (
+                    <a
+                      href={`#${letterId(letter)}`}
+                      className="text-white hover:text-[#B5252A]"
+                    >
+                      {letter}
+                    </a>
+                  ) : (
+                    <span className="text-white/30" aria-hidden="true">
+                      {letter}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+
+        {artists.length === 0 ? (
+          <p className="text-3xl text-white/70">{t("artists.empty")}</p>
+        ) : (
+          sections.map((section) => (
+            <section
+              key={section.id}
+              id={section.id}
+              aria-labelledby={section.title ? `${section.id}-titre` : undefined}
+              className="scroll-mt-40"
+            >
+              {section.title && (
+                <h2
+                  id={`${section.id}-titre`}
+                  className="text-6xl font-bold mb-6 title-stroke red"
+                >
+                  {section.title}
+                </h2>
+              )}
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {section.artists.map((artist) => (
+                  <li key={artist.id} className="bg-white/10 rounded-xs p-6 flex flex-col gap-3">
+                    <Link
+                      to={localize(`/artist/${artist.id}`)}
+                      className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+                    >
+                      {artist.name}
+                    </Link>
+                    <GenreChips genre={artist.genre} size="sm" />
+                    <p className="text-xl text-white/70">
+                      {artist.countryName ?? artist.origin} •{" "}
+                      {t("artists.albums", { count: artist.albumCount })}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import { redirect } from "react-router";
+import { localeFromParam, localizePath } from "~/i18n/locales";
+import type { Route } from "./+types/groups";
+
+// Ancienne adresse de l'index, conservée pour les liens existants
+export function loader({ request, params }: Route.LoaderArgs) {
+  const { search } = new URL(request.url);
+  return redirect(
+    localizePath(`/artists${search}`, localeFromParam(params.lang)),
+    301
+  );
+}
@@ -0,0 +1,195 @@
+import { Form, data, redirect, useNavigation } from "react-router";
+import Navigation from "~/components/Navigation";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam, localizePath } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import type { MessageKey } from "~/i18n/translate";
+import {
+  CONTACT_SUBJECTS,
+  HONEYPOT_FIELD,
+  getContactOutbox,
+  validateContactForm,
+} from "~/.server/contact";
+import type { Route } from "./+types/contact";
+
+export function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  return {
+    subjects: CONTACT_SUBJECTS,
+    honeypot: HONEYPOT_FIELD,
+    sent: url.searchParams.has("envoye"),
+    // `?sujet=band` présélectionne un sujet depuis un lien
+    subject: url.searchParams.get("sujet") ?? "",
+  };
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const locale = localeFromParam(params.lang);
+  const result = validateContactForm(await request.formData(), locale);
+
+  if (!result.ok) {
+    return data({ values: result.values, errors: result.errors }, { status: 400 });
+  }
+  // Le robot reçoit la même confirmation, rien n'est enregistré
+  if (!result.spam) {
+    await getContactOutbox().save(result.values);
+  }
+  return redirect(localizePath("/contact?envoye", locale));
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+
+  return [
+    { title: translate(locale, "meta.contact.title") },
+    {
+      name: "description",
+      content: translate(locale, "meta.contact.description"),
+    },
+  ];
+}
+
+const fieldClassName = (error?: string) =>
+  `w-full bg-black/60 text-white text-2xl px-4 py-3 rounded-xs border focus:outline-none focus:border-white ${
+    error ? "border-[#B5252A]" : "border-white/20"
+  }`;
+
+export default function Contact({ loaderData, actionData }: Route.ComponentProps) {
+  const { subjects, honeypot, sent, subject } = loaderData;
+  const { t } = useI18n();
+  const isScrolled = useScrollEffect();
+  const navigation = useNavigation();
+  const values: Record<string, string> = actionData?.values ?? { subject };
+  const errors: Record<string, MessageKey> = actionData?.errors ?? {};
+
+  const describedBy = (name: string) =>
+    errors[name] ? `contact-${name}-error` : undefined;
+  const fieldError = (name: string) =>
+    errors[name] && (
+      <p id={`contact-${name}-error`} className="text-[#ff6b6b] text-xl">
+        {t(errors[name])}
+      </p>
+    );
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <main className="min-h-screen container flex flex-col gap-12 m-auto text-white mt-32 py-16 max-w-4xl">
+        <div>
+          <h1 className="text-9xl font-bold mb-6 title-stroke red">{t("contact.title")}</h1>
+          <p className="text-3xl">{t("contact.intro")}</p>
+        </div>
+
+        {sent && (
+          <p
+            className="bg-green-600/20 border border-green-600 text-2xl px-4 py-3 rounded-xs"
+            role="status"
+          >
+            {t("contact.sent")}
+          </p>
+        )}
+
+        <Form method="post" className="flex flex-col gap-6" noValidate>
+          {actionData && (
+            <p className="text-[#ff6b6b] text-2xl" role="alert">
+              {t("contact.invalid")}
+            </p>
+          )}
+          <div className="flex flex-col gap-2">
+            <label htmlFor="contact-name" className="text-2xl font-semibold">
+              {t("contact.name")}
+            </label>
+            <input
+              id="contact-name"
+              name="name"
+              autoComplete="name"
+              required
+              maxLength={100}
+              defaultValue={values.name}
+              aria-invalid={errors.name ? true : undefined}
+              aria-describedby={describedBy("name")}
+              className={fieldClassName(errors.name)}
+            />
+            {fieldError("name")}
+          </div>
+          <div className="flex flex-col gap-2">
+            <label htmlFor="contact-email" className="text-2xl font-semibold">
+              {t("contact.email")}
+            </label>
+            <input
+              id="contact-email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              maxLength={254}
+              defaultValue={values.email}
+              aria-invalid={errors.email ? true : undefined}
+              aria-describedby={describedBy("email")}
+              className={fieldClassName(errors.email)}
+            />
+            {fieldError("email")}
+          </div>
+          <div className="flex flex-col gap-2">
+            <label htmlFor="contact-subject" className="text-2xl font-semibold">
+              {t("contact.subject")}
+            </label>
+            <select
+              id="contact-subject"
+              name="subject"
+              required
+              defaultValue={values.subject}
+              aria-invalid={errors.subject ? true : undefined}
+              aria-describedby={describedBy("subject")}
+              className={fieldClassName(errors.subject)}
+            >
+              <option value="">{t("contact.subject.choose")}</option>
+              {subjects.map((option) => (
+                <option key={option} value={option}>
+                  {t(`contact.subject.${option}`)}
+                </option>
+              ))}
+            </select>
+            {fieldError("subject")}
+          </div>
+          <div className="flex flex-col gap-2">
+            <label htmlFor="contact-message" className="text-2xl font-semibold">
+              {t("contact.message")}
+            </label>
+            <textarea
+              id="contact-message"
+              name="message"
+              required
+              minLength={10}
+              maxLength={5000}
+              rows={8}
+              defaultValue={values.message}
+              aria-invalid={errors.message ? true : undefined}
+              aria-describedby={describedBy("message")}
+              className={fieldClassName(errors.message)}
+            />
+            {fieldError("message")}
+          </div>
+          {/* Pot de miel : hors écran et ignoré des lecteurs d'écran */}
+          <div className="absolute -left-[9999px]" aria-hidden="true">
+            <label htmlFor={`contact-${honeypot}`}>{t("contact.honeypot")}</label>
+            <input
+              id={`contact-${honeypot}`}
+              name={honeypot}
+              tabIndex={-1}
+              autoComplete="off"
+            />
+          </div>
+          <button
+            type="submit"
+            className="button-red self-start"
+            disabled={navigation.state === "submitting"}
+          >
+            {t("contact.send")}
+          </button>
+        </Form>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+import { Link } from "react-router";
+import GenreChips from "~/components/GenreChips";
+import Navigation from "~/components/Navigation";
+import {
+  formatFestivalDates,
+  getFestival,
+  isUpcoming,
+  localizeFestival,
+} from "~/catalog/festivals";
+import { localizeGroup } from "~/catalog/localize";
+import type { Group } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import { notFound } from "~/.server/errors";
+import type { Route } from "./+types/festivals.$slug";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const festival = getFestival(params.slug);
+  if (!festival) {
+    throw await notFound(params.slug);
+  }
+
+  const locale = localeFromParam(params.lang);
+  const repository = getCatalogRepository();
+  const lineup = await Promise.all(
+    festival.lineup.map((id) => repository.getGroup(id))
+  );
+
+  return {
+    festival: {
+      ...localizeFestival(festival, locale),
+      dates: formatFestivalDates(festival, locale),
+      upcoming: isUpcoming(festival),
+    },
+    groups: lineup
+      .filter((group): group is Group => group !== null)
+      .map((group) => localizeGroup(group, locale)),
+  };
+}
+
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const name = data?.festival.name ?? params.slug;
+
+  return [
+    { title: translate(locale, "meta.festival.title", { name }) },
+    {
+      name: "description",
+      content: data?.festival.description ?? "",
+    },
+  ];
+}
+
+export default function FestivalRoute({ loaderData }: Route.ComponentProps) {
+  const { festival, groups } = loaderData;
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
+          <div>
+            <nav aria-label={t("festival.breadcrumb")} className="text-2xl text-white/70 mb-4">
+              <Link to={localize("/festivals")} className="text-white/70 hover:text-white">
+                {t("festivals.title")}
+              </Link>
+              {" / "}
+            </nav>
+            <h1 className="text-9xl font-bold mb-6 title-stroke red">{festival.name}</h1>
+            <p className="text-4xl mb-2">{festival.dates}</p>
+            <p className="text-3xl text-white/70 mb-6">
+              {t("festivals.venue", { venue: festival.venue, city: festival.city })},{" "}
+              {festival.country}
+            </p>
+            <p className="text-3xl mb-8">{festival.description}</p>
+            {festival.upcoming ? (
+              <a
+                href={festival.ticketUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="button-red inline-block"
+              >
+                {t("festivals.tickets")}
+              </a>
+            ) : (
+              <p className="text-2xl text-white/50">{t("festival.over")}</p>
+            )}
+          </div>
+          <img
+            src={festival.image}
+            alt=""
+            className="w-full aspect-video object-cover rounded-xs"
+          />
+        </div>
+
+        <div>
+          <h2 className="text-6xl font-bold mb-8 title-stroke red">
+            {t("festival.lineup", { count: groups.length })}
+          </h2>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {groups.map((group) => (
+              <li key={group.id} className="bg-white/10 rounded-xs p-6 flex flex-col gap-3">
+                <Link
+                  to={localize(`/artist/${group.id}`)}
+                  className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+                >
+                  {group.name}
+                </Link>
+                <GenreChips genre={group.genre} size="sm" />
+                <p className="text-2xl">{group.short_description}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+import { Link } from "react-router";
+import Navigation from "~/components/Navigation";
+import {
+  FESTIVALS,
+  festivalPath,
+  formatFestivalDates,
+  localizeFestival,
+  splitAgenda,
+} from "~/catalog/festivals";
+import type { Festival } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import type { Route } from "./+types/festivals";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const groups = await getCatalogRepository().listGroups();
+  const names = new Map(groups.map((group) => [group.id, group.name]));
+
+  // Un groupe retiré du catalogue disparaît de l'affiche
+  const toEntry = (festival: Festival) => ({
+    ...localizeFestival(festival, locale),
+    dates: formatFestivalDates(festival, locale),
+    artists: festival.lineup.flatMap((id) => {
+      const name = names.get(id);
+      return name ? [{ id, name }] : [];
+    }),
+  });
+  const { upcoming, past } = splitAgenda(FESTIVALS);
+
+  return { upcoming: upcoming.map(toEntry), past: past.map(toEntry) };
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+
+  return [
+    { title: translate(locale, "meta.festivals.title") },
+    {
+      name: "description",
+      content: translate(locale, "meta.festivals.description"),
+    },
+  ];
+}
+
+type AgendaEntry = Route.ComponentProps["loaderData"]["upcoming"][number];
+
+const FestivalCard = ({ festival, upcoming }: { festival: AgendaEntry; upcoming: boolean }) => {
+  const { t, localize } = useI18n();
+
+  return (
+    <li className="bg-white/10 rounded-xs overflow-hidden flex flex-col">
+      <img
+        src={festival.image}
+        alt=""
+        className={`aspect-video w-full object-cover ${upcoming ? "" : "grayscale"}`}
+      />
+      <div className="p-6 flex flex-col gap-3 grow">
+        <Link
+          to={localize(festivalPath(festival.slug))}
+          className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+        >
+          {festival.name}
+        </Link>
+        <p className="text-2xl">{festival.dates}</p>
+        <p className="text-xl text-white/70">
+          {t("festivals.venue", { venue: festival.venue, city: festival.city })}
+        </p>
+        {festival.artists.length > 0 && (
+          <p className="text-xl">
+            {festival.artists.map((artist, index) => (
+              <span key={artist.id}>
+                {index > 0 && ", "}
+                <Link
+                  to={localize(`/artist/${artist.id}`)}
+                  className="text-white hover:text-[#B5252A]"
+                >
+                  {artist.name}
+                </Link>
+              </span>
+            ))}
+          </p>
+        )}
+        {upcoming && (
+          <a
+            href={festival.ticketUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="button-red self-start mt-auto"
+          >
+            {t("festivals.tickets")}
+          </a>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default function Festivals({ loaderData }: Route.ComponentProps) {
+  const { upcoming, past } = loaderData;
+  const { t } = useI18n();
+  const isScrolled = useScrollEffect();
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div>
+          <h1 className="text-9xl font-bold mb-6 title-stroke red">{t("festivals.title")}</h1>
+          <p className="max-w-3xl text-3xl">{t("festivals.intro")}</p>
+        </div>
+
+        <section aria-labelledby="festivals-a-venir">
+          <h2 id="festivals-a-venir" className="text-6xl font-bold mb-8 title-stroke red">
+            {t("festivals.upcomingTitle")}
+          </h2>
+          {upcoming.length === 0 ? (
+            <p className="text-3xl text-white/70">{t("festivals.noUpcoming")}</p>
+          ) : (
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              {upcoming.map((festival) => (
+                <FestivalCard key={festival.slug} festival={festival} upcoming />
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {past.length > 0 && (
+          <section aria-labelledby="festivals-passes">
+            <h2 id="festivals-passes" className="text-6xl font-bold mb-8 title-stroke red">
+              {t("festivals.pastTitle")}
+            </h2>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              {past.map((festival) => (
+                <FestivalCard key={festival.slug} festival={festival} upcoming={false} />
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </>
+  );
+}
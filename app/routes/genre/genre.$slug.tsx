@@ -0,0 +1,174 @@
+import { Link } from "react-router";
+import Navigation from "~/components/Navigation";
+import {
+  childGenres,
+  genreAncestors,
+  genreName,
+  genrePath,
+  getGenre,
+  isInGenre,
+} from "~/catalog/genres";
+import { albumPath } from "~/catalog/keys";
+import { localizeGroup } from "~/catalog/localize";
+import { releaseYear } from "~/catalog/metadata";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import { notFound } from "~/.server/errors";
+import type { Route } from "./+types/genre.$slug";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const genre = getGenre(params.slug);
+  if (!genre) {
+    throw await notFound(params.slug);
+  }
+
+  const locale = localeFromParam(params.lang);
+  const groups = (await getCatalogRepository().listGroups())
+    .filter((group) => isInGenre(group, genre.slug))
+    .map((group) => localizeGroup(group, locale));
+
+  return {
+    genre: { slug: genre.slug, name: genreName(genre, locale) },
+    ancestors: genreAncestors(genre.slug)
+      .slice(0, -1)
+      .map((ancestor) => ({
+        slug: ancestor.slug,
+        name: genreName(ancestor, locale),
+      })),
+    subgenres: childGenres(genre.slug).map((child) => ({
+      slug: child.slug,
+      name: genreName(child, locale),
+      count: groups.filter((group) => isInGenre(group, child.slug)).length,
+    })),
+    groups,
+    albums: groups.flatMap((group) =>
+      group.albums.map((album) => ({
+        ...album,
+        groupId: group.id,
+        groupName: group.name,
+      }))
+    ),
+  };
+}
+
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const name = data?.genre.name ?? params.slug;
+
+  return [
+    { title: translate(locale, "meta.genre.title", { name }) },
+    {
+      name: "description",
+      content: translate(locale, "meta.genre.description", { name }),
+    },
+  ];
+}
+
+export default function Genre({ loaderData }: Route.ComponentProps) {
+  const { genre, ancestors, subgenres, groups, albums } = loaderData;
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div>
+          {ancestors.length > 0 && (
+            <nav aria-label={t("genre.breadcrumb")} className="text-2xl text-white/70 mb-4">
+              {ancestors.map((ancestor) => (
+                <span key={ancestor.slug}>
+                  <Link
+                    to={localize(genrePath(ancestor.slug))}
+                    className="text-white/70 hover:text-white"
+                  >
+                    {ancestor.name}
+                  </Link>
+                  {" / "}
+                </span>
+              ))}
+            </nav>
+          )}
+          <h1 className="text-9xl font-bold title-stroke red">{genre.name}</h1>
+        </div>
+
+        {subgenres.length > 0 && (
+          <div>
+            <h2 className="text-4xl font-bold mb-4">{t("genre.subgenres")}</h2>
+            <ul className="flex flex-wrap gap-2">
+              {subgenres.map((subgenre) => (
+                <li key={subgenre.slug}>
+                  <Link
+                    to={localize(genrePath(subgenre.slug))}
+                    className="inline-block rounded-full border border-white/30 text-2xl px-4 py-1 text-white no-underline hover:bg-white hover:text-black transition-colors"
+                  >
+                    {subgenre.name}{" "}
+                    <span className="text-white/50">({subgenre.count})</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <p className="text-3xl text-white/70">{t("genre.empty")}</p>
+        ) : (
+          <>
+            <div>
+              <h2 className="text-6xl font-bold mb-8 title-stroke red">
+                {t("genre.artists", { count: groups.length })}
+              </h2>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {groups.map((group) => (
+                  <li key={group.id} className="bg-white/10 rounded-xs p-6">
+                    <Link
+                      to={localize(`/artist/${group.id}`)}
+                      className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+                    >
+                      {group.name}
+                    </Link>
+                    <p className="text-xl text-white/70 mt-2">
+                      {t("artist.facts", { genre: group.genre, origin: group.origin })}
+                    </p>
+                    <p className="text-2xl mt-4">{group.short_description}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h2 className="text-6xl font-bold mb-8 title-stroke red">
+                {t("genre.albums", { count: albums.length })}
+              </h2>
+              <ul className="grid grid-cols-2 md:grid-cols-4 gap-8">
+                {albums.map((album) => (
+                  <li key={album.key}>
+                    <Link
+                      to={localize(albumPath(album))}
+                      className="flex flex-col gap-2 text-white no-underline hover:text-[#B5252A]"
+                    >
+                      <img
+                        src={album.src}
+                        alt={album.alt}
+                        className="aspect-square w-full object-cover rounded-xs"
+                      />
+                      <span className="text-3xl font-bold">{album.title}</span>
+                      <span className="text-xl text-white/70">
+                        {album.groupName}
+                        {releaseYear(album) && ` • ${releaseYear(album)}`}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
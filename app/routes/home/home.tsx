@@ -1,32 +1,65 @@
 import RocknRoulette from "~/routes/home/partials/RockNRoulette";
 import BranchesMarginales from "~/routes/home/partials/BranchesMarginales/index";
 import CollageMonde from "~/routes/home/partials/CollageMonde";
-import type { Route } from "../+types/home";
+import type { Route } from "./+types/home";
 import Hero from "~/routes/home/partials/Hero";
 import Navigation from "~/components/Navigation";
 import { GroupProvider } from "~/contexts/GroupContext";
 import FullScreenCarousel from "~/routes/home/partials/FullScreenCarousel";
+import { localizeGroup } from "~/catalog/localize";
+import { jsonLdMeta, socialMeta, websiteJsonLd } from "~/catalog/seo";
+import { localeFromParam, localizePath } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import { siteOrigin } from "~/.server/site";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const repository = getCatalogRepository();
+  const [groups, carouselItems] = await Promise.all([
+    repository.listGroups(),
+    repository.listCarouselItems(),
+  ]);
+  return {
+    groups: groups.map((group) => localizeGroup(group, locale)),
+    carouselItems,
+    origin: siteOrigin(request),
+  };
+}
+
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const title = translate(locale, "meta.home.title");
+  const description = translate(locale, "meta.home.description");
 
-export function meta({}: Route["MetaArgs"]) {
   return [
-    { title: "ECHOS - Pas de règles, juste du rock" },
-    {
-      name: "description",
-      content:
-        "ECHOS, c'est un projet de site web pour les groupes de musique.",
-    },
+    { title },
+    { name: "description", content: description },
+    ...(data
+      ? [
+          ...socialMeta({
+            title,
+            description,
+            url: data.origin + localizePath("/", locale),
+            locale,
+          }),
+          jsonLdMeta(websiteJsonLd(data.origin, locale)),
+        ]
+      : []),
   ];
 }
 
-export default function Home() {
+export default function Home({ loaderData }: Route.ComponentProps) {
   return (
-    <GroupProvider>
+    <GroupProvider groups={loaderData.groups}>
       <Navigation isScrolled={false} />
       <Hero />
       <RocknRoulette />
       <BranchesMarginales />
       <CollageMonde />
-      <FullScreenCarousel />
+      {loaderData.carouselItems.length > 0 && (
+        <FullScreenCarousel items={loaderData.carouselItems} />
+      )}
     </GroupProvider>
   );
 }
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router';
 import type { Album as AlbumObject } from '~/contexts/GroupContext';
+import { albumPath } from '~/catalog/keys';
+import FavoriteButton from '~/components/FavoriteButton';
+import { useI18n } from '~/contexts/I18nContext';
 
 type Album = AlbumObject & { 
   zindex: number;
@@ -14,6 +17,7 @@ interface AlbumCardProps {
 }
 
 const AlbumCard: React.FC<AlbumCardProps> = ({ album, index, totalAlbums }) => {
+  const { t, localize } = useI18n();
   const [isHovered, setIsHovered] = useState(false);
 
   const cardVariants = {
@@ -75,13 +79,13 @@ const AlbumCard: React.FC<AlbumCardProps> = ({ album, index, totalAlbums }) => {
         onMouseLeave={() => setIsHovered(false)}
       >
         {album.groupId ? (
-          <Link to={`/artist/${album.groupId}?album=${album.id}`}>
+          <Link to={localize(albumPath(album))}>
             <motion.img 
               src={album.src}
               alt={album.alt}
               className="w-full h-80 object-cover rounded-lg shadow-4xl transition-transform duration-300 hover:scale-105"
               loading="lazy"
-              layoutId={`album-${album.id}`}
+              layoutId={`album-${album.key}`}
             />
           </Link>
         ) : (
@@ -90,7 +94,20 @@ const AlbumCard: React.FC<AlbumCardProps> = ({ album, index, totalAlbums }) => {
             alt={album.alt}
             className="w-full h-80 object-cover rounded-lg shadow-4xl"
             loading="lazy"
-            layoutId={`album-${album.id}`}
+            layoutId={`album-${album.key}`}
+          />
+        )}
+        {album.groupId && (
+          <FavoriteButton
+            album={{
+              groupId: album.groupId,
+              groupName: album.groupName ?? '',
+              slug: album.slug,
+              title: album.title,
+              src: album.src,
+              alt: album.alt,
+            }}
+            className="absolute top-4 right-4 z-[3]"
           />
         )}
         <motion.div 
@@ -129,7 +146,7 @@ const AlbumCard: React.FC<AlbumCardProps> = ({ album, index, totalAlbums }) => {
                 delay: 0.25
               }}
             >
-              par {album.groupName}
+              {t("home.album.by", { name: album.groupName })}
             </motion.p>
           )}
           <motion.p 
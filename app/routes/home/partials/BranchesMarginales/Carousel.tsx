@@ -2,6 +2,7 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import type { Album as AlbumObject } from '~/contexts/GroupContext';
 import AlbumCard from './AlbumCard';
+import { useI18n } from '~/contexts/I18nContext';
 
 type Album = AlbumObject & { 
   zindex: number;
@@ -18,6 +19,7 @@ const Carousel: React.FC<CarouselProps> = ({
   itemsPerView = 3, 
   autoScrollInterval = 4000 
 }) => {
+  const { t } = useI18n();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -94,7 +96,7 @@ const Carousel: React.FC<CarouselProps> = ({
       <div 
         className="carousel-container relative overflow-x-hidden"
         role="region" 
-        aria-label="Carrousel d'albums"
+        aria-label={t("home.carousel.label")}
         aria-live="polite"
       >
         <motion.div 
@@ -114,7 +116,7 @@ const Carousel: React.FC<CarouselProps> = ({
         >
           {albums.map((album, index) => (
             <AlbumCard
-              key={album.id}
+              key={album.key}
               album={album}
               index={index}
               totalAlbums={albums.length}
@@ -129,7 +131,7 @@ const Carousel: React.FC<CarouselProps> = ({
         type="button"
         onClick={handlePrev}
         disabled={isTransitioning}
-        aria-label="Album précédent"
+        aria-label={t("home.carousel.previous")}
         variants={buttonVariants}
         initial="hidden"
         animate="visible"
@@ -144,7 +146,7 @@ const Carousel: React.FC<CarouselProps> = ({
         type="button"
         onClick={handleNext}
         disabled={isTransitioning}
-        aria-label="Album suivant"
+        aria-label={t("home.carousel.next")}
         variants={buttonVariants}
         initial="hidden"
         animate="visible"
@@ -166,7 +168,7 @@ const Carousel: React.FC<CarouselProps> = ({
             key={index}
             className="w-3 h-3 rounded-full focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
             onClick={() => handleIndicatorClick(index)}
-            aria-label={`Aller à la diapositive ${index + 1}`}
+            aria-label={t("home.carousel.goTo", { index: index + 1 })}
             disabled={isTransitioning}
             variants={indicatorVariants}
             initial="inactive"
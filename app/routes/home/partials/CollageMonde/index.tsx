@@ -1,6 +1,12 @@
 import { useMemo, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router";
 import { useGroups } from "../../../../contexts/GroupContext";
+import type { Album, Group } from "../../../../contexts/GroupContext";
+import { albumDomId, albumPath } from "../../../../catalog/keys";
+import { useI18n } from "../../../../contexts/I18nContext";
+import { HEART_PATH } from "../../../../components/FavoriteButton";
+import { useFavorites } from "../../../../hooks/useFavorites";
+import type { FavoriteInput } from "../../../../hooks/useFavorites";
 import * as d3Force from "d3-force";
 import * as d3Selection from "d3-selection";
 import { interpolate } from "d3-interpolate";
@@ -23,7 +29,8 @@ interface Node extends d3Force.SimulationNodeDatum {
   type: "album" | "artist" | "title";
   groupName?: string;
   groupId?: string;
-  albumId?: string;
+  albumSlug?: string;
+  albumTitle?: string;
   r: number;
   originalR?: number;
   group: string;
@@ -67,12 +74,12 @@ const SIMULATION_CONFIG = {
 } as const;
 
 // Utility functions
-const createTitleNode = (): Node => ({
+const createTitleNode = (subtitle: string): Node => ({
   id: "title-center",
   src: "",
   alt: "Titre central",
   type: "title",
-  groupName: "Nous ne sommes qu'un",
+  groupName: subtitle,
   r: SIMULATION_CONFIG.nodeSize.title,
   group: "center",
   x: SIMULATION_CONFIG.container.width / 2,
@@ -81,24 +88,25 @@ const createTitleNode = (): Node => ({
   fy: SIMULATION_CONFIG.container.height / 2,
 });
 
-const createAlbumNode = (album: any, group: any): Node => {
+const createAlbumNode = (album: Album, group: Group): Node => {
   const baseSize = SIMULATION_CONFIG.nodeSize.album;
   const randomDelta =
     (Math.random() - 0.5) * 2 * SIMULATION_CONFIG.nodeSize.maxDelta;
   return {
-    id: `album-${album.id}`,
+    id: `album-${albumDomId(album.key)}`,
     src: album.src,
     alt: album.alt,
     type: "album",
     groupName: group.name,
     groupId: group.id,
-    albumId: album.id.toString(),
+    albumSlug: album.slug,
+    albumTitle: album.title,
     r: Math.max(SIMULATION_CONFIG.nodeSize.minAlbum, baseSize + randomDelta),
     group: group.id,
   };
 };
 
-const createArtistNode = (group: any): Node => {
+const createArtistNode = (group: Group): Node => {
   const baseSize = SIMULATION_CONFIG.nodeSize.artist;
   const randomDelta =
     (Math.random() - 0.5) * 2 * SIMULATION_CONFIG.nodeSize.maxDelta;
@@ -173,8 +181,48 @@ const createAlbumElements = (
     .attr("class", "hole")
     .attr("r", 0)
     .style("fill", "#1a1a1a");
+
+  // Cœur de la collection : visible au survol ou au focus, ou tant que
+  // l'album y est (pas de cercle, les cercles du nœud suivent son rayon).
+  // Nom, état et clavier sont posés par le composant
+  const favorite = albums
+    .append("g")
+    .attr(
+      "class",
+      "favorite opacity-0 group-hover:opacity-100 focus:opacity-100 focus-visible:outline-2 focus-visible:outline-white transition-opacity"
+    )
+    .attr("role", "button")
+    .attr("tabindex", 0)
+    .style("cursor", "pointer");
+  favorite
+    .append("rect")
+    .attr("x", -16)
+    .attr("y", -16)
+    .attr("width", 32)
+    .attr("height", 32)
+    .attr("rx", 16)
+    .style("fill", "rgb(0 0 0 / 0.6)");
+  favorite
+    .append("path")
+    .attr("d", HEART_PATH)
+    .attr("transform", "translate(-10,-10) scale(0.84)")
+    .style("stroke-width", 2);
+  favorite.append("title");
 };
 
+// Le nœud porte tout ce qu'il faut pour l'ajouter à la collection
+const favoriteFromNode = (d: Node): FavoriteInput | null =>
+  d.type === "album" && d.groupId && d.albumSlug
+    ? {
+        groupId: d.groupId,
+        groupName: d.groupName ?? "",
+        slug: d.albumSlug,
+        title: d.albumTitle ?? "",
+        src: d.src,
+        alt: d.alt,
+      }
+    : null;
+
 const createArtistElements = (
   artists: d3Selection.Selection<SVGGElement, Node, SVGGElement, unknown>
 ) => {
@@ -201,7 +249,8 @@ const createArtistElements = (
 };
 
 const createTitleElements = (
-  titleNode: d3Selection.Selection<SVGGElement, Node, SVGGElement, unknown>
+  titleNode: d3Selection.Selection<SVGGElement, Node, SVGGElement, unknown>,
+  subtitle: string
 ) => {
   // Fond semi-transparent pour le titre
   titleNode.append("circle").attr("r", 0).style("fill", "transparent");
@@ -230,7 +279,7 @@ const createTitleElements = (
     .style("font-size", "0rem")
     .style("font-weight", "normal")
     .style("font-family", "Arial, sans-serif")
-    .text("Nous ne sommes qu'un");
+    .text(subtitle);
 };
 
 const animateNodeEntrance = (
@@ -306,11 +355,15 @@ const animateNodeEntrance = (
   }
 };
 
-const handleNodeClick = (navigate: any, d: Node) => {
-  if (d.type === "album" && d.albumId) {
-    navigate(`/artist/${d.groupId}?album=${d.albumId}`);
+const handleNodeClick = (
+  navigate: any,
+  localize: (path: string) => string,
+  d: Node
+) => {
+  if (d.type === "album" && d.groupId && d.albumSlug) {
+    navigate(localize(albumPath({ groupId: d.groupId, slug: d.albumSlug })));
   } else if (d.type === "artist" && d.groupId) {
-    navigate(`/artist/${d.groupId}`);
+    navigate(localize(`/artist/${d.groupId}`));
   }
 };
 
@@ -421,6 +474,12 @@ const updateVisualsOnTick = (
       return (d.r - SIMULATION_CONFIG.nodeSize.clipPadding) * 2;
     });
 
+  // Garder le cœur en haut à droite de la pochette
+  nodeGroup.selectAll(".favorite").attr("transform", function (this: any) {
+    const d = d3Selection.select(this.parentNode).datum() as Node;
+    return `translate(${d.r * 0.7},${-d.r * 0.7})`;
+  });
+
   // Mettre à jour les clipPaths
   defs.selectAll("clipPath circle").attr("r", function (this: any) {
     const clipId = d3Selection.select(this.parentNode).attr("id");
@@ -439,10 +498,11 @@ const FilterButtons: React.FC<FilterButtonsProps> = ({
   filter,
   onFilterChange,
 }) => {
+  const { t } = useI18n();
   const filterOptions: { key: FilterType; label: string }[] = [
-    { key: "tous", label: "Tous" },
-    { key: "album", label: "Albums" },
-    { key: "artist", label: "Artistes" },
+    { key: "tous", label: t("home.collage.all") },
+    { key: "album", label: t("home.collage.albums") },
+    { key: "artist", label: t("home.collage.artists") },
   ];
 
   return (
@@ -488,6 +548,9 @@ const restartSimulationIfNeeded = (
 const CollageMonde = () => {
   const { groups } = useGroups();
   const navigate = useNavigate();
+  const { t, localize } = useI18n();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const subtitle = t("home.collage.subtitle");
   const svgRef = useRef<SVGSVGElement>(null);
   const simulationRef = useRef<d3Force.Simulation<Node, undefined> | null>(
     null
@@ -499,12 +562,12 @@ const CollageMonde = () => {
     const items: Node[] = [];
 
     // Ajouter le titre central
-    items.push(createTitleNode());
+    items.push(createTitleNode(subtitle));
 
     groups.forEach((group) => {
       // Ajouter les albums si le filtre le permet
       if (filter === "tous" || filter === "album") {
-        group.albums.forEach((album: any) => {
+        group.albums.forEach((album) => {
           items.push(createAlbumNode(album, group));
         });
       }
@@ -519,7 +582,7 @@ const CollageMonde = () => {
     });
 
     return items;
-  }, [groups, filter]);
+  }, [groups, filter, subtitle]);
 
   // Initialiser la simulation d3 avec SVG
   useEffect(() => {
@@ -598,7 +661,7 @@ const CollageMonde = () => {
       .data(data)
       .enter()
       .append("g")
-      .attr("class", "node")
+      .attr("class", "node group")
       .style("cursor", "pointer")
       .style("opacity", 0);
 
@@ -609,7 +672,7 @@ const CollageMonde = () => {
 
     createAlbumElements(albums);
     createArtistElements(artists);
-    createTitleElements(titleNode);
+    createTitleElements(titleNode, subtitle);
 
     // Animation d'entrée progressive
     nodeGroup.each(function (d: Node, i: number) {
@@ -627,7 +690,7 @@ const CollageMonde = () => {
       .filter((d: Node) => d.type !== "title")
       .style("cursor", "pointer")
       .on("click", function (event: any, d: Node) {
-        handleNodeClick(navigate, d);
+        handleNodeClick(navigate, localize, d);
       })
       .on("mouseenter", function (event: any, d: Node) {
         handleNodeHover(this, d, simulation);
@@ -636,6 +699,24 @@ const CollageMonde = () => {
         handleNodeLeave(this, d, simulation);
       });
 
+    // Le cœur bascule l'album sans ouvrir sa page, à la souris ou au clavier
+    const toggleNode = (d: Node) => {
+      const album = favoriteFromNode(d);
+      if (album) toggleFavorite(album);
+    };
+    albums
+      .select<SVGGElement>(".favorite")
+      .on("click", function (event: MouseEvent, d: Node) {
+        event.stopPropagation();
+        toggleNode(d);
+      })
+      .on("keydown", function (event: KeyboardEvent, d: Node) {
+        if (event.key !== "Enter" && event.key !== " ") return;
+        event.preventDefault();
+        event.stopPropagation();
+        toggleNode(d);
+      });
+
     // Animation tick avec mise à jour des tailles visuelles
     simulation.on("tick", () => {
       updateVisualsOnTick(nodeGroup, defs, data);
@@ -646,7 +727,33 @@ const CollageMonde = () => {
     return () => {
       simulation.stop();
     };
-  }, [data, groups]);
+  }, [data, groups, subtitle, localize, toggleFavorite]);
+
+  // Refléter la collection sur les cœurs, après chaque reconstruction du SVG
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const hearts = d3Selection
+      .select(svgRef.current)
+      .selectAll<SVGGElement, Node>(".favorite");
+    hearts.each(function (d: Node) {
+      const album = favoriteFromNode(d);
+      if (!album) return;
+      const isSaved = isFavorite(`${album.groupId}/${album.slug}`);
+      const label = t(isSaved ? "favorites.remove" : "favorites.add", {
+        title: album.title,
+      });
+      const heart = d3Selection.select(this);
+      heart
+        .classed("opacity-0", !isSaved)
+        .attr("aria-pressed", String(isSaved))
+        .attr("aria-label", label);
+      heart.select("title").text(label);
+      heart
+        .select("path")
+        .style("fill", isSaved ? "#B5252A" : "none")
+        .style("stroke", isSaved ? "#B5252A" : "#fff");
+    });
+  }, [data, isFavorite, t]);
 
   return (
     <section
@@ -654,7 +761,7 @@ const CollageMonde = () => {
       className="relative py-16 overflow-hidden flex items-center justify-center flex-col"
     >
       <h2 className="title-stroke red text-[10rem] font-bold mb-16">
-        Nos rookies
+        {t("home.collage.title")}
       </h2>
       <FilterButtons filter={filter} onFilterChange={setFilter} />
 
@@ -1,25 +1,20 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router';
 import { motion } from 'framer-motion';
-import carouselItems from '../../../data/carousel-items.json';
 import { useKeyboardNavigation } from '../../../hooks/useKeyboardNavigation';
+import type { CarouselItem } from '~/catalog/types';
+import { useI18n } from '~/contexts/I18nContext';
 
-interface CarouselItem {
-  id: number;
-  title: string;
-  description: string;
-  image: string;
-  link: string;
-  buttonText: string;
+interface FullScreenCarouselProps {
+  items: CarouselItem[];
 }
 
-export default function FullScreenCarousel() {
+export default function FullScreenCarousel({ items }: FullScreenCarouselProps) {
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isVisible, setIsVisible] = useState(true);
   const [isPaused, setIsPaused] = useState(false);
   const navigate = useNavigate();
-
-  const items: CarouselItem[] = carouselItems;
+  const { t, localize } = useI18n();
 
   // Animation variants
   const buttonVariants = {
@@ -96,9 +91,9 @@ export default function FullScreenCarousel() {
     if (isExternal) {
       window.open(currentItem.link, '_blank'); // ouvre dans un nouvel onglet
     } else {
-      navigate(currentItem.link, { replace: true });
+      navigate(localize(currentItem.link), { replace: true });
     }
-  }, [navigate, currentItem.link]);
+  }, [navigate, localize, currentItem.link]);
   
 
   return (
@@ -148,7 +143,7 @@ export default function FullScreenCarousel() {
           goToPrevious();
         }}
         className="absolute cursor-pointer left-4 md:left-8 top-1/2 transform -translate-y-1/2 font-hitmepunk text-6xl md:text-8xl text-white disabled:opacity-50 disabled:cursor-not-allowed z-20 transition-all"
-        aria-label="Précédent"
+        aria-label={t("home.slides.previous")}
         variants={buttonVariants}
         initial="hidden"
         animate="visible"
@@ -164,7 +159,7 @@ export default function FullScreenCarousel() {
           goToNext();
         }}
         className="absolute cursor-pointer right-4 md:right-8 top-1/2 transform -translate-y-1/2 font-hitmepunk text-6xl md:text-8xl text-white disabled:opacity-50 disabled:cursor-not-allowed z-20 transition-all"
-        aria-label="Suivant"
+        aria-label={t("home.slides.next")}
         variants={buttonVariants}
         initial="hidden"
         animate="visible"
@@ -189,7 +184,7 @@ export default function FullScreenCarousel() {
               changeSlide(index);
             }}
             className="w-3 h-3 rounded-full focus:outline-none focus:ring-2 focus:ring-white cursor-pointer"
-            aria-label={`Aller au slide ${index + 1}`}
+            aria-label={t("home.slides.goTo", { index: index + 1 })}
             variants={indicatorVariants}
             initial="inactive"
             animate={index === currentSlide ? "active" : "inactive"}
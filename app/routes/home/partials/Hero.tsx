@@ -1,6 +1,8 @@
 import { motion, scale } from "framer-motion";
+import { useI18n } from "~/contexts/I18nContext";
 
 export default function Hero() {
+  const { t } = useI18n();
   const containerVariants = {
     hidden: { opacity: 1 },
     visible: {
@@ -27,7 +29,7 @@ export default function Hero() {
           aria-hidden="true"
         >
           <source src="/assets/medias/wallofdeath.mp4" type="video/mp4" />
-          <p>Votre navigateur ne supporte pas la lecture de vidéos.</p>
+          <p>{t("home.hero.videoFallback")}</p>
         </video>
 
         <div className="absolute top-1/2 left-1/2 transform -translate-x-[95%] -translate-y-1/2 text-white text-left text-[12.5rem]">
@@ -37,7 +39,7 @@ export default function Hero() {
             animate="visible"
             variants={containerVariants}
           >
-            {"PAS DE REGLES, JUSTE DU ROCK.".split("").map((char, index) => (
+            {t("home.hero.slogan").split("").map((char, index) => (
               <motion.span
                 key={index}
                 variants={letterVariants}
@@ -1,5 +1,8 @@
 import { motion } from "framer-motion";
 import { Link } from "react-router";
+import { albumPath } from "~/catalog/keys";
+import FavoriteButton from "~/components/FavoriteButton";
+import { useI18n } from "~/contexts/I18nContext";
 
 interface AlbumProps {
   src: string;
@@ -8,7 +11,7 @@ interface AlbumProps {
   short_description: string;
   groupId?: string;
   groupName?: string;
-  albumId?: number;
+  albumSlug?: string;
   position: {
     top: number;
     left: number;
@@ -27,13 +30,15 @@ const Album = ({
   short_description,
   groupId,
   groupName,
-  albumId,
+  albumSlug,
   position,
   zindex,
   isSelected,
   isDimmed,
   onClick,
 }: AlbumProps) => {
+  const { t, localize } = useI18n();
+
   const getAnimationProps = () => {
     if (isSelected) {
       return {
@@ -122,6 +127,19 @@ const Album = ({
           alt={alt}
           className="w-full h-full object-cover rounded-lg shadow-md z-[1]"
         />
+        {isSelected && groupId && albumSlug && (
+          <FavoriteButton
+            album={{
+              groupId,
+              groupName: groupName ?? "",
+              slug: albumSlug,
+              title: name,
+              src,
+              alt,
+            }}
+            className="absolute top-3 right-3 z-[3] size-9"
+          />
+        )}
         <motion.div 
           className="absolute bottom-0 left-0 right-0 flex flex-col items-start bg-gradient-to-t from-black/90 via-black/70 to-transparent p-6 pb-4 rounded-b-lg text-white pointer-events-none z-[2]"
           variants={overlayVariants}
@@ -171,12 +189,12 @@ const Album = ({
                 delay: 0.55
               }}
             >
-              par {groupName}
+              {t("home.album.by", { name: groupName })}
             </motion.p>
           )}
-          {groupId && albumId ? (
+          {groupId && albumSlug ? (
             <Link
-              to={`/artist/${groupId}?album=${albumId}`}
+              to={localize(albumPath({ groupId, slug: albumSlug }))}
               className="font-tungsten text-base font-bold uppercase tracking-wider bg-white/90 text-black self-end border-none rounded px-6 py-2 mt-4 cursor-pointer transition-colors duration-200 z-[3] hover:bg-red-700 hover:text-white pointer-events-auto no-underline"
             >
               <motion.span
@@ -189,12 +207,12 @@ const Album = ({
                   delay: 0.6
                 }}
               >
-                Découvrir
+                {t("home.album.discover")}
               </motion.span>
             </Link>
           ) : groupId ? (
             <Link
-              to={`/artist/${groupId}`}
+              to={localize(`/artist/${groupId}`)}
               className="font-tungsten text-base font-bold uppercase tracking-wider bg-white/90 text-black self-end border-none rounded px-6 py-2 mt-4 cursor-pointer transition-colors duration-200 z-[3] hover:bg-red-700 hover:text-white pointer-events-auto no-underline"
             >
               <motion.span
@@ -207,7 +225,7 @@ const Album = ({
                   delay: 0.6
                 }}
               >
-                Découvrir
+                {t("home.album.discover")}
               </motion.span>
             </Link>
           ) : (
@@ -228,7 +246,7 @@ const Album = ({
                 onClick(event);
               }}
             >
-              Découvrir
+              {t("home.album.discover")}
             </motion.button>
           )}
         </motion.div>
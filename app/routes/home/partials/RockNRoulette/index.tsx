@@ -2,6 +2,7 @@ import { useState } from "react";
 import Album from "./Album";
 import { useGroups } from "../../../../contexts/GroupContext";
 import { useAlbumSelection } from "../../../../hooks/useAlbumSelection";
+import { useI18n } from "../../../../contexts/I18nContext";
 
 interface AlbumPosition {
   top: number;
@@ -12,6 +13,7 @@ interface AlbumPosition {
 
 const RocknRoulette = () => {
   const { albums } = useGroups();
+  const { t } = useI18n();
 
   const {
     selectedAlbum,
@@ -59,7 +61,7 @@ const RocknRoulette = () => {
       <div
         className="albums-pile relative h-[60vh] w-full"
         role="region"
-        aria-label="Collection d'albums"
+        aria-label={t("home.rocknroulette.collection")}
       >
         {albums.map((album, index) => {
           const position = albumPositions[0][index];
@@ -67,14 +69,14 @@ const RocknRoulette = () => {
           
           return (
             <Album
-              key={index}
+              key={album.key}
               src={album.src}
               alt={album.alt}
               name={album.title}
               short_description={album.short_description}
               groupId={album.groupId}
               groupName={album.groupName}
-              albumId={album.id}
+              albumSlug={album.slug}
               position={position}
               zindex={zindex}
               isSelected={isSelected(index)}
@@ -88,10 +90,12 @@ const RocknRoulette = () => {
       <div className="flex justify-center my-16">
         <button
           className="button-red"
-          aria-label="Cliquer sur un album pour le voir"
+          aria-label={t("home.rocknroulette.pickLabel")}
           onClick={handleRandomSelection}
         >
-          {selectedAlbum === null ? "Cliquez sur un album" : "Cliquez pour fermer"}
+          {selectedAlbum === null
+            ? t("home.rocknroulette.pick")
+            : t("home.rocknroulette.close")}
         </button>
       </div>
     </section>
@@ -0,0 +1,59 @@
+import { Outlet, data, redirect } from "react-router";
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  localeFromParam,
+  localizePath,
+  negotiateLocale,
+  stripLocalePrefix,
+} from "~/i18n/locales";
+import ErrorPage from "~/components/ErrorPage";
+import { notFound } from "~/.server/errors";
+import { localeCookie } from "~/.server/locale";
+import type { Route } from "./+types/locale";
+
+/**
+ * Parent des pages publiques (`/:lang?/…`). Le français est servi sans
+ * préfixe ; à la première visite, `Accept-Language` peut rediriger vers une
+ * autre langue, ensuite le cookie garde le choix fait avec le sélecteur.
+ */
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+
+  if (params.lang !== undefined) {
+    if (params.lang === DEFAULT_LOCALE) {
+      throw redirect(stripLocalePrefix(url.pathname) + url.search, 301);
+    }
+    if (!isLocale(params.lang)) {
+      throw await notFound(url.pathname);
+    }
+  }
+
+  const locale = localeFromParam(params.lang);
+  const savedLocale = await localeCookie.parse(request.headers.get("Cookie"));
+
+  if (params.lang === undefined && !isLocale(savedLocale)) {
+    const preferred = negotiateLocale(request.headers.get("Accept-Language"));
+    if (preferred && preferred !== DEFAULT_LOCALE) {
+      throw redirect(localizePath(url.pathname + url.search, preferred), {
+        headers: { Vary: "Accept-Language, Cookie" },
+      });
+    }
+  }
+
+  return data(
+    { locale },
+    savedLocale === locale
+      ? undefined
+      : { headers: { "Set-Cookie": await localeCookie.serialize(locale) } }
+  );
+}
+
+export default function LocaleLayout() {
+  return <Outlet />;
+}
+
+// Garde la navigation et le pied de page pour les 404, 410 et 500 des pages publiques
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return <ErrorPage error={error} />;
+}
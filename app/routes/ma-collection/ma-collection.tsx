@@ -0,0 +1,179 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router";
+import FavoriteButton from "~/components/FavoriteButton";
+import Navigation from "~/components/Navigation";
+import { albumPath } from "~/catalog/keys";
+import { useI18n } from "~/contexts/I18nContext";
+import {
+  parseFavorites,
+  serializeFavorites,
+  useFavorites,
+} from "~/hooks/useFavorites";
+import type { FavoriteAlbum } from "~/hooks/useFavorites";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import type { Route } from "./+types/ma-collection";
+
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+
+  // Page propre à chaque navigateur : rien à indexer
+  return [
+    { title: translate(locale, "meta.collection.title") },
+    {
+      name: "description",
+      content: translate(locale, "meta.collection.description"),
+    },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+interface ArtistShelf {
+  groupId: string;
+  groupName: string;
+  albums: FavoriteAlbum[];
+}
+
+// Artistes par ordre alphabétique, leurs albums aussi
+const groupByArtist = (albums: FavoriteAlbum[], locale: string) => {
+  const shelves = new Map<string, ArtistShelf>();
+  for (const album of albums) {
+    const shelf = shelves.get(album.groupId) ?? {
+      groupId: album.groupId,
+      groupName: album.groupName,
+      albums: [],
+    };
+    shelf.albums.push(album);
+    shelves.set(album.groupId, shelf);
+  }
+  const compare = (a: string, b: string) =>
+    a.localeCompare(b, locale, { sensitivity: "base" });
+  return [...shelves.values()]
+    .sort((a, b) => compare(a.groupName, b.groupName))
+    .map((shelf) => ({
+      ...shelf,
+      albums: shelf.albums.sort((a, b) => compare(a.title, b.title)),
+    }));
+};
+
+const downloadCollection = (albums: FavoriteAlbum[]) => {
+  const blob = new Blob([serializeFavorites(albums)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `echos-collection-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  // Révoquée tout de suite, l'URL peut annuler le téléchargement
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export default function MaCollection() {
+  const { locale, t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+  const { favorites, importFavorites } = useFavorites();
+  const [status, setStatus] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+  const shelves = groupByArtist(favorites, locale);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const albums = parseFavorites(await file.text());
+    setStatus(
+      albums
+        ? t("collection.imported", { count: importFavorites(albums) })
+        : t("collection.invalid")
+    );
+    // Le même fichier doit pouvoir être choisi à nouveau
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <main className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div className="flex flex-col gap-6">
+          <h1 className="text-9xl font-bold title-stroke red">{t("collection.title")}</h1>
+          <p className="max-w-3xl text-2xl text-white/70">{t("collection.intro")}</p>
+          <div className="flex flex-wrap items-center gap-4 text-2xl">
+            <button
+              type="button"
+              className="button-red"
+              disabled={favorites.length === 0}
+              onClick={() => downloadCollection(favorites)}
+            >
+              {t("collection.export")}
+            </button>
+            <label className="button-red cursor-pointer focus-within:outline-2 focus-within:outline-white">
+              {t("collection.import")}
+              <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                className="sr-only"
+                onChange={handleImport}
+              />
+            </label>
+          </div>
+          <p className="text-2xl text-white/70" role="status">
+            {status}
+          </p>
+        </div>
+
+        {shelves.length > 0 ? (
+          <>
+            <p className="text-2xl">
+              {t("collection.count", {
+                count: favorites.length,
+                artists: shelves.length,
+              })}
+            </p>
+            {shelves.map((shelf) => (
+              <section key={shelf.groupId} aria-labelledby={`collection-${shelf.groupId}`}>
+                <h2
+                  id={`collection-${shelf.groupId}`}
+                  className="text-6xl font-bold mb-8 title-stroke red"
+                >
+                  <Link
+                    to={localize(`/artist/${shelf.groupId}`)}
+                    className="no-underline hover:text-[#B5252A]"
+                  >
+                    {shelf.groupName}
+                  </Link>
+                </h2>
+                <ul className="grid grid-cols-2 md:grid-cols-4 gap-8">
+                  {shelf.albums.map((album) => (
+                    <li key={album.key} className="relative">
+                      <Link
+                        to={localize(albumPath({ groupId: album.groupId, slug: album.slug }))}
+                        className="flex flex-col gap-2 text-white no-underline hover:text-[#B5252A]"
+                      >
+                        <img
+                          src={album.src}
+                          alt={album.alt}
+                          className="aspect-square w-full object-cover rounded-xs"
+                        />
+                        <span className="text-3xl font-bold">{album.title}</span>
+                      </Link>
+                      <FavoriteButton album={album} className="absolute top-3 right-3" />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </>
+        ) : (
+          <div className="flex flex-col items-start gap-6">
+            <p className="text-3xl">{t("collection.empty")}</p>
+            <Link to={localize("/artists")} className="button-red">
+              {t("collection.explore")}
+            </Link>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { notFound } from "~/.server/errors";
+import type { Route } from "./+types/not-found";
+
+// URL publique sans route : 404 avec des suggestions tirées de l'URL
+export async function loader({ params }: Route.LoaderArgs) {
+  throw await notFound(params["*"]);
+}
+
+// Jamais rendu : sans composant, la route serait une route ressource et
+// la 404 ne passerait pas par la page d'erreur
+export default function NotFound() {
+  return null;
+}
@@ -0,0 +1,111 @@
+import { Link } from "react-router";
+import Navigation from "~/components/Navigation";
+import { CREW, localizeCrewMember } from "~/catalog/crew";
+import { albumPath } from "~/catalog/keys";
+import { localizeAlbum } from "~/catalog/localize";
+import type { Album } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import type { Route } from "./+types/notre-crew";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const repository = getCatalogRepository();
+
+  // Un favori retiré du catalogue depuis l'édition est simplement ignoré
+  const crew = await Promise.all(
+    CREW.map(async (member) => {
+      const albums = await Promise.all(
+        member.favorites.map((key) => repository.getAlbum(key))
+      );
+      return {
+        ...localizeCrewMember(member, locale),
+        favorites: albums
+          .filter((album): album is Album => album !== null)
+          .map((album) => localizeAlbum(album, locale)),
+      };
+    })
+  );
+
+  return { crew };
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+
+  return [
+    { title: translate(locale, "meta.crew.title") },
+    { name: "description", content: translate(locale, "meta.crew.description") },
+  ];
+}
+
+export default function NotreCrew({ loaderData }: Route.ComponentProps) {
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <main className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div className="text-center">
+          <h1 className="text-9xl font-bold mb-6 title-stroke red">{t("crew.title")}</h1>
+          <img
+            src="/assets/images/logo_echos.svg"
+            alt={t("nav.logoAlt")}
+            className="mx-auto w-32 mb-6"
+          />
+          <p className="max-w-3xl mx-auto text-3xl">{t("crew.intro")}</p>
+        </div>
+
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {loaderData.crew.map((member) => (
+            <li
+              key={member.id}
+              id={member.id}
+              className="bg-white/10 rounded-xs p-6 flex flex-col gap-6"
+            >
+              <div className="flex items-center gap-6">
+                <img
+                  src={member.photo}
+                  alt={member.name}
+                  className="size-32 rounded-full object-cover"
+                />
+                <div>
+                  <h2 className="text-5xl font-bold">{member.name}</h2>
+                  <p className="text-2xl text-[#B5252A]">{member.role}</p>
+                </div>
+              </div>
+              <p className="text-2xl">{member.bio}</p>
+              {member.favorites.length > 0 && (
+                <div>
+                  <h3 className="text-2xl text-white/70 mb-3">{t("crew.favorites")}</h3>
+                  <ul className="grid grid-cols-3 gap-4">
+                    {member.favorites.map((album) => (
+                      <li key={album.key}>
+                        <Link
+                          to={localize(albumPath(album))}
+                          className="flex flex-col gap-2 text-white no-underline hover:text-[#B5252A]"
+                        >
+                          <img
+                            src={album.src}
+                            alt={album.alt}
+                            className="aspect-square w-full object-cover rounded-xs"
+                          />
+                          <span className="text-xl font-bold">{album.title}</span>
+                          <span className="text-lg text-white/70">{album.groupName}</span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+import { albumKey } from "~/catalog/keys";
+import { getCatalogRepository } from "~/.server/catalog";
+import { renderShareImage, shareImageResponse } from "~/.server/share-image";
+import type { Route } from "./+types/album.$file";
+
+// `/og/artist/<id>/album/<slug>.png` : image de partage d'une page album
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const slug = /^(.+)\.png$/.exec(params.file)?.[1];
+  const repository = getCatalogRepository();
+  const [group, album] = await Promise.all([
+    repository.getGroup(params.id),
+    slug ? repository.getAlbum(albumKey(params.id, slug)) : null,
+  ]);
+  if (!group || !album) {
+    return new Response("Album introuvable", { status: 404 });
+  }
+
+  const image = await renderShareImage({
+    title: group.name,
+    subtitle: album.title,
+    details: `${group.genre} • ${group.origin}`,
+    cover: album.src,
+  });
+  return shareImageResponse(request, image);
+}
@@ -0,0 +1,19 @@
+import { getCatalogRepository } from "~/.server/catalog";
+import { renderShareImage, shareImageResponse } from "~/.server/share-image";
+import type { Route } from "./+types/artist.$file";
+
+// `/og/artist/<id>.png` : image de partage d'une page artiste
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const id = /^(.+)\.png$/.exec(params.file)?.[1];
+  const group = id ? await getCatalogRepository().getGroup(id) : null;
+  if (!group) {
+    return new Response("Artiste introuvable", { status: 404 });
+  }
+
+  const image = await renderShareImage({
+    title: group.name,
+    details: `${group.genre} • ${group.origin}`,
+    cover: group.albums[0]?.src,
+  });
+  return shareImageResponse(request, image);
+}
@@ -0,0 +1,24 @@
+import { redirect } from "react-router";
+import { albumPath } from "~/catalog/keys";
+import { localeFromParam, localizePath } from "~/i18n/locales";
+import { getCatalogRepository } from "~/.server/catalog";
+import { notFound } from "~/.server/errors";
+import type { Route } from "./+types/random-album";
+
+// Action « Album au hasard » de la recherche : un nouveau tirage à chaque visite
+export async function loader({ params }: Route.LoaderArgs) {
+  const albums = await getCatalogRepository().listAlbums();
+  if (albums.length === 0) {
+    throw await notFound("random-album");
+  }
+
+  const album = albums[Math.floor(Math.random() * albums.length)];
+  throw redirect(localizePath(albumPath(album), localeFromParam(params.lang)), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+// Jamais rendu : le composant permet d'y naviguer côté client
+export default function RandomAlbum() {
+  return null;
+}
@@ -0,0 +1,21 @@
+import { getCatalogRepository } from "~/.server/catalog";
+import {
+  searchCatalog,
+  searchFacets,
+  toSearchSuggestion,
+} from "~/catalog/search";
+import type { Route } from "./+types/search";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  // Renvoyée telle quelle : le client écarte les réponses d'une saisie dépassée
+  const query = new URL(request.url).searchParams.get("q") ?? "";
+  const groups = await getCatalogRepository().listGroups();
+  const results = searchCatalog(groups, query);
+
+  // La palette n'a besoin que du libellé et du lien, pas des fiches complètes
+  return {
+    query,
+    results: results.map(toSearchSuggestion),
+    facets: searchFacets(results),
+  };
+}
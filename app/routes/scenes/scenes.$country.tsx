@@ -0,0 +1,123 @@
+import { Link } from "react-router";
+import GenreChips from "~/components/GenreChips";
+import Navigation from "~/components/Navigation";
+import { albumPath } from "~/catalog/keys";
+import { localizeGroup } from "~/catalog/localize";
+import { releaseYear } from "~/catalog/metadata";
+import { groupScenes } from "~/catalog/origins";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import { notFound } from "~/.server/errors";
+import type { Route } from "./+types/scenes.$country";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const groups = (await getCatalogRepository().listGroups()).map((group) =>
+    localizeGroup(group, locale)
+  );
+  const scene = groupScenes(groups, locale).find(
+    (candidate) => candidate.key === params.country
+  );
+  if (!scene) {
+    throw await notFound(params.country);
+  }
+
+  return {
+    scene: { key: scene.key, name: scene.name },
+    groups: scene.groups,
+    albums: scene.groups.flatMap((group) =>
+      group.albums.map((album) => ({
+        ...album,
+        groupId: group.id,
+        groupName: group.name,
+      }))
+    ),
+  };
+}
+
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const name = data?.scene.name ?? params.country;
+
+  return [
+    { title: translate(locale, "meta.scene.title", { name }) },
+    {
+      name: "description",
+      content: translate(locale, "meta.scene.description", { name }),
+    },
+  ];
+}
+
+export default function Scene({ loaderData }: Route.ComponentProps) {
+  const { scene, groups, albums } = loaderData;
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div>
+          <nav aria-label={t("scene.breadcrumb")} className="text-2xl text-white/70 mb-4">
+            <Link to={localize("/scenes")} className="text-white/70 hover:text-white">
+              {t("scenes.title")}
+            </Link>
+            {" / "}
+          </nav>
+          <h1 className="text-9xl font-bold title-stroke red">{scene.name}</h1>
+        </div>
+
+        <div>
+          <h2 className="text-6xl font-bold mb-8 title-stroke red">
+            {t("scene.artists", { count: groups.length })}
+          </h2>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {groups.map((group) => (
+              <li key={group.id} className="bg-white/10 rounded-xs p-6 flex flex-col gap-3">
+                <Link
+                  to={localize(`/artist/${group.id}`)}
+                  className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+                >
+                  {group.name}
+                </Link>
+                <GenreChips genre={group.genre} size="sm" />
+                <p className="text-xl text-white/70">{group.origin}</p>
+                <p className="text-2xl">{group.short_description}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h2 className="text-6xl font-bold mb-8 title-stroke red">
+            {t("scene.albums", { count: albums.length })}
+          </h2>
+          <ul className="grid grid-cols-2 md:grid-cols-4 gap-8">
+            {albums.map((album) => (
+              <li key={album.key}>
+                <Link
+                  to={localize(albumPath(album))}
+                  className="flex flex-col gap-2 text-white no-underline hover:text-[#B5252A]"
+                >
+                  <img
+                    src={album.src}
+                    alt={album.alt}
+                    className="aspect-square w-full object-cover rounded-xs"
+                  />
+                  <span className="text-3xl font-bold">{album.title}</span>
+                  <span className="text-xl text-white/70">
+                    {album.groupName}
+                    {releaseYear(album) && ` • ${releaseYear(album)}`}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+import { Link } from "react-router";
+import Navigation from "~/components/Navigation";
+import { localizeGroup } from "~/catalog/localize";
+import { groupScenes, scenePath } from "~/catalog/origins";
+import { useI18n } from "~/contexts/I18nContext";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import { sceneMap } from "~/.server/scenes";
+import type { Route } from "./+types/scenes";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const groups = (await getCatalogRepository().listGroups()).map((group) =>
+    localizeGroup(group, locale)
+  );
+  const scenes = groupScenes(groups, locale).map((scene) => ({
+    key: scene.key,
+    name: scene.name,
+    artists: scene.groups.map((group) => ({ id: group.id, name: group.name })),
+  }));
+
+  return { scenes, map: sceneMap(scenes.map((scene) => scene.key)) };
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+
+  return [
+    { title: translate(locale, "meta.scenes.title") },
+    {
+      name: "description",
+      content: translate(locale, "meta.scenes.description"),
+    },
+  ];
+}
+
+export default function Scenes({ loaderData }: Route.ComponentProps) {
+  const { scenes, map } = loaderData;
+  const { t, localize } = useI18n();
+  const isScrolled = useScrollEffect();
+  const byKey = new Map(scenes.map((scene) => [scene.key, scene]));
+  const maxCount = Math.max(1, ...scenes.map((scene) => scene.artists.length));
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-16 m-auto text-white mt-32 py-16">
+        <div>
+          <h1 className="text-9xl font-bold mb-6 title-stroke red">{t("scenes.title")}</h1>
+          <p className="max-w-3xl text-3xl">{t("scenes.intro")}</p>
+        </div>
+
+        <div>
+          <svg
+            viewBox={`0 0 ${map.width} ${map.height}`}
+            className="w-full h-auto"
+            aria-labelledby="carte-scenes"
+          >
+            <title id="carte-scenes">{t("scenes.map")}</title>
+            <path d={map.sphere} className="fill-white/5" />
+            <path d={map.land} className="fill-white/15 stroke-black/40" strokeWidth={0.5} />
+            {map.scenes.map((shape) => {
+              const scene = byKey.get(shape.key);
+              if (!scene) return null;
+              const count = scene.artists.length;
+              return (
+                <Link
+                  key={shape.key}
+                  to={localize(scenePath(shape.key))}
+                  aria-label={`${scene.name} : ${t("scenes.artists", { count })}`}
+                  className="group"
+                >
+                  <path
+                    d={shape.d}
+                    className="fill-[#B5252A] stroke-black/40 group-hover:fill-white transition-colors"
+                    strokeWidth={0.5}
+                    fillOpacity={0.4 + (0.6 * count) / maxCount}
+                  />
+                  <circle
+                    cx={shape.x}
+                    cy={shape.y}
+                    r={8 + (6 * count) / maxCount}
+                    className="fill-black stroke-[#B5252A] group-hover:stroke-white"
+                    strokeWidth={2}
+                  />
+                  <text
+                    x={shape.x}
+                    y={shape.y}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className="fill-white text-[11px] font-bold pointer-events-none"
+                  >
+                    {count}
+                  </text>
+                </Link>
+              );
+            })}
+          </svg>
+        </div>
+
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {scenes.map((scene) => (
+            <li key={scene.key} className="bg-white/10 rounded-xs p-6 flex flex-col gap-3">
+              <Link
+                to={localize(scenePath(scene.key))}
+                className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+              >
+                {scene.name}
+              </Link>
+              <p className="text-xl text-white/70">
+                {t("scenes.artists", { count: scene.artists.length })}
+              </p>
+              <p className="text-2xl">
+                {scene.artists.map((artist, index) => (
+                  <span key={artist.id}>
+                    {index > 0 && ", "}
+                    <Link
+                      to={localize(`/artist/${artist.id}`)}
+                      className="text-white hover:text-[#B5252A]"
+                    >
+                      {artist.name}
+                    </Link>
+                  </span>
+                ))}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  );
+}
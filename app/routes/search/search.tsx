@@ -0,0 +1,310 @@
+import { useEffect } from "react";
+import { Form, Link, useNavigate } from "react-router";
+import GenreChips from "~/components/GenreChips";
+import Highlight from "~/components/Highlight";
+import Navigation from "~/components/Navigation";
+import SearchFacets from "~/components/SearchFacets";
+import SearchMatchLabel from "~/components/SearchMatchLabel";
+import { albumPath } from "~/catalog/keys";
+import { localizeAlbum, localizeGroup } from "~/catalog/localize";
+import { releaseYear } from "~/catalog/metadata";
+import { countryName, originKey } from "~/catalog/origins";
+import {
+  SEARCH_PATH,
+  searchCatalog,
+  searchFacets,
+  searchPath,
+} from "~/catalog/search";
+import type { SearchResult, SearchType } from "~/catalog/search";
+import type { Album, Group } from "~/catalog/types";
+import { useI18n } from "~/contexts/I18nContext";
+import { rememberSearch } from "~/hooks/useSearchHistory";
+import { useScrollEffect } from "~/hooks/useScrollEffect";
+import { localeFromParam } from "~/i18n/locales";
+import type { Locale } from "~/i18n/locales";
+import { translate } from "~/i18n/translate";
+import { getCatalogRepository } from "~/.server/catalog";
+import type { Route } from "./+types/search";
+
+const PAGE_SIZE = 12;
+
+// Chaque liste a sa propre page, pour partager l'une sans perdre l'autre
+const PAGE_PARAMS: Record<SearchType, string> = {
+  artist: "artists_page",
+  album: "albums_page",
+};
+
+interface ResultPage<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pages: number;
+}
+
+// Une page hors limites retombe sur la première ou la dernière
+const paginate = <T,>(items: T[], requested: string | null): ResultPage<T> => {
+  const pages = Math.max(1, Math.ceil(items.length / PAGE_SIZE));
+  const page = Math.min(Math.max(1, Number.parseInt(requested ?? "", 10) || 1), pages);
+  return {
+    items: items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+    total: items.length,
+    page,
+    pages,
+  };
+};
+
+const artistEntry = (result: SearchResult, locale: Locale) => {
+  const group = localizeGroup(result.data as Group, locale);
+  const country = originKey(group.origin);
+  return {
+    id: group.id,
+    name: result.name,
+    ranges: result.ranges,
+    genre: group.genre,
+    origin: country ? countryName(country, locale) : group.origin,
+    summary: group.short_description,
+    match: result.match,
+  };
+};
+
+const albumEntry = (result: SearchResult, locale: Locale) => {
+  const album = localizeAlbum(result.data as Album, locale);
+  return {
+    key: album.key,
+    path: albumPath(album),
+    title: result.name,
+    ranges: result.ranges,
+    src: album.src,
+    alt: album.alt,
+    artist: album.groupName ?? "",
+    year: releaseYear(album),
+    match: result.match,
+  };
+};
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const locale = localeFromParam(params.lang);
+  const url = new URL(request.url);
+  const query = (url.searchParams.get("q") ?? "").trim();
+
+  const groups = await getCatalogRepository().listGroups();
+  const results = searchCatalog(groups, query);
+
+  return {
+    query,
+    total: results.length,
+    facets: searchFacets(results),
+    artists: paginate(
+      results
+        .filter((result) => result.type === "artist")
+        .map((result) => artistEntry(result, locale)),
+      url.searchParams.get(PAGE_PARAMS.artist)
+    ),
+    albums: paginate(
+      results
+        .filter((result) => result.type === "album")
+        .map((result) => albumEntry(result, locale)),
+      url.searchParams.get(PAGE_PARAMS.album)
+    ),
+  };
+}
+
+export function meta({ data, params }: Route.MetaArgs) {
+  const locale = localeFromParam(params.lang);
+  const query = data?.query;
+
+  return [
+    {
+      title: query
+        ? translate(locale, "meta.search.queryTitle", { query })
+        : translate(locale, "meta.search.title"),
+    },
+    {
+      name: "description",
+      content: translate(locale, "meta.search.description"),
+    },
+  ];
+}
+
+interface PaginationProps {
+  type: SearchType;
+  result: ResultPage<unknown>;
+  // Paramètres de la page courante, l'autre liste garde sa page
+  search: URLSearchParams;
+}
+
+const Pagination = ({ type, result, search }: PaginationProps) => {
+  const { t, localize } = useI18n();
+  if (result.pages <= 1) return null;
+
+  const pageUrl = (page: number) => {
+    const next = new URLSearchParams(search);
+    if (page > 1) next.set(PAGE_PARAMS[type], String(page));
+    else next.delete(PAGE_PARAMS[type]);
+    return `${localize(SEARCH_PATH)}?${next}`;
+  };
+  const linkClassName = "text-white hover:text-[#B5252A]";
+
+  return (
+    <nav
+      aria-label={t(`search.pagination.${type}`)}
+      className="flex items-center justify-center gap-8 text-2xl mt-8"
+    >
+      {result.page > 1 ? (
+        <Link to={pageUrl(result.page - 1)} rel="prev" className={linkClassName}>
+          {t("search.previous")}
+        </Link>
+      ) : (
+        <span className="text-white/30">{t("search.previous")}</span>
+      )}
+      <span aria-current="page">
+        {t("search.pageOf", { page: result.page, pages: result.pages })}
+      </span>
+      {result.page < result.pages ? (
+        <Link to={pageUrl(result.page + 1)} rel="next" className={linkClassName}>
+          {t("search.next")}
+        </Link>
+      ) : (
+        <span className="text-white/30">{t("search.next")}</span>
+      )}
+    </nav>
+  );
+};
+
+export default function Search({ loaderData }: Route.ComponentProps) {
+  const { query, total, facets, artists, albums } = loaderData;
+  const { t, localize } = useI18n();
+  const navigate = useNavigate();
+  const isScrolled = useScrollEffect();
+  const search = new URLSearchParams({ q: query });
+  if (artists.page > 1) search.set(PAGE_PARAMS.artist, String(artists.page));
+  if (albums.page > 1) search.set(PAGE_PARAMS.album, String(albums.page));
+
+  useEffect(() => {
+    if (query) rememberSearch(query);
+  }, [query]);
+
+  return (
+    <>
+      <Navigation isScrolled={isScrolled} />
+      <div className="min-h-screen container flex flex-col gap-12 m-auto text-white mt-32 py-16">
+        <div className="flex flex-col gap-6">
+          <h1 className="text-9xl font-bold title-stroke red">{t("search.title")}</h1>
+          <Form
+            key={query}
+            method="get"
+            action={localize(SEARCH_PATH)}
+            role="search"
+            className="flex flex-wrap gap-4 text-2xl"
+          >
+            <label htmlFor="search-page-query" className="sr-only">
+              {t("search.label")}
+            </label>
+            <input
+              id="search-page-query"
+              type="search"
+              name="q"
+              defaultValue={query}
+              placeholder={t("search.placeholder")}
+              className="flex-1 min-w-64 bg-black/80 text-white text-3xl px-5 py-4 rounded-xs border border-white/30 focus:border-white focus:outline-none"
+            />
+            <button type="submit" className="button-red">
+              {t("search.submit")}
+            </button>
+          </Form>
+          {query ? (
+            <p className="text-2xl text-white/70" aria-live="polite">
+              {total > 0
+                ? t("search.count", { count: total, query })
+                : t("search.noResults", { query })}
+            </p>
+          ) : (
+            <p className="max-w-3xl text-2xl text-white/70">{t("search.intro")}</p>
+          )}
+          {total > 0 && (
+            <SearchFacets
+              query={query}
+              facets={facets}
+              onChange={(next) => navigate(localize(searchPath(next)))}
+            />
+          )}
+        </div>
+
+        {artists.total > 0 && (
+          <section aria-labelledby="resultats-artistes">
+            <h2
+              id="resultats-artistes"
+              className="text-6xl font-bold mb-8 title-stroke red"
+            >
+              {t("search.results.artist", { count: artists.total })}
+            </h2>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              {artists.items.map((artist) => (
+                <li key={artist.id} className="bg-white/10 rounded-xs p-6 flex flex-col gap-3">
+                  <Link
+                    to={localize(`/artist/${artist.id}`)}
+                    className="text-5xl font-bold text-white no-underline hover:text-[#B5252A]"
+                  >
+                    <Highlight text={artist.name} ranges={artist.ranges} />
+                  </Link>
+                  <GenreChips genre={artist.genre} size="sm" />
+                  <p className="text-xl text-white/70">
+                    {artist.origin}
+                    {artist.match && (
+                      <>
+                        {" • "}
+                        <SearchMatchLabel match={artist.match} />
+                      </>
+                    )}
+                  </p>
+                  <p className="text-2xl">{artist.summary}</p>
+                </li>
+              ))}
+            </ul>
+            <Pagination type="artist" result={artists} search={search} />
+          </section>
+        )}
+
+        {albums.total > 0 && (
+          <section aria-labelledby="resultats-albums">
+            <h2
+              id="resultats-albums"
+              className="text-6xl font-bold mb-8 title-stroke red"
+            >
+              {t("search.results.album", { count: albums.total })}
+            </h2>
+            <ul className="grid grid-cols-2 md:grid-cols-4 gap-8">
+              {albums.items.map((album) => (
+                <li key={album.key}>
+                  <Link
+                    to={localize(album.path)}
+                    className="flex flex-col gap-2 text-white no-underline hover:text-[#B5252A]"
+                  >
+                    <img
+                      src={album.src}
+                      alt={album.alt}
+                      className="aspect-square w-full object-cover rounded-xs"
+                    />
+                    <span className="text-3xl font-bold">
+                      <Highlight text={album.title} ranges={album.ranges} />
+                    </span>
+                    <span className="text-xl text-white/70">
+                      {album.artist}
+                      {album.year && ` • ${album.year}`}
+                    </span>
+                  </Link>
+                  {album.match && (
+                    <p className="text-lg text-white/70 mt-1">
+                      <SearchMatchLabel match={album.match} />
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <Pagination type="album" result={albums} search={search} />
+          </section>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { siteOrigin } from "~/.server/site";
+import {
+  SITEMAP_PAGE_SIZE,
+  listSitemapEntries,
+  renderSitemapIndex,
+  renderUrlset,
+  xmlResponse,
+} from "~/.server/sitemap";
+import type { Route } from "./+types/sitemap";
+
+// Un seul fichier tant que le catalogue tient dedans, un index au-delà
+export async function loader({ request }: Route.LoaderArgs) {
+  const entries = await listSitemapEntries();
+  const origin = siteOrigin(request);
+
+  return xmlResponse(
+    entries.length > SITEMAP_PAGE_SIZE
+      ? renderSitemapIndex(entries, origin)
+      : renderUrlset(entries, origin)
+  );
+}
@@ -0,0 +1,20 @@
+import { siteOrigin } from "~/.server/site";
+import {
+  listSitemapEntries,
+  renderUrlset,
+  sitemapPage,
+  sitemapPageCount,
+  xmlResponse,
+} from "~/.server/sitemap";
+import type { Route } from "./+types/sitemaps.$file";
+
+// Fichiers `/sitemaps/<n>.xml` listés par l'index de `/sitemap.xml`
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const entries = await listSitemapEntries();
+  const page = Number(/^(\d+)\.xml$/.exec(params.file)?.[1]);
+  if (!Number.isInteger(page) || page < 1 || page > sitemapPageCount(entries)) {
+    return new Response("Sitemap introuvable", { status: 404 });
+  }
+
+  return xmlResponse(renderUrlset(sitemapPage(entries, page), siteOrigin(request)));
+}
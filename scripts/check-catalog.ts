@@ -0,0 +1,10 @@
+import { checkCatalog } from "../app/catalog/integrity";
+import { formatCatalogReport } from "../app/catalog/schema";
+
+const result = checkCatalog(process.cwd());
+
+console.log(formatCatalogReport(result.issues));
+
+if (!result.valid) {
+  process.exit(1);
+}